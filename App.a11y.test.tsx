@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import App from './App';
+import CaregiverDashboard from './components/CaregiverDashboard';
+import JournalPanel from './components/JournalPanel';
+import { IndexedDbJournalStore, MemoryJournalStore, SessionJournal } from './services/journal';
+
+// jsdom cannot lay out or paint, so contrast is checked by eye, not here.
+const AXE_OPTIONS: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+
+async function expectNoViolations(context: axe.ElementContext = document) {
+  const { violations } = await axe.run(context, AXE_OPTIONS);
+  expect(violations.map(v => `${v.id}: ${v.nodes.map(n => n.target.join(' ')).join(', ')}`)).toEqual([]);
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  // Set by index.html in the browser.
+  document.documentElement.lang = 'en';
+  document.title = 'OpenClaw-Vision';
+  // jsdom has neither; the app only reads them once a session starts.
+  HTMLMediaElement.prototype.play = () => Promise.resolve();
+  HTMLCanvasElement.prototype.getContext = (() => null) as typeof HTMLCanvasElement.prototype.getContext;
+});
+
+afterEach(cleanup);
+
+describe('App accessibility', () => {
+  it('renders without axe violations', async () => {
+    render(<App />);
+    await expectNoViolations();
+  });
+
+  it('announces status through a polite live region and warnings through an alert', () => {
+    render(<App />);
+    const status = screen.getAllByRole('status').find(el => el.getAttribute('aria-live') === 'polite');
+    expect(status?.textContent).toMatch(/\S/);
+    expect(screen.getByRole('alert')).toBeTruthy();
+    expect(screen.getByRole('log', { name: 'Interaction log' }).getAttribute('aria-live')).toBe('polite');
+  });
+
+  it('starts with focus on the main button', () => {
+    render(<App />);
+    expect(document.activeElement?.tagName).toBe('BUTTON');
+    expect(document.activeElement?.getAttribute('aria-keyshortcuts')).toBeTruthy();
+  });
+
+  it.each([
+    ['Settings', /Settings, profile/],
+    ['Places', /Places and routes/],
+    ['Spatial calibration', /Spatial audio calibration/],
+  ])('%s dialog is modal, labelled, takes focus and closes on Escape', async (_name, opener) => {
+    render(<App />);
+    const button = screen.getByRole('button', { name: opener });
+    act(() => button.click());
+    const dialog = screen.getByRole('dialog');
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(dialog.getAttribute('aria-labelledby')).toBeTruthy();
+    expect(dialog.contains(document.activeElement)).toBe(true);
+    await expectNoViolations(dialog);
+    act(() => {
+      fireEvent.keyDown(window, { key: 'Escape' });
+    });
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+});
+
+describe('CaregiverDashboard accessibility', () => {
+  it('renders the room form without axe violations', async () => {
+    render(<CaregiverDashboard />);
+    expect(screen.getByLabelText(/Room code/)).toBeTruthy();
+    await expectNoViolations();
+  });
+});
+
+describe('JournalPanel accessibility', () => {
+  it('says through an alert when the journal stops being saved', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new MemoryJournalStore();
+    store.add = () => Promise.reject(new Error('QuotaExceededError'));
+    const journal = new SessionJournal(store);
+    // Inside the sidebar landmark, as in the app.
+    render(
+      <aside>
+        <JournalPanel journal={journal} saveThumbnails={false} onSaveThumbnailsChange={() => {}} />
+      </aside>,
+    );
+    expect(screen.queryByRole('alert')).toBeNull();
+
+    await act(() => journal.record({ kind: 'speech', role: 'user', text: '前面是什么？', sessionId: 's' }));
+
+    expect(screen.getByRole('alert').textContent).toMatch(/can't be saved/);
+    await expectNoViolations();
+    vi.restoreAllMocks();
+  });
+
+  it('shows the banner, not an unhandled rejection, when the database cannot be opened', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const refusing = {
+      open: () => {
+        const open = {} as IDBOpenDBRequest & { error: DOMException };
+        setTimeout(() => {
+          Object.assign(open, { error: new DOMException('Quota exceeded', 'QuotaExceededError') });
+          open.onerror?.(new Event('error'));
+        });
+        return open;
+      },
+    } as unknown as IDBFactory;
+    const journal = new SessionJournal(new IndexedDbJournalStore(refusing));
+    render(
+      <aside>
+        <JournalPanel journal={journal} saveThumbnails={false} onSaveThumbnailsChange={() => {}} />
+      </aside>,
+    );
+
+    expect((await screen.findByRole('alert')).textContent).toMatch(/can't be saved/);
+    await act(() => journal.record({ kind: 'speech', role: 'user', text: '前面是什么？', sessionId: 's' }));
+    expect(screen.getByText('前面是什么？')).toBeTruthy();
+    vi.restoreAllMocks();
+  });
+});
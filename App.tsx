@@ -1,235 +1,1163 @@
-
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { AppStatus, TranscriptionEntry } from './types';
-import { decodeBase64, decodeAudioData, createPcmBlob } from './utils/audio';
+import {
+  AppStatus,
+  FramePolicy,
+  Hazard,
+  InputMode,
+  InteractionMode,
+  LocalFinding,
+  NavigatorProfile,
+  RedactionPolicy,
+  RouteProgress,
+  SavedPlace,
+} from './types';
+import SettingsPanel from './components/SettingsPanel';
+import JournalPanel from './components/JournalPanel';
+import AudioControls from './components/AudioControls';
+import SpatialCalibration from './components/SpatialCalibration';
+import CameraControls from './components/CameraControls';
+import InputControls from './components/InputControls';
+import PlacesPanel from './components/PlacesPanel';
+import RemoteAssistControls from './components/RemoteAssistControls';
+import { decodeBase64, decodeAudioData } from './utils/audio';
+import { cancelSpeech, speak } from './utils/speech';
+import { AudioOutputEngine, DEFAULT_OUTPUT_SETTINGS, OutputSettings } from './services/AudioOutputEngine';
+import {
+  POSITION_CUE_TONES,
+  SpatialCueTracker,
+  SpatialPosition,
+  loadSpatialSettings,
+  saveSpatialSettings,
+} from './services/spatialAudio';
+import { LiveNavigatorSession } from './services/LiveNavigatorSession';
+import { LiveTransport } from './services/liveTransport';
+import { TokenLiveTransport } from './services/tokenTransport';
+import { ScriptedLiveTransport } from './services/scriptedTransport';
+import { ResourceManager } from './services/ResourceManager';
+import { MicChunk, startMicCapture } from './services/micCapture';
+import { MicGate, loadInputMode, saveInputMode, usesMicrophone } from './services/inputModes';
+import { VoiceActivityDetector } from './services/voiceActivity';
+import { FrameScheduler } from './services/FrameScheduler';
+import { MetricsSnapshot, NavigatorMetrics } from './services/NavigatorMetrics';
+import { downloadJson } from './utils/download';
+import { canvasThumbnail, createCanvasFrameSource } from './services/canvasFrameSource';
+import { SessionJournal } from './services/journal';
+import { SafetyPreFilter, describeFindings } from './services/safetyFilter';
+import { DEFAULT_REDACTION, REDACTION_LABELS } from './services/redaction';
+import {
+  CameraInfo,
+  CameraResolution,
+  MediaDeviceManager,
+  loadCameraPreferences,
+  saveCameraPreferences,
+} from './services/MediaDeviceManager';
+import { RecordingTransport, SessionBundle, SessionRecorder, isSessionBundle } from './services/sessionBundle';
+import { BundleReplayer, ReplayTransport } from './services/replayTransport';
+import { base64ByteLength } from './utils/frames';
+import { HAZARD_EARCONS, HAZARD_LABELS, HAZARD_VIBRATIONS, describeHazard } from './services/hazards';
+import { SHORTCUT_KEYS, ShortcutAction, bindMediaSession, cycleMode, isTypingTarget, resolveShortcut } from './services/shortcuts';
+import { vibrate } from './utils/haptics';
+import { LiveContext, SPEECH_LANG, buildLiveConfig, findProfile, loadProfiles, saveProfiles } from './services/profiles';
+import {
+  ROUTE_END_MESSAGE,
+  ROUTE_PROGRESS_TOOL,
+  loadPlaces,
+  parseRouteProgress,
+  routeActivationParts,
+  savePlaces,
+} from './services/places';
+import { notice, statusNotice } from './services/notices';
+import { NavigatorAssist, assistVideoStream } from './services/remoteAssist';
+import { createRoomCode, relayUrl } from './services/assistProtocol';
+import {
+  INTERACTION_MODES,
+  REPORT_TARGET_TOOL,
+  SET_MODE_TOOL,
+  isInteractionMode,
+  modeLabel,
+  modeSwitchMessage,
+  resolveFramePolicy,
+} from './services/modes';
+import { DEMO_SESSION_SCRIPT } from './fixtures/demoSession';
 
 // Constants
-const FRAME_RATE = 2; // Frames per second
-const JPEG_QUALITY = 0.5;
-const SYSTEM_INSTRUCTION = `
-# Role: OpenClaw-Vision (The Digital Navigator)
-你是一款专门为视觉障碍人士设计的实时辅助 AI。你的目标是通过摄像头画面，成为用户的“眼睛”，提供精准、客观且富有同情心的环境描述与行动建议。
-
-## Core Principles (核心原则)
-1. 安全性第一：优先识别楼梯、车辆、障碍物、红绿灯等潜在危险。
-2. 客观描述：避免使用“漂亮”、“好”等主观词汇。优先描述物体的相对位置（如：1点钟方向，约2米处）。
-3. 高效简洁：盲人依赖听觉，信息必须干练，按重要性排序。
-4. 隐私保护：自动忽略或模糊处理画面中无关人员的面部特征。
-
-## Processing Workflow (分析流程)
-每当你接收到一张图片或一段视频流时，请按以下步骤思考并按需通过语音反馈：
-1. **Safety Check**: 检查是否有立即威胁（红灯、台阶、来车）。如果有，立即警告。
-2. **Scene Parsing**: 识别当前场景（如：厨房、人行道）。
-3. **Main Subject**: 识别画面中心或用户关注的主体。
-4. **Spatial Mapping**: 使用“时钟方向法”定位物体。
-5. **Output Generation**: 按照下方的输出模板生成易于理解的中文语音。
-
-## Response Template (输出模板)
-你的回复必须遵循以下结构（如果某项不适用可省略，但整体风格保持一致）：
-- **[紧急警告]**: 仅在有危险时显示（例如：**前方有阶梯，请停下**）。
-- **[环境概况]**: 一句话描述（例如：你现在正站在十字路口，左侧是一家咖啡店）。
-- **[详细信息]**:
-  - 物体 A：位置（时钟方向），特征。
-  - 物体 B：位置（时钟方向），特征。
-- **[文字内容]**: (如果有文字) “路牌显示：南京东路”。
-- **[行动建议]**: 例如：你可以继续直行约5步，避开右侧的消防栓。
-
-请务必使用中文进行回复。
-`;
+const MAX_RECONNECT_ATTEMPTS = 6;
+const MIC_CHUNK_MS = 100;
+const MIC_PRE_ROLL_CHUNKS = 3; // audio from just before a push-to-talk press or VAD trigger
+const METRICS_POLL_MS = 250;
+const THUMBNAILS_KEY = 'openclaw.journal.thumbnails';
+const OUTPUT_SETTINGS_KEY = 'openclaw.output.v1';
+// A spoken position this soon after a hazard cue from the same direction is the model describing that hazard.
+const HAZARD_CUE_SUPPRESS_MS = 4000;
+
+const loadOutputSettings = (): OutputSettings => {
+  try {
+    return { ...DEFAULT_OUTPUT_SETTINGS, ...JSON.parse(localStorage.getItem(OUTPUT_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+};
+
+// `?transport=scripted` replays a recorded session instead of calling Gemini.
+// Otherwise credentials come from the token server (server/index.ts).
+const createTransport = (): LiveTransport => {
+  if (new URLSearchParams(window.location.search).get('transport') === 'scripted') {
+    return new ScriptedLiveTransport(DEMO_SESSION_SCRIPT);
+  }
+  return new TokenLiveTransport();
+};
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
-  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  const [journal] = useState(() => SessionJournal.open());
+  const [recording, setRecording] = useState(false);
+  const [replayBundle, setReplayBundle] = useState<SessionBundle | null>(null);
+  const [replayFrame, setReplayFrame] = useState<string | null>(null);
+  const [outputSettings, setOutputSettings] = useState(loadOutputSettings);
+  const [outputPaused, setOutputPaused] = useState(false);
+  const [spatialSettings, setSpatialSettings] = useState(loadSpatialSettings);
+  const [showSpatial, setShowSpatial] = useState(false);
+  const [showPlaces, setShowPlaces] = useState(false);
+  const [places, setPlaces] = useState(loadPlaces);
+  const [activePlaceId, setActivePlaceId] = useState<string | null>(null);
+  const [routeProgress, setRouteProgress] = useState<RouteProgress | null>(null);
+  const [cameraPrefs, setCameraPrefs] = useState(loadCameraPreferences);
+  const [cameras, setCameras] = useState<CameraInfo[]>([]);
+  const [torchOn, setTorchOn] = useState(false);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [redactedRegions, setRedactedRegions] = useState(0);
+  const [inputMode, setInputMode] = useState(loadInputMode);
+  const [sessionInputMode, setSessionInputMode] = useState<InputMode | null>(null);
+  const [talking, setTalking] = useState(false);
+  const [assistRoom, setAssistRoom] = useState<string | null>(null);
+  const [caregivers, setCaregivers] = useState(0);
+  const [assistRequests, setAssistRequests] = useState<string[]>([]);
+  const [caregiverTalking, setCaregiverTalking] = useState(false);
+  const [saveThumbnails, setSaveThumbnails] = useState(() => localStorage.getItem(THUMBNAILS_KEY) === 'true');
   const [error, setError] = useState<string | null>(null);
   const [safetyAlert, setSafetyAlert] = useState<boolean>(false);
+  const [lastHazard, setLastHazard] = useState<Hazard | null>(null);
+  const [hazardHistory, setHazardHistory] = useState<Hazard[]>([]);
+  const [metrics, setMetrics] = useState<MetricsSnapshot | null>(null);
+  const [levels, setLevels] = useState<number[]>([]);
+  const [profileState, setProfileState] = useState(() => loadProfiles());
+  const [showSettings, setShowSettings] = useState(false);
+  const [mode, setMode] = useState<InteractionMode>('walk');
+  const [findTarget, setFindTarget] = useState<string | null>(null);
+  const [targetCentered, setTargetCentered] = useState(false);
+  const profile = findProfile(profileState);
 
   // Refs for managing media and session
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const resourcesRef = useRef<ResourceManager | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const sessionRef = useRef<any>(null);
-  const frameIntervalRef = useRef<number | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const outputRef = useRef<AudioOutputEngine | null>(null);
+  const outputSettingsRef = useRef(outputSettings);
+  const spatialSettingsRef = useRef(spatialSettings);
+  const devicesRef = useRef<MediaDeviceManager | null>(null);
+  const cameraPrefsRef = useRef(cameraPrefs);
+  const redactedRegionsRef = useRef(0);
+  const micGateRef = useRef<MicGate<MicChunk> | null>(null);
+  const sessionInputRef = useRef<InputMode>(inputMode);
+  const activePlaceRef = useRef<SavedPlace | null>(null);
+  const routeProgressRef = useRef<RouteProgress | null>(null);
+  const assistRef = useRef<NavigatorAssist | null>(null);
+  const stopAssistRef = useRef<(() => void) | null>(null);
+  // Set while caregivers watch the redacted frame canvas rather than the camera itself.
+  const assistCanvasStreamRef = useRef<MediaStream | null>(null);
+  const previewAudioRef = useRef<{ ctx: AudioContext; output: AudioOutputEngine } | null>(null);
+  const clearAlertRef = useRef<(() => void) | null>(null);
+  const metricsRef = useRef<NavigatorMetrics | null>(null);
+  const sessionRef = useRef<LiveNavigatorSession | null>(null);
+  const schedulerRef = useRef<FrameScheduler | null>(null);
+  const sessionProfileRef = useRef<NavigatorProfile | null>(null);
+  const modeRef = useRef<{ mode: InteractionMode; target: string | null }>({ mode: 'walk', target: null });
+  const targetCenteredRef = useRef(false);
+  const sessionIdRef = useRef('');
+  const saveThumbnailsRef = useRef(saveThumbnails);
+  saveThumbnailsRef.current = saveThumbnails;
+  const mainButtonRef = useRef<HTMLButtonElement>(null);
+  const shortcutRef = useRef<(action: ShortcutAction) => void>(() => {});
 
-  const currentInputTransRef = useRef('');
-  const currentOutputTransRef = useRef('');
+  const stopPlayback = () => {
+    outputRef.current?.clearNarration();
+    // Text-only backends are voiced by speechSynthesis instead of the output engine.
+    if (sessionRef.current && !sessionRef.current.speaksAudio) cancelSpeech();
+  };
 
   const stopAll = useCallback(() => {
-    if (frameIntervalRef.current) {
-      window.clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
-    }
-    if (sessionRef.current) {
-      sessionRef.current = null;
-    }
-    sourcesRef.current.forEach(s => s.stop());
-    sourcesRef.current.clear();
+    const resources = resourcesRef.current;
+    resourcesRef.current = null;
+    resources?.dispose();
     setStatus(AppStatus.IDLE);
     setSafetyAlert(false);
   }, []);
 
+  // The pre-filter watches the camera from the moment it opens, connected or not; uploads wait for startCapture.
+  const startCamera = (
+    resources: ResourceManager,
+    framePolicy: Partial<FramePolicy>,
+    redaction: RedactionPolicy,
+    onLocalFinding: (finding: LocalFinding) => void,
+  ): FrameScheduler | null => {
+    if (!videoRef.current || !canvasRef.current) return null;
+    const source = createCanvasFrameSource(videoRef.current, canvasRef.current, {
+      redaction,
+      onRedact: (regions) => {
+        if (regions.length === redactedRegionsRef.current) return;
+        redactedRegionsRef.current = regions.length;
+        setRedactedRegions(regions.length);
+      },
+    });
+    const scheduler = new FrameScheduler(source, framePolicy);
+    const preFilter = new SafetyPreFilter();
+    preFilter.on('alert', onLocalFinding);
+    schedulerRef.current = scheduler;
+    resources.add(() => {
+      scheduler.stop();
+      scheduler.removeAllListeners();
+      preFilter.removeAllListeners();
+      schedulerRef.current = null;
+    });
+    scheduler.startInspection(preFilter);
+    return scheduler;
+  };
+
+  const startCapture = (
+    resources: ResourceManager,
+    session: LiveNavigatorSession,
+    stream: MediaStream | null,
+    inputCtx: AudioContext,
+    metrics: NavigatorMetrics,
+    scheduler: FrameScheduler | null,
+    inputMode: InputMode,
+  ) => {
+    if (stream) {
+      // Every mode streams through the gate; only the always-on mic keeps it open.
+      const gate = new MicGate<MicChunk>(({ data, mimeType, bytes, level }) => {
+        metrics.recordAudioUpload(bytes, level);
+        session.sendAudio(data, mimeType);
+      }, MIC_PRE_ROLL_CHUNKS);
+      gate.setOpen(inputMode === 'open_mic');
+      micGateRef.current = gate;
+      let vad: VoiceActivityDetector | null = null;
+      if (inputMode === 'hands_free') {
+        const detector = new VoiceActivityDetector({ sampleRate: inputCtx.sampleRate });
+        detector.on('speechStart', () => setSpeaking(true));
+        detector.on('speechEnd', () => setSpeaking(false));
+        vad = detector;
+      }
+      resources.add(() => {
+        vad?.removeAllListeners();
+        micGateRef.current = null;
+        setTalking(false);
+      });
+      startMicCapture(resources, inputCtx, stream, chunk => gate.push(chunk), {
+        chunkMs: MIC_CHUNK_MS,
+        onSamples: vad ? samples => vad!.push(samples) : undefined,
+      }).catch((err) => {
+        setError(`Microphone capture failed: ${err.message}`);
+      });
+    }
+
+    if (scheduler) {
+      scheduler.on('frame', ({ data, bytes, findings }) => {
+        metrics.recordFrame(bytes);
+        session.sendFrame(data, findings.length ? describeFindings(findings) : undefined);
+      });
+      scheduler.start();
+    }
+  };
+
+  // Replay mode: recorded frames and PCM stand in for the camera and mic.
+  const startReplay = (
+    resources: ResourceManager,
+    session: LiveNavigatorSession,
+    replayer: BundleReplayer,
+    metrics: NavigatorMetrics,
+  ) => {
+    resources.add(() => {
+      replayer.stop();
+      replayer.removeAllListeners();
+      setReplayFrame(null);
+    });
+    replayer.run({
+      onFrame: (data) => {
+        metrics.recordFrame(base64ByteLength(data));
+        setReplayFrame(data);
+        session.sendFrame(data);
+      },
+      onAudio: (data, mimeType) => {
+        metrics.recordAudioUpload(base64ByteLength(data), 0);
+        session.sendAudio(data, mimeType);
+      },
+    });
+  };
+
+  const playAudioChunk = async (data: string) => {
+    const ctx = outputAudioContextRef.current;
+    const output = outputRef.current;
+    if (!ctx || !output) return;
+    const buffer = await decodeAudioData(decodeBase64(data), ctx, 24000, 1);
+    if (ctx.state === 'closed') return;
+    output.enqueueNarration(buffer);
+  };
+
+  // Local notices follow the same rate and volume as the model's voice.
+  const say = (text: string, lang: string) => {
+    const { rate, volume } = outputSettingsRef.current;
+    speak(text, lang, { rate, volume });
+  };
+
+  const playPositionCue = (output: AudioOutputEngine, position: SpatialPosition) => {
+    output.playEarcon(POSITION_CUE_TONES, { noteDuration: 0.06, volume: 0.25, position });
+  };
+
+  // Calibration works without a session: borrow the live engine or spin up a throwaway one.
+  const previewPosition = (position: SpatialPosition) => {
+    let output = outputRef.current;
+    if (!output) {
+      if (!previewAudioRef.current) {
+        const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+        const ctx = new AudioContextCtor() as AudioContext;
+        const preview = new AudioOutputEngine(ctx, outputSettingsRef.current);
+        preview.setSpatial(spatialSettingsRef.current);
+        previewAudioRef.current = { ctx, output: preview };
+      }
+      output = previewAudioRef.current.output;
+    }
+    playPositionCue(output, position);
+  };
+
+  // Camera changes apply live when a session is running and are remembered for the next one.
+  const selectCamera = (deviceId: string | null) => {
+    setCameraPrefs(prev => ({ ...prev, deviceId, torch: false }));
+    devicesRef.current?.switchCamera(deviceId).catch((err: Error) => setError(err.message));
+  };
+
+  const changeResolution = (resolution: CameraResolution) => {
+    setCameraPrefs(prev => ({ ...prev, resolution }));
+    devicesRef.current?.setResolution(resolution).catch((err: Error) => setError(err.message));
+  };
+
+  const toggleTorch = () => {
+    const next = !torchOn;
+    setCameraPrefs(prev => ({ ...prev, torch: next }));
+    devicesRef.current?.setTorch(next);
+  };
+
+  const closeSpatial = () => {
+    setShowSpatial(false);
+    previewAudioRef.current?.output.dispose();
+    previewAudioRef.current?.ctx.close();
+    previewAudioRef.current = null;
+  };
+
+  // Push-to-talk and hands-free mark the user's turn themselves; the server's own detection is off.
+  const setSpeaking = (on: boolean) => {
+    const gate = micGateRef.current;
+    const session = sessionRef.current;
+    if (!gate || !session || gate.open === on) return;
+    if (on) {
+      session.startActivity();
+      gate.setOpen(true);
+    } else {
+      gate.setOpen(false);
+      session.endActivity();
+    }
+    setTalking(on);
+  };
+
+  const talk = (pressed: boolean) => {
+    if (sessionInputMode === 'push_to_talk') setSpeaking(pressed);
+  };
+
+  const sendTypedQuestion = (text: string) => {
+    sessionRef.current?.sendUserText(text);
+  };
+
+  // From the offline state: the camera is still open, so only the connection is tried again.
+  const retryConnection = () => {
+    setError(null);
+    sessionRef.current?.start();
+  };
+
+  const togglePause = () => {
+    const output = outputRef.current;
+    if (!output) return;
+    if (output.paused) output.resume();
+    else output.pause();
+    setOutputPaused(output.paused);
+  };
+
   const startSession = async () => {
+    // A previous run may still be holding resources (e.g. a double tap).
+    resourcesRef.current?.dispose();
+    const resources = new ResourceManager();
+    resourcesRef.current = resources;
+
     try {
       setStatus(AppStatus.CONNECTING);
       setError(null);
+      setHazardHistory([]);
+      setLastHazard(null);
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+      const AudioContextCtor = window.AudioContext || (window as any).webkitAudioContext;
+      const outputCtx = resources.addAudioContext(new AudioContextCtor({ sampleRate: 24000 }) as AudioContext);
+      outputAudioContextRef.current = outputCtx;
+      const output = new AudioOutputEngine(outputCtx, outputSettingsRef.current);
+      output.setSpatial(spatialSettingsRef.current);
+      outputRef.current = output;
+      resources.add(() => {
+        output.dispose();
+        outputRef.current = null;
+        outputAudioContextRef.current = null;
+        setOutputPaused(false);
+      });
 
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      }
-      if (!outputAudioContextRef.current) {
-        outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      const metrics = new NavigatorMetrics();
+      metricsRef.current = metrics;
+      resources.setInterval(() => {
+        metrics.recordPlaybackQueue(output.queuedSeconds);
+        setMetrics(metrics.snapshot());
+        setLevels(metrics.levelHistory);
+      }, METRICS_POLL_MS);
+      resources.add(() => setLevels([]));
+
+      let transport: LiveTransport;
+      let media: { stream: MediaStream | null; inputCtx: AudioContext } | null = null;
+      let replayer: BundleReplayer | null = null;
+      if (replayBundle) {
+        const replayTransport = new ReplayTransport();
+        replayer = new BundleReplayer(replayBundle, replayTransport);
+        transport = replayTransport;
+      } else {
+        // The mic runs at the device rate; micCapture resamples to 16 kHz.
+        const inputCtx = resources.addAudioContext(new AudioContextCtor() as AudioContext);
+        const devices = new MediaDeviceManager(cameraPrefsRef.current);
+        devicesRef.current = devices;
+        resources.add(() => {
+          devices.dispose();
+          devicesRef.current = null;
+          if (videoRef.current) videoRef.current.srcObject = null;
+          setCameras([]);
+          setTorchOn(false);
+          setTorchSupported(false);
+          redactedRegionsRef.current = 0;
+          setRedactedRegions(0);
+        });
+        // A camera switch hands over a new stream; the frame scheduler keeps reading the same <video>.
+        devices.on('videoStream', (video) => {
+          if (videoRef.current) videoRef.current.srcObject = video;
+          setTorchSupported(devices.torchSupported);
+          if (!assistCanvasStreamRef.current) assistRef.current?.setVideoStream(video);
+        });
+        devices.on('cameras', setCameras);
+        devices.on('torch', setTorchOn);
+        const { audio } = await devices.open({ audio: usesMicrophone(inputMode) });
+        if (resources.isDisposed) return;
+        media = { stream: audio, inputCtx };
+        transport = createTransport();
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: true });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
+      if (recording) {
+        const recorder = new SessionRecorder();
+        transport = new RecordingTransport(transport, recorder);
+        resources.add(() => {
+          if (recorder.eventCount > 0) {
+            downloadJson(`openclaw-session-${Date.now()}.json`, recorder.toBundle());
+          }
+        });
       }
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: SYSTEM_INSTRUCTION,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setStatus(AppStatus.ACTIVE);
-
-            const source = audioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmData = createPcmBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: { data: pcmData, mimeType: 'audio/pcm;rate=16000' } });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextRef.current!.destination);
-
-            frameIntervalRef.current = window.setInterval(() => {
-              if (canvasRef.current && videoRef.current) {
-                const canvas = canvasRef.current;
-                const video = videoRef.current;
-                canvas.width = video.videoWidth;
-                canvas.height = video.videoHeight;
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                  canvas.toBlob(async (blob) => {
-                    if (blob) {
-                      const reader = new FileReader();
-                      reader.readAsDataURL(blob);
-                      reader.onloadend = () => {
-                        const base64data = (reader.result as string).split(',')[1];
-                        sessionPromise.then(session => {
-                          session.sendRealtimeInput({ media: { data: base64data, mimeType: 'image/jpeg' } });
-                        });
-                      };
-                    }
-                  }, 'image/jpeg', JPEG_QUALITY);
-                }
-              }
-            }, 1000 / FRAME_RATE);
-          },
-          onmessage: async (message: any) => {
-            if (message.serverContent?.inputTranscription) {
-              currentInputTransRef.current += message.serverContent.inputTranscription.text;
-            }
-            if (message.serverContent?.outputTranscription) {
-              const text = message.serverContent.outputTranscription.text;
-              currentOutputTransRef.current += text;
-              
-              // Simple heuristic: if the AI mentions danger keywords, trigger a visual alert
-              const dangerKeywords = ['危险', '注意', '警告', '停', 'danger', 'warning', 'stop', 'caution', '紧急警告'];
-              if (dangerKeywords.some(k => text.toLowerCase().includes(k))) {
-                setSafetyAlert(true);
-                setTimeout(() => setSafetyAlert(false), 3000);
-              }
-            }
-
-            if (message.serverContent?.turnComplete) {
-              const userText = currentInputTransRef.current;
-              const assistantText = currentOutputTransRef.current;
-              setTranscriptions(prev => [
-                ...prev,
-                { role: 'user', text: userText },
-                { role: 'assistant', text: assistantText }
-              ].slice(-10));
-              currentInputTransRef.current = '';
-              currentOutputTransRef.current = '';
-            }
-
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData) {
-              const ctx = outputAudioContextRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decodeBase64(audioData), ctx, 24000, 1);
-              const sourceNode = ctx.createBufferSource();
-              sourceNode.buffer = buffer;
-              sourceNode.connect(ctx.destination);
-              sourceNode.addEventListener('ended', () => sourcesRef.current.delete(sourceNode));
-              sourceNode.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(sourceNode);
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (err) => {
-            setError('Connection error. Please try again.');
-            stopAll();
-          },
-          onclose: () => {
-            stopAll();
-          },
-        },
+      // The profile is fixed for the lifetime of a session; edits apply on the next start.
+      const sessionProfile = profile;
+      sessionProfileRef.current = sessionProfile;
+      const sessionInput = inputMode;
+      sessionInputRef.current = sessionInput;
+      setSessionInputMode(sessionInput);
+      resources.add(() => setSessionInputMode(null));
+      const sessionId = `s-${Date.now().toString(36)}`;
+      sessionIdRef.current = sessionId;
+      const speechLang = SPEECH_LANG[sessionProfile.language];
+      const session = new LiveNavigatorSession(transport, {
+        model: sessionProfile.model,
+        config: buildLiveConfig(sessionProfile, liveContext()),
+        reconnect: { maxAttempts: MAX_RECONNECT_ATTEMPTS },
+      });
+      sessionRef.current = session;
+      resources.add(() => {
+        session.stop();
+        session.removeAllListeners();
+        sessionRef.current = null;
       });
 
-      sessionRef.current = await sessionPromise;
+      // Positions the model speaks ("3点钟方向，约2米") get a short tick from that direction.
+      const cueTracker = new SpatialCueTracker();
+      // Camera and mic stay open while reconnecting; capture only starts once.
+      let scheduler: FrameScheduler | null = null;
+      let captureStarted = false;
+      let resuming = false;
+      session.on('status', (sessionStatus) => {
+        if (resourcesRef.current !== resources) return;
+        // A session that gives up (offline at start, out of reconnect attempts) leaves the camera and
+        // pre-filter running, so local alerts carry on; only Stop tears them down.
+        const next = sessionStatus === AppStatus.IDLE ? AppStatus.ERROR : sessionStatus;
+        if (next === AppStatus.ERROR) say(notice(sessionProfile.language, 'statusOffline'), speechLang);
+        setStatus(next);
+        assistRef.current?.publish({ type: 'status', status: next, mode: modeRef.current.mode });
+        if (next !== AppStatus.ACTIVE) return;
+        if (!captureStarted) {
+          captureStarted = true;
+          if (replayer) {
+            startReplay(resources, session, replayer, metrics);
+          } else if (media) {
+            startCapture(resources, session, media.stream, media.inputCtx, metrics, scheduler, sessionInput);
+          }
+          // The route text is in the system instruction already; the photos can only go in a turn.
+          const place = activePlaceRef.current;
+          if (place?.frames.length) session.sendContent(routeActivationParts(place, routeProgressRef.current));
+        }
+        if (resuming) {
+          resuming = false;
+          output.playEarcon([440, 660]);
+          say(notice(sessionProfile.language, 'resumed'), speechLang);
+        }
+      });
+      session.on('reconnecting', ({ attempt }) => {
+        metrics.recordReconnect();
+        // The next connection starts a new transcript, so positions already cued must not mask its own.
+        cueTracker.reset();
+        if (attempt > 1) return;
+        resuming = true;
+        // A turn cannot span connections; the user presses again (or speaks again) once resumed.
+        setSpeaking(false);
+        stopPlayback();
+        output.playEarcon([660, 440]);
+        say(notice(sessionProfile.language, 'reconnecting'), speechLang);
+      });
+      let lastHazardCue = { clockDirection: 0, at: 0 };
+      const cuePositions = (positions: SpatialPosition[]) => {
+        for (const position of positions) {
+          const echoesHazard = position.clockDirection === lastHazardCue.clockDirection
+            && Date.now() - lastHazardCue.at < HAZARD_CUE_SUPPRESS_MS;
+          if (!echoesHazard) playPositionCue(output, position);
+        }
+      };
+      session.on('transcription', ({ role, text }) => {
+        if (role === 'assistant') cuePositions(cueTracker.update(text));
+        assistRef.current?.publish({ type: 'transcript', role, text, final: false });
+      });
+      const announceHazard = (hazard: Hazard) => {
+        metrics.recordHazard();
+        journal.record({
+          kind: 'hazard',
+          role: 'assistant',
+          text: describeHazard(hazard, sessionProfile.language),
+          sessionId,
+          mode: modeRef.current.mode,
+          hazard,
+          thumbnail: saveThumbnailsRef.current && canvasRef.current ? canvasThumbnail(canvasRef.current) ?? undefined : undefined,
+        });
+        setLastHazard(hazard);
+        setHazardHistory(prev => [hazard, ...prev].slice(0, 20));
+        setSafetyAlert(true);
+        assistRef.current?.publish({ type: 'hazard', hazard });
+        // High-severity warnings cut in ahead of narration; the rest play over it, ducked.
+        output.playEarcon(HAZARD_EARCONS[hazard.severity], {
+          noteDuration: 0.09,
+          position: hazard,
+          interrupt: hazard.severity === 'high' ? 'preempt' : 'duck',
+        });
+        lastHazardCue = { clockDirection: hazard.clockDirection, at: Date.now() };
+        vibrate(HAZARD_VIBRATIONS[hazard.severity]);
+        // A newer hazard restarts the alert window instead of being cut short by an older timer.
+        clearAlertRef.current?.();
+        clearAlertRef.current = resources.setTimeout(() => setSafetyAlert(false), 3000);
+      };
+      session.on('hazard', announceHazard);
+      // Local findings alert straight away; the model only gets to speak them when it is reachable.
+      const announceLocalFinding = (finding: LocalFinding) => {
+        const now = Date.now();
+        const hazard: Hazard = {
+          id: `local-${now}-${finding.type}`,
+          type: finding.type,
+          clockDirection: finding.clockDirection,
+          distanceMeters: finding.distanceMeters,
+          severity: finding.severity,
+          timestamp: now,
+          source: 'local',
+        };
+        announceHazard(hazard);
+        if (session.status !== AppStatus.ACTIVE) say(describeHazard(hazard, sessionProfile.language), speechLang);
+      };
+      session.on('turnComplete', ({ userText, assistantText }) => {
+        cuePositions(cueTracker.flush(assistantText));
+        metrics.recordTurnComplete();
+        // Silent turns (e.g. the model speaking unprompted) get no empty user entry.
+        const common = { kind: 'speech' as const, sessionId, mode: modeRef.current.mode };
+        if (userText.trim()) journal.record({ ...common, role: 'user', text: userText.trim() });
+        if (assistantText.trim()) journal.record({ ...common, role: 'assistant', text: assistantText.trim() });
+        if (!session.speaksAudio && assistantText.trim()) say(assistantText.trim(), speechLang);
+        const assist = assistRef.current;
+        if (userText.trim()) assist?.publish({ type: 'transcript', role: 'user', text: userText.trim(), final: true });
+        if (assistantText.trim()) assist?.publish({ type: 'transcript', role: 'assistant', text: assistantText.trim(), final: true });
+      });
+      session.on('audioChunk', ({ data }) => {
+        metrics.recordModelAudio();
+        playAudioChunk(data);
+      });
+      session.on('interrupted', stopPlayback);
+      session.on('toolCall', ({ id, name, args }) => {
+        if (name === SET_MODE_TOOL && isInteractionMode(args.mode)) {
+          const target = typeof args.target === 'string' ? args.target : null;
+          switchMode(args.mode, target, true);
+          session.respondToTool(id, name, { mode: args.mode, target });
+        } else if (name === REPORT_TARGET_TOOL) {
+          const centered = args.found === true && args.centered === true;
+          const clock = Number(args.clock_direction);
+          if (centered && !targetCenteredRef.current) {
+            output.playEarcon([880, 1320], { noteDuration: 0.1 });
+          } else if (args.found === true && !centered && clock >= 1 && clock <= 12) {
+            playPositionCue(output, { clockDirection: clock, distanceMeters: Number(args.distance_meters) || undefined });
+          }
+          targetCenteredRef.current = centered;
+          setTargetCentered(centered);
+          session.respondToTool(id, name, { acknowledged: true });
+        } else if (name === ROUTE_PROGRESS_TOOL) {
+          const place = activePlaceRef.current;
+          const progress = place && parseRouteProgress(args, place);
+          if (!place || !progress) {
+            session.respondToTool(id, name, { error: place ? 'Invalid route step' : 'No active route' });
+            return;
+          }
+          const previous = routeProgressRef.current;
+          updateRouteProgress(progress);
+          session.setConfig(buildLiveConfig(sessionProfile, liveContext()));
+          if (progress.offRoute && !previous?.offRoute) {
+            output.playEarcon([494, 370], { noteDuration: 0.12, interrupt: 'duck' });
+            vibrate([300, 150, 300]);
+          } else if (progress.stepIndex > (previous?.stepIndex ?? 0)) {
+            output.playEarcon(progress.stepIndex === place.route.length ? [523, 659, 784, 1047] : [784], { noteDuration: 0.07 });
+          }
+          const next = place.route[progress.stepIndex];
+          session.respondToTool(id, name, next ? { acknowledged: true, next_step: next } : { acknowledged: true, arrived: true });
+        } else {
+          session.respondToTool(id, name, { error: `Unknown tool ${name}` });
+        }
+      });
+      session.on('error', (err) => {
+        setError(err.message || 'Connection error. Please try again.');
+      });
+
+      if (media) {
+        scheduler = startCamera(
+          resources,
+          resolveFramePolicy(sessionProfile.framePolicy, modeRef.current.mode),
+          sessionProfile.redaction ?? DEFAULT_REDACTION,
+          announceLocalFinding,
+        );
+      }
+      await session.start();
     } catch (err: any) {
       setError(err.message || 'Failed to start. Check permissions.');
-      setStatus(AppStatus.IDLE);
+      if (resourcesRef.current === resources) stopAll();
     }
   };
 
+  // Rebuilt from refs for every config change, so reconnects carry the current mode, input style and route.
+  const liveContext = (): LiveContext => ({
+    mode: modeRef.current.mode,
+    target: modeRef.current.target,
+    inputMode: sessionInputRef.current,
+    route: activePlaceRef.current,
+    routeProgress: routeProgressRef.current,
+  });
+
+  const updateRouteProgress = (progress: RouteProgress | null) => {
+    routeProgressRef.current = progress;
+    setRouteProgress(progress);
+  };
+
+  const startRoute = (placeId: string) => {
+    const place = places.find(p => p.id === placeId);
+    if (!place) return;
+    const sessionProfile = sessionProfileRef.current ?? profile;
+    activePlaceRef.current = place;
+    setActivePlaceId(place.id);
+    updateRouteProgress({ placeId: place.id, stepIndex: 0, offRoute: false });
+    const session = sessionRef.current;
+    if (session) {
+      session.setConfig(buildLiveConfig(sessionProfile, liveContext()));
+      session.sendContent(routeActivationParts(place, routeProgressRef.current));
+      journal.record({
+        kind: 'mode',
+        role: 'system',
+        text: `路线 (Route): ${place.name}`,
+        sessionId: sessionIdRef.current,
+        mode: modeRef.current.mode,
+      });
+    }
+    outputRef.current?.playEarcon([523, 659, 784], { noteDuration: 0.08 });
+  };
+
+  const stopRoute = () => {
+    if (!activePlaceRef.current) return;
+    activePlaceRef.current = null;
+    setActivePlaceId(null);
+    updateRouteProgress(null);
+    const session = sessionRef.current;
+    if (session) {
+      session.setConfig(buildLiveConfig(sessionProfileRef.current ?? profile, liveContext()));
+      session.sendText(ROUTE_END_MESSAGE);
+    }
+  };
+
+  // Shares the camera with caregivers for as long as this session runs.
+  const startAssist = () => {
+    const resources = resourcesRef.current;
+    const output = outputRef.current;
+    const ctx = outputAudioContextRef.current;
+    const canvas = canvasRef.current;
+    if (!resources || !output || !ctx || !canvas || assistRef.current) return;
+    const sessionProfile = sessionProfileRef.current ?? profile;
+    const room = createRoomCode();
+    const assist = new NavigatorAssist(relayUrl(), room);
+    assistRef.current = assist;
+    const camera = devicesRef.current?.videoStream ?? null;
+    const video = assistVideoStream(camera, canvas, sessionProfile.redaction ?? DEFAULT_REDACTION);
+    assistCanvasStreamRef.current = video !== camera ? video : null;
+    assist.setVideoStream(video);
+    const talkbacks: (() => void)[] = [];
+    assist.on('talkStream', (stream) => {
+      // Chrome only delivers remote WebRTC audio to Web Audio while a media element also holds the stream.
+      const sink = new Audio();
+      sink.muted = true;
+      sink.srcObject = stream;
+      const source = ctx.createMediaStreamSource(stream);
+      const disconnect = output.connectTalkback(source);
+      talkbacks.push(() => {
+        disconnect();
+        sink.srcObject = null;
+      });
+    });
+    assist.on('talk', (active) => {
+      output.setTalkback(active);
+      setCaregiverTalking(active);
+      if (active) output.playEarcon([660], { noteDuration: 0.05, volume: 0.3 });
+    });
+    let watching = 0;
+    assist.on('caregivers', (count) => {
+      output.playEarcon(count > watching ? [523, 784] : [784, 523], { noteDuration: 0.06 });
+      watching = count;
+      setCaregivers(count);
+      assist.publish({ type: 'status', status: sessionRef.current?.status ?? AppStatus.IDLE, mode: modeRef.current.mode });
+    });
+    let waiting = 0;
+    assist.on('requests', (requests) => {
+      // Nobody sees the camera until the user lets them in, so a new request is announced.
+      if (requests.length > waiting) say(notice(sessionProfile.language, 'assistRequest'), SPEECH_LANG[sessionProfile.language]);
+      waiting = requests.length;
+      setAssistRequests(requests);
+    });
+    assist.on('error', setError);
+    stopAssistRef.current = resources.add(() => {
+      assistRef.current = null;
+      stopAssistRef.current = null;
+      assist.dispose();
+      assistCanvasStreamRef.current?.getTracks().forEach(t => t.stop());
+      assistCanvasStreamRef.current = null;
+      talkbacks.forEach(fn => fn());
+      output.setTalkback(false);
+      setAssistRoom(null);
+      setCaregivers(0);
+      setAssistRequests([]);
+      setCaregiverTalking(false);
+    });
+    setAssistRoom(room);
+    // Read out digit by digit so the user can pass it on without seeing the screen.
+    say(`${notice(sessionProfile.language, 'assistRoom')} ${room.split('').join(' ')}`, SPEECH_LANG[sessionProfile.language]);
+  };
+
+  const stopAssist = () => stopAssistRef.current?.();
+  const answerAssist = (peerId: string, accept: boolean) => assistRef.current?.answer(peerId, accept);
+
+  // Applies a mode locally and, when the user picked it on screen, tells the model.
+  const switchMode = (next: InteractionMode, target: string | null = null, fromModel = false) => {
+    modeRef.current = { mode: next, target };
+    setMode(next);
+    setFindTarget(target);
+    targetCenteredRef.current = false;
+    setTargetCentered(false);
+
+    const sessionProfile = sessionProfileRef.current ?? profile;
+    schedulerRef.current?.setPolicy(resolveFramePolicy(sessionProfile.framePolicy, next));
+    const session = sessionRef.current;
+    if (session) {
+      session.setConfig(buildLiveConfig(sessionProfile, liveContext()));
+      if (!fromModel) session.sendText(modeSwitchMessage(next, target));
+    }
+
+    if (session) {
+      journal.record({
+        kind: 'mode',
+        role: 'system',
+        text: target ? `${modeLabel(next, sessionProfile.language)}: ${target}` : modeLabel(next, sessionProfile.language),
+        sessionId: sessionIdRef.current,
+        mode: next,
+      });
+      assistRef.current?.publish({ type: 'status', status: session.status, mode: next });
+    }
+
+    outputRef.current?.playEarcon([523, 784], { noteDuration: 0.08 });
+    say(modeLabel(next, sessionProfile.language), SPEECH_LANG[sessionProfile.language]);
+  };
+
+  const loadReplay = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const bundle = JSON.parse(await file.text());
+      if (!isSessionBundle(bundle)) throw new Error('Not an OpenClaw session bundle');
+      setReplayBundle(bundle);
+      setError(null);
+    } catch (err: any) {
+      setError(`Replay failed to load: ${err.message}`);
+    }
+  };
+
+  const exportMetrics = () => {
+    if (!metricsRef.current) return;
+    downloadJson(`openclaw-metrics-${Date.now()}.json`, metricsRef.current.export());
+  };
+
+  const formatMs = (ms: number | null | undefined) => (ms == null ? '--' : `${Math.round(ms)}ms`);
+
+  const repeatHazards = () => {
+    if (hazardHistory.length === 0) {
+      say(notice(profile.language, 'noHazards'), SPEECH_LANG[profile.language]);
+      return;
+    }
+    const separator = profile.language === 'en-US' ? '. ' : '。';
+    say(hazardHistory.slice(0, 3).map(h => describeHazard(h, profile.language)).join(separator), SPEECH_LANG[profile.language]);
+  };
+
+  useEffect(() => {
+    saveProfiles(profileState);
+  }, [profileState]);
+
+  useEffect(() => {
+    localStorage.setItem(THUMBNAILS_KEY, String(saveThumbnails));
+  }, [saveThumbnails]);
+
+  useEffect(() => {
+    saveInputMode(inputMode);
+  }, [inputMode]);
+
+  useEffect(() => {
+    try {
+      savePlaces(places);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    // An edited route takes effect on the next connect; the model keeps what it was told until then.
+    const active = places.find(p => p.id === activePlaceRef.current?.id);
+    if (!activePlaceRef.current || !active || active === activePlaceRef.current) return;
+    activePlaceRef.current = active;
+    sessionRef.current?.setConfig(buildLiveConfig(sessionProfileRef.current ?? profile, liveContext()));
+  }, [places]);
+
+  useEffect(() => {
+    cameraPrefsRef.current = cameraPrefs;
+    saveCameraPreferences(cameraPrefs);
+  }, [cameraPrefs]);
+
+  useEffect(() => {
+    spatialSettingsRef.current = spatialSettings;
+    outputRef.current?.setSpatial(spatialSettings);
+    previewAudioRef.current?.output.setSpatial(spatialSettings);
+    saveSpatialSettings(spatialSettings);
+  }, [spatialSettings]);
+
+  useEffect(() => {
+    outputSettingsRef.current = outputSettings;
+    outputRef.current?.setVolume(outputSettings.volume);
+    outputRef.current?.setRate(outputSettings.rate);
+    localStorage.setItem(OUTPUT_SETTINGS_KEY, JSON.stringify(outputSettings));
+  }, [outputSettings]);
+
+  // Refreshed every render so the listeners below always see current state.
+  shortcutRef.current = (action: ShortcutAction) => {
+    switch (action.type) {
+      case 'toggleSession':
+        if (status === AppStatus.IDLE) startSession();
+        else if (status !== AppStatus.CONNECTING) stopAll();
+        break;
+      case 'setMode':
+        switchMode(action.mode);
+        break;
+      case 'cycleMode':
+        switchMode(cycleMode(mode, action.step));
+        break;
+      case 'repeatHazards':
+        repeatHazards();
+        break;
+      case 'togglePause':
+        togglePause();
+        break;
+      case 'talk':
+        talk(action.pressed);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (showSettings || showSpatial || showPlaces || e.repeat) return;
+      const action = resolveShortcut(e, isTypingTarget(e.target));
+      if (!action) return;
+      e.preventDefault();
+      shortcutRef.current(action);
+    };
+    // Push-to-talk is the one shortcut that is held; its release arrives as a keyup.
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.key.toUpperCase() === SHORTCUT_KEYS.talk) shortcutRef.current({ type: 'talk', pressed: false });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    const unbindMedia = bindMediaSession(action => shortcutRef.current(action));
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      unbindMedia();
+    };
+  }, [showSettings, showSpatial, showPlaces]);
+
+  // The start and stop buttons swap on every status change; keep focus on whichever is shown.
+  useEffect(() => {
+    if (!showSettings && !showSpatial && !showPlaces && (document.activeElement === document.body || document.activeElement === null)) {
+      mainButtonRef.current?.focus();
+    }
+  }, [status, showSettings, showSpatial, showPlaces]);
+
   useEffect(() => {
     return () => stopAll();
   }, [stopAll]);
 
+  // The running session keeps the policy it started with; the HUD shows that one, not the edited profile.
+  const sessionRedaction = (sessionProfileRef.current ?? profile).redaction ?? DEFAULT_REDACTION;
+  const activePlace = places.find(p => p.id === activePlaceId) ?? null;
+  const routeStep = activePlace && routeProgress ? activePlace.route[routeProgress.stepIndex] : undefined;
+
   return (
     <div className="flex flex-col h-screen bg-black text-white font-sans overflow-hidden">
+      {/* Screen reader announcements */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {statusNotice(profile.language, status)}
+        {status !== AppStatus.IDLE && ` · ${modeLabel(mode, profile.language)}`}
+      </div>
+      <div className="sr-only" role="alert" aria-atomic="true">
+        {safetyAlert && lastHazard ? describeHazard(lastHazard, profile.language) : ''}
+      </div>
       {/* Header */}
       <header className="p-4 bg-zinc-900 border-b border-zinc-800 flex justify-between items-center shrink-0 z-20">
         <div className="flex items-center gap-3">
-          <div className={`w-3 h-3 rounded-full ${status === AppStatus.ACTIVE ? 'bg-red-600 animate-pulse shadow-[0_0_10px_rgba(220,38,38,0.8)]' : 'bg-zinc-700'}`} />
+          <div aria-hidden="true" className={`w-3 h-3 rounded-full ${status === AppStatus.ACTIVE ? 'bg-red-600 animate-pulse shadow-[0_0_10px_rgba(220,38,38,0.8)]' : status === AppStatus.RECONNECTING ? 'bg-amber-500 animate-pulse' : 'bg-zinc-700'}`} />
           <h1 className="text-xl font-black tracking-tighter uppercase italic">OpenClaw <span className="text-zinc-500 font-normal not-italic">Vision</span></h1>
         </div>
         <div className="flex items-center gap-4">
           <div className="hidden sm:flex items-center gap-2 px-3 py-1 bg-zinc-800 rounded-full border border-zinc-700">
             <span className="text-[10px] font-bold text-zinc-500 uppercase">Latency</span>
-            <span className="text-[10px] font-mono text-green-500">OPTIMIZED</span>
-          </div>
-          <div className="text-xs uppercase tracking-widest text-zinc-400 font-bold border-l border-zinc-700 pl-4">
-            NAV-01
+            <span className={`text-[10px] font-mono ${metrics?.avgResponseLatencyMs == null ? 'text-zinc-500' : metrics.avgResponseLatencyMs < 1500 ? 'text-green-500' : 'text-amber-500'}`}>
+              {formatMs(metrics?.avgResponseLatencyMs)}
+            </span>
           </div>
+          <button
+            onClick={() => setRecording(r => !r)}
+            disabled={status !== AppStatus.IDLE}
+            aria-pressed={recording}
+            title="Record the next session to a replay bundle"
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase border disabled:opacity-40 ${
+              recording ? 'bg-red-600 text-white border-red-500' : 'bg-zinc-800 text-zinc-400 border-zinc-700'
+            }`}
+          >
+            ● REC
+          </button>
+          {replayBundle ? (
+            <button
+              onClick={() => setReplayBundle(null)}
+              disabled={status !== AppStatus.IDLE}
+              aria-label="Leave replay mode"
+              className="px-3 py-1 rounded-full text-[10px] font-black uppercase border bg-amber-500 text-black border-amber-400 disabled:opacity-40"
+            >
+              Replay · {replayBundle.events.length} ✕
+            </button>
+          ) : (
+            <label className={`px-3 py-1 rounded-full text-[10px] font-black uppercase border bg-zinc-800 text-zinc-400 border-zinc-700 cursor-pointer ${status !== AppStatus.IDLE ? 'opacity-40 pointer-events-none' : ''}`}>
+              Replay
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="sr-only"
+                disabled={status !== AppStatus.IDLE}
+                onChange={(e) => {
+                  loadReplay(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+          <button
+            onClick={() => setShowPlaces(true)}
+            aria-label={activePlace ? `Places, route to ${activePlace.name} active` : 'Places and routes'}
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase border ${
+              activePlace ? 'bg-white text-black border-white' : 'bg-zinc-800 text-zinc-300 border-zinc-700'
+            }`}
+          >
+            📍 {activePlace ? activePlace.name : 'Places'}
+          </button>
+          <button
+            onClick={() => setShowSpatial(true)}
+            aria-label="Spatial audio calibration"
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase border ${
+              spatialSettings.enabled ? 'bg-zinc-800 text-zinc-300 border-zinc-700' : 'bg-zinc-900 text-zinc-600 border-zinc-800'
+            }`}
+          >
+            {spatialSettings.output === 'headphones' ? '🎧 3D' : '🔈 Stereo'}
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            aria-label={`Settings, profile ${profile.name}`}
+            className="text-xs uppercase tracking-widest text-zinc-400 font-bold border-l border-zinc-700 pl-4 hover:text-white"
+          >
+            {profile.name} ⚙
+          </button>
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          state={profileState}
+          sessionActive={status !== AppStatus.IDLE}
+          onChange={setProfileState}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showPlaces && (
+        <PlacesPanel
+          places={places}
+          activePlaceId={activePlaceId}
+          progress={routeProgress}
+          canCapture={status === AppStatus.ACTIVE}
+          onChange={setPlaces}
+          onCaptureFrame={() => (canvasRef.current ? canvasThumbnail(canvasRef.current) : null)}
+          onStartRoute={startRoute}
+          onStopRoute={stopRoute}
+          onClose={() => setShowPlaces(false)}
+        />
+      )}
+
+      {showSpatial && (
+        <SpatialCalibration
+          settings={spatialSettings}
+          onChange={setSpatialSettings}
+          onPreview={previewPosition}
+          onClose={closeSpatial}
+        />
+      )}
+
+      {/* Footer Controls: first in DOM so screen readers and Tab reach them before the camera view */}
+      <footer id="controls" aria-label="Navigation controls" className="order-last p-6 bg-zinc-900 border-t border-zinc-800 shrink-0 z-20">
+        <div className="max-w-5xl mx-auto flex flex-col md:flex-row gap-6 items-center">
+          
+          <div className="flex-1 w-full relative">
+            {error && (
+              <div role="alert" className="absolute bottom-full left-0 right-0 mb-4 p-4 bg-red-600 text-white font-bold rounded-xl text-sm flex items-center gap-3 shadow-2xl animate-bounce">
+                <svg aria-hidden="true" className="w-5 h-5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                {error}
+              </div>
+            )}
+            
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 w-full mb-4" role="group" aria-label="Interaction mode">
+              {INTERACTION_MODES.map((m, i) => (
+                <button
+                  key={m}
+                  onClick={() => switchMode(m)}
+                  aria-pressed={mode === m}
+                  aria-keyshortcuts={SHORTCUT_KEYS.modes[i]}
+                  className={`high-contrast-btn py-4 rounded-2xl font-black text-lg border-2 transition-all ${
+                    mode === m ? 'bg-white text-black border-white' : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                  }`}
+                >
+                  {modeLabel(m, profile.language)}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex gap-4 w-full">
+              {status === AppStatus.IDLE || status === AppStatus.CONNECTING ? (
+                <button
+                  ref={mainButtonRef}
+                  onClick={startSession}
+                  disabled={status === AppStatus.CONNECTING}
+                  aria-keyshortcuts={SHORTCUT_KEYS.toggleSession}
+                  className="flex-1 high-contrast-btn bg-white text-black font-black text-2xl py-8 px-10 rounded-3xl flex items-center justify-center gap-6 hover:bg-zinc-200 shadow-[0_10px_40px_rgba(255,255,255,0.2)] disabled:opacity-50 transition-all active:scale-95"
+                >
+                  {status === AppStatus.CONNECTING ? (
+                    <div className="flex items-center gap-3">
+                      <div className="w-6 h-6 border-4 border-black border-t-transparent rounded-full animate-spin" />
+                      <span>CONNECTING...</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="w-4 h-4 rounded-full bg-red-600 animate-pulse" />
+                      <span>启动导航 (ACTIVATE)</span>
+                    </>
+                  )}
+                </button>
+              ) : (
+                <button
+                  ref={mainButtonRef}
+                  onClick={stopAll}
+                  aria-keyshortcuts={SHORTCUT_KEYS.toggleSession}
+                  className="flex-1 high-contrast-btn bg-red-600 text-white font-black text-2xl py-8 px-10 rounded-3xl flex items-center justify-center gap-6 hover:bg-red-700 shadow-[0_10px_40px_rgba(220,38,38,0.3)] transition-all active:scale-95"
+                >
+                   <svg aria-hidden="true" className="w-10 h-10" fill="currentColor" viewBox="0 0 20 20">
+                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+                   </svg>
+                  <span>停止辅助 (STOP)</span>
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="shrink-0 flex flex-col items-end gap-2">
+            <div className={`px-5 py-2 rounded-full text-[10px] font-black border transition-all duration-500 uppercase tracking-widest ${
+              status === AppStatus.ACTIVE ? 'bg-white text-black border-white scale-110'
+                : status === AppStatus.RECONNECTING ? 'bg-amber-500 text-black border-amber-400'
+                : 'bg-zinc-800 text-zinc-500 border-zinc-700'
+            }`}>
+              SYSTEM: {status}
+            </div>
+            <div className="px-5 py-2 rounded-full text-[10px] font-black bg-zinc-800 text-zinc-400 border border-zinc-700 uppercase tracking-widest">
+              Audio: PCM-16k / Int16
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-center gap-8 border-t border-zinc-800 pt-6 opacity-40">
+           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">Spatial Mapping: Enabled</div>
+           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">Object ID: Active</div>
+           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">Context Logic: 2.5 Pro</div>
+           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">
+             Keys: {SHORTCUT_KEYS.toggleSession} Start/Stop · {SHORTCUT_KEYS.modes.join('/')} Mode · {SHORTCUT_KEYS.cycleMode} Next · {SHORTCUT_KEYS.repeatHazards} Repeat · {SHORTCUT_KEYS.togglePause} Pause voice · Hold {SHORTCUT_KEYS.talk} Talk
+           </div>
+        </div>
+      </footer>
+
       {/* Main View */}
       <main className="flex-1 relative flex flex-col md:flex-row overflow-hidden">
         
@@ -237,16 +1165,25 @@ const App: React.FC = () => {
         <div className={`flex-1 bg-zinc-950 relative overflow-hidden flex items-center justify-center transition-all duration-300 ${safetyAlert ? 'ring-inset ring-[20px] ring-red-600' : ''}`}>
           <video
             ref={videoRef}
+            aria-hidden="true"
             autoPlay
             playsInline
             muted
             className={`w-full h-full object-cover transition-opacity duration-700 ${status === AppStatus.ACTIVE ? 'opacity-100' : 'opacity-20 grayscale'}`}
           />
+          {replayFrame && (
+            <img
+              src={`data:image/jpeg;base64,${replayFrame}`}
+              alt=""
+              aria-hidden="true"
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+          )}
           <canvas ref={canvasRef} className="hidden" />
           
           {/* HUD Layer */}
           {status === AppStatus.ACTIVE && (
-            <div className="absolute inset-0 pointer-events-none p-6">
+            <div className="absolute inset-0 pointer-events-none p-6" aria-hidden="true">
               {/* Top Left: Analysis HUD */}
               <div className="absolute top-6 left-6 space-y-2">
                 <div className="p-4 bg-black/70 backdrop-blur-xl rounded-xl border border-white/10 max-w-xs shadow-2xl">
@@ -255,6 +1192,16 @@ const App: React.FC = () => {
                     <div className="w-2 h-2 rounded-full bg-green-500 animate-ping" />
                     <span className="text-sm font-bold tracking-tight">扫描中... (Scanning)</span>
                   </div>
+                  <div className="mb-3 flex items-center gap-2">
+                    <span className="px-2 py-0.5 rounded bg-white text-black text-[10px] font-black uppercase">
+                      MODE: {modeLabel(mode, profile.language)}
+                    </span>
+                    {mode === 'find' && (
+                      <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${targetCentered ? 'bg-green-500 text-black' : 'bg-zinc-800 text-zinc-400'}`}>
+                        {findTarget ?? '?'} · {targetCentered ? 'CENTERED' : 'SEARCHING'}
+                      </span>
+                    )}
+                  </div>
                   <div className="space-y-1">
                      <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
                        <div className="h-full bg-white/40 w-2/3 animate-[shimmer_2s_infinite]" />
@@ -275,7 +1222,43 @@ const App: React.FC = () => {
                      </svg>
                      <span className="text-sm font-black italic">{safetyAlert ? '检测到潜在危险 (DANGER)' : '当前路径安全 (SECURE)'}</span>
                    </div>
+                   {safetyAlert && lastHazard && (
+                     <p className="mt-2 text-xs font-bold">{describeHazard(lastHazard, profile.language)}</p>
+                   )}
+                </div>
+
+                {/* Privacy HUD */}
+                <div className={`px-4 py-2 rounded-xl border text-[10px] font-black uppercase tracking-tighter ${
+                  sessionRedaction === 'off' ? 'bg-amber-500/90 text-black border-amber-300' : 'bg-black/70 backdrop-blur-xl border-white/10'
+                }`}>
+                  {sessionRedaction === 'off'
+                    ? '未遮挡 (Redaction off)'
+                    : `🛡 ${REDACTION_LABELS[sessionRedaction]} · ${redactedRegions} 处已遮挡 (hidden)`}
                 </div>
+
+                {/* Route HUD */}
+                {activePlace && routeProgress && (
+                  <div className={`p-4 rounded-xl border max-w-xs ${
+                    routeProgress.offRoute ? 'bg-amber-500/90 text-black border-amber-300' : 'bg-black/70 backdrop-blur-xl border-white/10'
+                  }`}>
+                    <p className="text-[10px] mb-1 font-black uppercase tracking-tighter opacity-60">
+                      Route · {activePlace.name}
+                      {activePlace.route.length > 0 && ` · ${Math.min(routeProgress.stepIndex + 1, activePlace.route.length)}/${activePlace.route.length}`}
+                    </p>
+                    <p className="text-sm font-black">
+                      {routeProgress.offRoute
+                        ? '偏离路线 (Off route)'
+                        : routeStep
+                          ? routeStep.instruction
+                          : activePlace.route.length
+                            ? '已到达 (Arrived)'
+                            : '寻找目的地地标 (Looking for landmarks)'}
+                    </p>
+                    {!routeProgress.offRoute && routeStep?.landmark && (
+                      <p className="mt-1 text-xs opacity-70">地标 (Landmark): {routeStep.landmark}</p>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Center Crosshair */}
@@ -290,8 +1273,14 @@ const App: React.FC = () => {
               {/* Bottom Left: Coordinates/Status */}
               <div className="absolute bottom-6 left-6 font-mono text-[10px] text-white/50 space-y-1">
                 <div className="flex gap-2">
-                  <span className="bg-white/10 px-1 rounded">FRM: 2.0/s</span>
-                  <span className="bg-white/10 px-1 rounded">LAT: ~140ms</span>
+                  <span className="bg-white/10 px-1 rounded">FRM: {(metrics?.framesPerSecond ?? 0).toFixed(1)}/s</span>
+                  <span className="bg-white/10 px-1 rounded">UP: {((metrics?.uploadBytesPerSecond ?? 0) / 1024).toFixed(1)}KB/s</span>
+                  <span className="bg-white/10 px-1 rounded">LAT: {formatMs(metrics?.responseLatencyMs)} · P95 {formatMs(metrics?.p95ResponseLatencyMs)}</span>
+                </div>
+                <div className="flex gap-2">
+                  <span className="bg-white/10 px-1 rounded">HZD: {formatMs(metrics?.hazardLatencyMs)} · P95 {formatMs(metrics?.p95HazardLatencyMs)}</span>
+                  <span className="bg-white/10 px-1 rounded">QUEUE: {formatMs(metrics?.playbackQueueMs)}</span>
+                  <span className="bg-white/10 px-1 rounded">RECONN: {metrics?.reconnects ?? 0}</span>
                 </div>
                 <p>OPENCLAW DIGITAL NAV-SYSTEM v1.0.4</p>
               </div>
@@ -300,9 +1289,35 @@ const App: React.FC = () => {
 
           {/* Alert Overlay */}
           {safetyAlert && (
-            <div className="absolute inset-0 bg-red-600/20 animate-pulse pointer-events-none flex items-center justify-center">
+            <div className="absolute inset-0 bg-red-600/20 animate-pulse pointer-events-none flex items-center justify-center" aria-hidden="true">
               <div className="bg-red-600 text-white px-8 py-4 rounded-full font-black text-4xl shadow-[0_0_50px_rgba(220,38,38,0.5)] transform scale-110">
-                警告 (WARNING)
+                警告 (WARNING){lastHazard && ` · ${HAZARD_LABELS[lastHazard.type]}`}
+                {lastHazard?.source === 'local' && (
+                  <span className="block text-center text-xs tracking-widest uppercase opacity-80">本机检测 (On-device)</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {status === AppStatus.RECONNECTING && (
+            <div className="absolute inset-x-0 top-6 flex justify-center pointer-events-none" aria-hidden="true">
+              <div className="bg-amber-500 text-black px-6 py-3 rounded-full font-black text-lg flex items-center gap-3 shadow-2xl">
+                <div className="w-4 h-4 border-4 border-black border-t-transparent rounded-full animate-spin" />
+                导航暂停，正在重连 (RECONNECTING)
+              </div>
+            </div>
+          )}
+
+          {status === AppStatus.ERROR && (
+            <div className="absolute inset-x-0 top-6 flex justify-center">
+              <div className="bg-zinc-900 text-white border border-zinc-700 px-6 py-3 rounded-full font-black text-lg flex items-center gap-4 shadow-2xl">
+                <span>离线，本机检测仍在运行 (OFFLINE · ON-DEVICE ALERTS)</span>
+                <button
+                  onClick={retryConnection}
+                  className="px-4 py-1 rounded-full bg-white text-black text-sm uppercase hover:bg-zinc-200"
+                >
+                  重试 (Retry)
+                </button>
               </div>
             </div>
           )}
@@ -334,121 +1349,106 @@ const App: React.FC = () => {
             <span className="text-[10px] font-mono text-zinc-600">RT-CHART</span>
           </div>
           
-          <div className="flex-1 overflow-y-auto p-5 space-y-6">
-            {transcriptions.length === 0 && (
-              <div className="h-full flex flex-col items-center justify-center opacity-20 grayscale py-12">
-                 <svg className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
-                 </svg>
-                 <p className="text-xs font-bold uppercase tracking-widest text-center">Waiting for voice input...</p>
-              </div>
+          <JournalPanel journal={journal} saveThumbnails={saveThumbnails} onSaveThumbnailsChange={setSaveThumbnails} />
+
+          {/* Hazard History */}
+          <div className="p-4 border-t border-zinc-800">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[9px] font-black text-zinc-600 uppercase">Hazard History</span>
+              <button
+                onClick={repeatHazards}
+                aria-keyshortcuts={SHORTCUT_KEYS.repeatHazards}
+                className="text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-zinc-800 text-zinc-300 border border-zinc-700 hover:bg-zinc-700"
+              >
+                重复提示 (REPEAT)
+              </button>
+            </div>
+            {hazardHistory.length === 0 ? (
+              <p className="text-[10px] font-mono text-zinc-600">NO HAZARDS REPORTED</p>
+            ) : (
+              <ul className="space-y-1">
+                {hazardHistory.slice(0, 3).map(h => (
+                  <li key={h.id} className={`text-xs font-bold ${h.severity === 'high' ? 'text-red-500' : 'text-zinc-300'}`}>
+                    <span className="font-mono text-zinc-600 mr-2">{new Date(h.timestamp).toLocaleTimeString()}</span>
+                    {describeHazard(h, profile.language)}
+                  </li>
+                ))}
+              </ul>
             )}
-            {transcriptions.map((t, i) => (
-              <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start animate-[fadeIn_0.3s_ease-out]'}`}>
-                <div className={`flex items-center gap-2 mb-2 ${t.role === 'user' ? 'flex-row-reverse' : ''}`}>
-                  <div className={`w-1.5 h-1.5 rounded-full ${t.role === 'user' ? 'bg-zinc-500' : 'bg-white'}`} />
-                  <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">
-                    {t.role === 'user' ? 'User' : 'Claw'}
-                  </span>
-                </div>
-                <div className={`p-4 rounded-2xl max-w-[95%] text-base font-medium shadow-xl border ${
-                  t.role === 'user' 
-                    ? 'bg-zinc-800 text-zinc-100 rounded-tr-none border-zinc-700' 
-                    : 'bg-white text-black rounded-tl-none border-white'
-                }`}>
-                  {t.text || "..."}
-                </div>
-              </div>
-            ))}
           </div>
 
+          <CameraControls
+            cameras={cameras}
+            preferences={cameraPrefs}
+            torchOn={torchOn}
+            torchSupported={torchSupported}
+            onSelectCamera={selectCamera}
+            onResolutionChange={changeResolution}
+            onToggleTorch={toggleTorch}
+          />
+
+          <InputControls
+            mode={inputMode}
+            sessionMode={sessionInputMode}
+            talking={talking}
+            canSend={status === AppStatus.ACTIVE}
+            onModeChange={setInputMode}
+            onTalk={talk}
+            onSendText={sendTypedQuestion}
+          />
+
+          <RemoteAssistControls
+            room={assistRoom}
+            caregivers={caregivers}
+            requests={assistRequests}
+            caregiverTalking={caregiverTalking}
+            canStart={status === AppStatus.ACTIVE && !replayBundle}
+            onStart={startAssist}
+            onStop={stopAssist}
+            onAnswer={answerAssist}
+          />
+
+          <AudioControls
+            settings={outputSettings}
+            paused={outputPaused}
+            canPause={status === AppStatus.ACTIVE || status === AppStatus.RECONNECTING}
+            onChange={setOutputSettings}
+            onTogglePause={togglePause}
+          />
+
           {/* Visual Waveform Section */}
           <div className="p-4 bg-black/40 border-t border-zinc-800">
             <div className="flex items-center justify-between mb-2">
               <span className="text-[9px] font-black text-zinc-600 uppercase">Audio Stream</span>
-              <span className="text-[9px] font-mono text-white/40 italic">Sampling...</span>
+              <button
+                onClick={exportMetrics}
+                disabled={!metrics}
+                className="text-[9px] font-mono text-white/40 uppercase hover:text-white disabled:opacity-30"
+              >
+                Export Metrics
+              </button>
             </div>
             <div className="h-10 flex items-center justify-center gap-[2px] overflow-hidden">
-               {[...Array(40)].map((_, i) => (
-                 <div 
-                   key={i} 
-                   className={`w-[3px] rounded-full transition-all duration-200 ${status === AppStatus.ACTIVE ? 'bg-white' : 'bg-zinc-800'}`}
-                   style={{ 
-                     height: status === AppStatus.ACTIVE ? `${Math.random() * 90 + 10}%` : '10%',
-                     opacity: status === AppStatus.ACTIVE ? 0.4 + (Math.random() * 0.6) : 0.2
-                   }} 
-                 />
-               ))}
+               {[...Array(40)].map((_, i) => {
+                 // Right-aligned so the newest level is always the last bar.
+                 const level = levels[levels.length - 40 + i] ?? 0;
+                 const scaled = Math.min(1, Math.sqrt(level) * 1.8);
+                 return (
+                   <div
+                     key={i}
+                     className={`w-[3px] rounded-full transition-all duration-200 ${status === AppStatus.ACTIVE ? 'bg-white' : 'bg-zinc-800'}`}
+                     style={{
+                       height: status === AppStatus.ACTIVE ? `${10 + scaled * 90}%` : '10%',
+                       opacity: status === AppStatus.ACTIVE ? 0.4 + scaled * 0.6 : 0.2
+                     }}
+                   />
+                 );
+               })}
             </div>
           </div>
         </aside>
       </main>
 
-      {/* Footer Controls */}
-      <footer className="p-6 bg-zinc-900 border-t border-zinc-800 shrink-0 z-20">
-        <div className="max-w-5xl mx-auto flex flex-col md:flex-row gap-6 items-center">
-          
-          <div className="flex-1 w-full relative">
-            {error && (
-              <div className="absolute bottom-full left-0 right-0 mb-4 p-4 bg-red-600 text-white font-bold rounded-xl text-sm flex items-center gap-3 shadow-2xl animate-bounce">
-                <svg className="w-5 h-5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                {error}
-              </div>
-            )}
-            
-            <div className="flex gap-4 w-full">
-              {status === AppStatus.IDLE || status === AppStatus.CONNECTING ? (
-                <button
-                  onClick={startSession}
-                  disabled={status === AppStatus.CONNECTING}
-                  className="flex-1 high-contrast-btn bg-white text-black font-black text-2xl py-8 px-10 rounded-3xl flex items-center justify-center gap-6 hover:bg-zinc-200 shadow-[0_10px_40px_rgba(255,255,255,0.2)] disabled:opacity-50 transition-all active:scale-95"
-                >
-                  {status === AppStatus.CONNECTING ? (
-                    <div className="flex items-center gap-3">
-                      <div className="w-6 h-6 border-4 border-black border-t-transparent rounded-full animate-spin" />
-                      <span>CONNECTING...</span>
-                    </div>
-                  ) : (
-                    <>
-                      <div className="w-4 h-4 rounded-full bg-red-600 animate-pulse" />
-                      <span>启动导航 (ACTIVATE)</span>
-                    </>
-                  )}
-                </button>
-              ) : (
-                <button
-                  onClick={stopAll}
-                  className="flex-1 high-contrast-btn bg-red-600 text-white font-black text-2xl py-8 px-10 rounded-3xl flex items-center justify-center gap-6 hover:bg-red-700 shadow-[0_10px_40px_rgba(220,38,38,0.3)] transition-all active:scale-95"
-                >
-                   <svg className="w-10 h-10" fill="currentColor" viewBox="0 0 20 20">
-                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
-                   </svg>
-                  <span>停止辅助 (STOP)</span>
-                </button>
-              )}
-            </div>
-          </div>
-
-          <div className="shrink-0 flex flex-col items-end gap-2">
-            <div className={`px-5 py-2 rounded-full text-[10px] font-black border transition-all duration-500 uppercase tracking-widest ${
-              status === AppStatus.ACTIVE ? 'bg-white text-black border-white scale-110' : 'bg-zinc-800 text-zinc-500 border-zinc-700'
-            }`}>
-              SYSTEM: {status}
-            </div>
-            <div className="px-5 py-2 rounded-full text-[10px] font-black bg-zinc-800 text-zinc-400 border border-zinc-700 uppercase tracking-widest">
-              Audio: PCM-16k / Int16
-            </div>
-          </div>
-        </div>
-
-        <div className="mt-6 flex justify-center gap-8 border-t border-zinc-800 pt-6 opacity-40">
-           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">Spatial Mapping: Enabled</div>
-           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">Object ID: Active</div>
-           <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-tighter">Context Logic: 2.5 Pro</div>
-        </div>
-      </footer>
       
       <style>{`
         @keyframes shimmer {
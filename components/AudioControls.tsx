@@ -0,0 +1,60 @@
+import React from 'react';
+import { MAX_SPEECH_RATE, MIN_SPEECH_RATE, OutputSettings } from '../services/AudioOutputEngine';
+import { SHORTCUT_KEYS } from '../services/shortcuts';
+
+interface AudioControlsProps {
+  settings: OutputSettings;
+  paused: boolean;
+  canPause: boolean;
+  onChange: (settings: OutputSettings) => void;
+  onTogglePause: () => void;
+}
+
+const AudioControls: React.FC<AudioControlsProps> = ({ settings, paused, canPause, onChange, onTogglePause }) => (
+  <div className="p-4 border-t border-zinc-800 space-y-3">
+    <div className="flex items-center justify-between">
+      <span className="text-[9px] font-black text-zinc-600 uppercase">Voice Output</span>
+      <button
+        onClick={onTogglePause}
+        disabled={!canPause}
+        aria-pressed={paused}
+        aria-keyshortcuts={SHORTCUT_KEYS.togglePause}
+        className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full border disabled:opacity-30 ${
+          paused ? 'bg-amber-500 text-black border-amber-400' : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+        }`}
+      >
+        {paused ? '继续 (RESUME)' : '暂停 (PAUSE)'}
+      </button>
+    </div>
+    <label className="flex items-center gap-3 text-[10px] font-black text-zinc-500 uppercase">
+      <span className="w-14">Rate</span>
+      <input
+        type="range"
+        min={MIN_SPEECH_RATE}
+        max={MAX_SPEECH_RATE}
+        step={0.05}
+        value={settings.rate}
+        onChange={(e) => onChange({ ...settings, rate: Number(e.target.value) })}
+        aria-valuetext={`${settings.rate.toFixed(2)}x`}
+        className="flex-1 accent-white"
+      />
+      <span className="w-10 text-right font-mono text-zinc-400">{settings.rate.toFixed(2)}x</span>
+    </label>
+    <label className="flex items-center gap-3 text-[10px] font-black text-zinc-500 uppercase">
+      <span className="w-14">Volume</span>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={settings.volume}
+        onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) })}
+        aria-valuetext={`${Math.round(settings.volume * 100)}%`}
+        className="flex-1 accent-white"
+      />
+      <span className="w-10 text-right font-mono text-zinc-400">{Math.round(settings.volume * 100)}%</span>
+    </label>
+  </div>
+);
+
+export default AudioControls;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { CameraInfo, CameraPreferences, CameraResolution, RESOLUTIONS } from '../services/MediaDeviceManager';
+
+interface CameraControlsProps {
+  cameras: CameraInfo[];
+  preferences: CameraPreferences;
+  torchOn: boolean;
+  torchSupported: boolean;
+  onSelectCamera: (deviceId: string | null) => void;
+  onResolutionChange: (resolution: CameraResolution) => void;
+  onToggleTorch: () => void;
+}
+
+const FACING_LABELS: Record<CameraInfo['facing'], string> = {
+  environment: '后置 (Rear)',
+  user: '前置 (Front)',
+  unknown: '',
+};
+
+const controlClass = 'flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs font-medium text-white';
+
+const CameraControls: React.FC<CameraControlsProps> = ({
+  cameras,
+  preferences,
+  torchOn,
+  torchSupported,
+  onSelectCamera,
+  onResolutionChange,
+  onToggleTorch,
+}) => (
+  <div className="p-4 border-t border-zinc-800 space-y-3">
+    <div className="flex items-center justify-between">
+      <span className="text-[9px] font-black text-zinc-600 uppercase">Camera</span>
+      <button
+        onClick={onToggleTorch}
+        disabled={!torchSupported}
+        aria-pressed={torchOn}
+        title={torchSupported ? undefined : 'This camera has no flashlight'}
+        className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full border disabled:opacity-30 ${
+          torchOn ? 'bg-yellow-300 text-black border-yellow-200' : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+        }`}
+      >
+        手电筒 (Torch)
+      </button>
+    </div>
+    <label className="flex items-center gap-3 text-[10px] font-black text-zinc-500 uppercase">
+      <span className="w-14">Lens</span>
+      <select
+        className={controlClass}
+        value={preferences.deviceId ?? ''}
+        onChange={(e) => onSelectCamera(e.target.value || null)}
+      >
+        <option value="">自动后置 (Auto · rear)</option>
+        {cameras.map(c => (
+          <option key={c.deviceId} value={c.deviceId}>
+            {c.label}{FACING_LABELS[c.facing] && ` · ${FACING_LABELS[c.facing]}`}
+          </option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center gap-3 text-[10px] font-black text-zinc-500 uppercase">
+      <span className="w-14">Quality</span>
+      <select
+        className={controlClass}
+        value={preferences.resolution}
+        onChange={(e) => onResolutionChange(e.target.value as CameraResolution)}
+      >
+        {(Object.keys(RESOLUTIONS) as CameraResolution[]).map(r => (
+          <option key={r} value={r}>{RESOLUTIONS[r].label}</option>
+        ))}
+      </select>
+    </label>
+  </div>
+);
+
+export default CameraControls;
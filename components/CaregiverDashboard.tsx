@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Hazard } from '../types';
+import { CaregiverAssist } from '../services/remoteAssist';
+import { ROOM_CODE_PATTERN, relayUrl } from '../services/assistProtocol';
+import { describeHazard } from '../services/hazards';
+
+interface TranscriptLine {
+  id: number;
+  role: 'user' | 'assistant';
+  text: string;
+  final: boolean;
+}
+
+const MAX_LINES = 200;
+
+type Phase = 'joining' | 'pending' | 'watching' | 'ended';
+
+const PHASE_TEXT: Record<Phase, string> = {
+  joining: '正在连接… (Connecting)',
+  pending: '等待用户允许你加入… (Waiting for the user to let you in)',
+  watching: '正在连接画面… (Connecting video)',
+  ended: '连接已结束 (Disconnected)',
+};
+
+/**
+ * Second-browser view for a sighted helper: the user's live camera, what the
+ * assistant is saying, recent hazards, and a hold-to-talk button whose voice
+ * plays on the user's phone over the assistant.
+ */
+const CaregiverDashboard: React.FC = () => {
+  const [room, setRoom] = useState('');
+  const [assist, setAssist] = useState<CaregiverAssist | null>(null);
+  const [phase, setPhase] = useState<Phase>('joining');
+  const [video, setVideo] = useState<MediaStream | null>(null);
+  const [lines, setLines] = useState<TranscriptLine[]>([]);
+  const [hazards, setHazards] = useState<Hazard[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [talking, setTalking] = useState(false);
+  const [micAvailable, setMicAvailable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lineSeq = useRef(0);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = video;
+  }, [video]);
+
+  useEffect(() => () => assist?.dispose(), [assist]);
+
+  const connect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ROOM_CODE_PATTERN.test(room)) {
+      setError('房间号是 6 位数字 (The room code has 6 digits)');
+      return;
+    }
+    setError(null);
+    // Talk-back needs the mic before joining; without it the dashboard is watch-only.
+    let mic: MediaStream | null = null;
+    try {
+      mic = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch {
+      setError('未获得麦克风权限，只能观看 (No microphone: watch-only)');
+    }
+    setMicAvailable(mic !== null);
+
+    const next = new CaregiverAssist(relayUrl(), room, mic);
+    setPhase('joining');
+    next.on('pending', (pending) => {
+      if (pending) setPhase('pending');
+    });
+    next.on('connected', (connected) => setPhase(connected ? 'watching' : 'ended'));
+    next.on('video', setVideo);
+    next.on('error', setError);
+    next.on('message', (message) => {
+      if (message.type === 'status') {
+        setStatus(`${message.status} · ${message.mode}`);
+      } else if (message.type === 'hazard') {
+        setHazards(prev => [message.hazard, ...prev].slice(0, 20));
+      } else {
+        // Streaming updates replace the open line for that speaker; a final one closes it.
+        setLines(prev => {
+          const open = prev.findIndex(l => l.role === message.role && !l.final);
+          const line = { role: message.role, text: message.text, final: message.final };
+          if (open >= 0) return prev.map((l, i) => (i === open ? { ...l, ...line } : l));
+          return [...prev, { id: ++lineSeq.current, ...line }].slice(-MAX_LINES);
+        });
+      }
+    });
+    setAssist(next);
+  };
+
+  const disconnect = () => {
+    setAssist(null);
+    setPhase('joining');
+    setVideo(null);
+    setStatus(null);
+    setTalking(false);
+  };
+
+  const talk = (active: boolean) => {
+    if (!assist || active === talking) return;
+    assist.setTalking(active);
+    setTalking(active && assist.canTalk);
+  };
+
+  const onTalkKey = (active: boolean) => (e: React.KeyboardEvent) => {
+    if (e.key !== ' ' && e.key !== 'Enter') return;
+    e.preventDefault();
+    if (!e.repeat) talk(active);
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-black text-white font-sans overflow-hidden">
+      <header className="px-6 py-4 border-b border-zinc-800 flex items-center justify-between bg-zinc-900">
+        <h1 className="text-lg font-black tracking-tighter uppercase italic">OpenClaw · 家人协助 (Caregiver)</h1>
+        {assist && (
+          <button onClick={disconnect} className="px-4 py-1.5 rounded-full bg-zinc-800 border border-zinc-700 text-xs font-black uppercase">
+            断开 (Disconnect)
+          </button>
+        )}
+      </header>
+
+      {error && <p role="alert" className="px-6 py-2 bg-red-600/20 text-red-400 text-xs font-bold">{error}</p>}
+
+      {!assist ? (
+        <main className="flex-1 flex">
+          <form onSubmit={connect} className="m-auto w-full max-w-sm p-6 space-y-4">
+            <label htmlFor="room-code" className="block text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+              房间号 (Room code)
+            </label>
+            <input
+              id="room-code"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={room}
+              onChange={(e) => setRoom(e.target.value.replace(/\D/g, ''))}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-3 text-2xl font-mono tracking-[0.4em] text-center"
+            />
+            <button type="submit" className="w-full py-3 rounded-xl bg-white text-black font-black uppercase">
+              连接 (Connect)
+            </button>
+          </form>
+        </main>
+      ) : (
+        <main className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+          <section className="flex-1 relative bg-zinc-950 flex items-center justify-center">
+            <video ref={videoRef} autoPlay playsInline muted className="max-w-full max-h-full" />
+            {!video && <p className="absolute text-sm font-bold text-zinc-500" role="status">{PHASE_TEXT[phase]}</p>}
+            {status && (
+              <span className="absolute top-4 left-4 px-3 py-1 rounded bg-black/70 text-[10px] font-black uppercase">{status}</span>
+            )}
+            <button
+              onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); talk(true); }}
+              onPointerUp={() => talk(false)}
+              onPointerCancel={() => talk(false)}
+              onKeyDown={onTalkKey(true)}
+              onKeyUp={onTalkKey(false)}
+              disabled={!micAvailable || !video}
+              aria-pressed={talking}
+              className={`absolute bottom-6 left-1/2 -translate-x-1/2 px-10 py-5 rounded-full font-black uppercase tracking-widest select-none touch-none disabled:opacity-30 ${
+                talking ? 'bg-green-500 text-black' : 'bg-white text-black'
+              }`}
+            >
+              {talking ? '正在说话… (Talking)' : '按住说话 (Hold to talk)'}
+            </button>
+          </section>
+
+          <aside className="w-full lg:w-96 border-t lg:border-t-0 lg:border-l border-zinc-800 flex flex-col bg-zinc-900 overflow-hidden">
+            {hazards.length > 0 && (
+              <div className="p-4 border-b border-zinc-800 space-y-1 max-h-40 overflow-y-auto">
+                <p className="text-[9px] font-black text-zinc-600 uppercase">Hazards</p>
+                {hazards.map(h => (
+                  <p key={h.id} className={`text-xs font-bold ${h.severity === 'high' ? 'text-red-400' : 'text-amber-400'}`}>
+                    {new Date(h.timestamp).toLocaleTimeString()} · {describeHazard(h, 'zh-CN')}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3" role="log" aria-live="polite" aria-label="Transcript">
+              {lines.map(line => (
+                <p
+                  key={line.id}
+                  className={`text-sm p-3 rounded-xl ${
+                    line.role === 'user' ? 'bg-zinc-800 text-zinc-100 ml-8' : 'bg-white text-black mr-8'
+                  } ${line.final ? '' : 'opacity-70'}`}
+                >
+                  <span className="block text-[9px] font-black uppercase opacity-50">{line.role === 'user' ? 'User' : 'Claw'}</span>
+                  {line.text}
+                </p>
+              ))}
+            </div>
+          </aside>
+        </main>
+      )}
+    </div>
+  );
+};
+
+export default CaregiverDashboard;
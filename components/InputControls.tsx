@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { InputMode } from '../types';
+import { INPUT_MODES, INPUT_MODE_LABELS } from '../services/inputModes';
+import { SHORTCUT_KEYS } from '../services/shortcuts';
+
+interface InputControlsProps {
+  mode: InputMode;
+  sessionMode: InputMode | null; // the mode the running session started with
+  talking: boolean;
+  canSend: boolean;
+  onModeChange: (mode: InputMode) => void;
+  onTalk: (pressed: boolean) => void;
+  onSendText: (text: string) => void;
+}
+
+const InputControls: React.FC<InputControlsProps> = ({
+  mode,
+  sessionMode,
+  talking,
+  canSend,
+  onModeChange,
+  onTalk,
+  onSendText,
+}) => {
+  const [text, setText] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed || !canSend) return;
+    onSendText(trimmed);
+    setText('');
+  };
+
+  // Space and Enter act like holding the button, so it works without a pointer.
+  const onKey = (pressed: boolean) => (e: React.KeyboardEvent) => {
+    if (e.key !== ' ' && e.key !== 'Enter') return;
+    e.preventDefault();
+    if (!e.repeat) onTalk(pressed);
+  };
+
+  return (
+    <div className="p-4 border-t border-zinc-800 space-y-3">
+      <label className="flex items-center gap-3 text-[10px] font-black text-zinc-500 uppercase">
+        <span className="w-14">Input</span>
+        <select
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs font-medium text-white"
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as InputMode)}
+        >
+          {INPUT_MODES.map(m => (
+            <option key={m} value={m}>{INPUT_MODE_LABELS[m]}</option>
+          ))}
+        </select>
+      </label>
+      {sessionMode && sessionMode !== mode && (
+        <p className="text-[10px] text-amber-400">下次会话生效 (Applies to the next session)</p>
+      )}
+
+      {sessionMode === 'push_to_talk' && (
+        <button
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onTalk(true); }}
+          onPointerUp={() => onTalk(false)}
+          onPointerCancel={() => onTalk(false)}
+          onKeyDown={onKey(true)}
+          onKeyUp={onKey(false)}
+          aria-pressed={talking}
+          aria-keyshortcuts={SHORTCUT_KEYS.talk}
+          className={`w-full py-4 rounded-xl font-black text-sm uppercase tracking-widest border select-none touch-none ${
+            talking ? 'bg-green-500 text-black border-green-300' : 'bg-zinc-800 text-white border-zinc-700 hover:bg-zinc-700'
+          }`}
+        >
+          {talking ? '正在听… (Listening)' : '按住说话 (Hold to talk)'}
+        </button>
+      )}
+
+      {sessionMode === 'hands_free' && (
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase text-zinc-500" aria-hidden="true">
+          <div className={`w-2 h-2 rounded-full ${talking ? 'bg-green-500 animate-pulse' : 'bg-zinc-700'}`} />
+          {talking ? '检测到语音 (Voice detected)' : '等待说话 (Waiting for voice)'}
+        </div>
+      )}
+
+      <form onSubmit={submit} className="flex gap-2">
+        <label htmlFor="text-question" className="sr-only">Type a question</label>
+        <input
+          id="text-question"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={!canSend}
+          placeholder="输入问题 (Type a question)"
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-white placeholder:text-zinc-500 disabled:opacity-40"
+        />
+        <button
+          type="submit"
+          disabled={!canSend || !text.trim()}
+          className="px-3 py-1.5 rounded-lg bg-white text-black text-[10px] font-black uppercase disabled:opacity-30"
+        >
+          发送 (Send)
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default InputControls;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { TranscriptionEntry, TranscriptionKind } from '../types';
+import { JournalFilter, SessionJournal } from '../services/journal';
+import { downloadFile } from '../utils/download';
+
+interface JournalPanelProps {
+  journal: SessionJournal;
+  saveThumbnails: boolean;
+  onSaveThumbnailsChange: (value: boolean) => void;
+}
+
+const DISPLAY_LIMIT = 200;
+
+const KIND_OPTIONS: { value: TranscriptionKind | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'speech', label: 'Speech' },
+  { value: 'hazard', label: 'Hazards' },
+  { value: 'mode', label: 'Modes' },
+];
+
+const controlClass = 'bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs font-medium text-white';
+
+const EntryView: React.FC<{ entry: TranscriptionEntry }> = ({ entry: t }) => {
+  const time = new Date(t.timestamp).toLocaleTimeString();
+
+  if (t.kind === 'mode') {
+    return (
+      <p className="text-center text-[10px] font-mono text-zinc-500 uppercase tracking-widest">
+        {time} · {t.text}
+      </p>
+    );
+  }
+
+  if (t.kind === 'hazard') {
+    return (
+      <div className="p-3 rounded-2xl bg-red-600/20 border border-red-600 flex gap-3 items-start">
+        {t.thumbnail && <img src={t.thumbnail} alt="" className="w-16 rounded-lg shrink-0" />}
+        <div>
+          <span className="block text-[10px] font-black text-red-400 uppercase tracking-widest">{time} · Hazard</span>
+          <span className="text-sm font-bold">{t.text}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start animate-[fadeIn_0.3s_ease-out]'}`}>
+      <div className={`flex items-center gap-2 mb-2 ${t.role === 'user' ? 'flex-row-reverse' : ''}`}>
+        <div className={`w-1.5 h-1.5 rounded-full ${t.role === 'user' ? 'bg-zinc-500' : 'bg-white'}`} />
+        <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+          {t.role === 'user' ? 'User' : 'Claw'} · {time}
+        </span>
+      </div>
+      <div className={`p-4 rounded-2xl max-w-[95%] text-base font-medium shadow-xl border ${
+        t.role === 'user'
+          ? 'bg-zinc-800 text-zinc-100 rounded-tr-none border-zinc-700'
+          : 'bg-white text-black rounded-tl-none border-white'
+      }`}>
+        {t.text}
+      </div>
+    </div>
+  );
+};
+
+const JournalPanel: React.FC<JournalPanelProps> = ({ journal, saveThumbnails, onSaveThumbnailsChange }) => {
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<TranscriptionKind | 'all'>('all');
+  const [entries, setEntries] = useState<TranscriptionEntry[]>([]);
+  const [persistent, setPersistent] = useState(journal.persistent);
+
+  const filter: JournalFilter = { text, kind };
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      setPersistent(journal.persistent);
+      journal.search({ text, kind, limit: DISPLAY_LIMIT }).then(
+        (result) => {
+          if (cancelled) return;
+          setEntries(result);
+          // A failed read switches the journal to memory, which the banner must show.
+          setPersistent(journal.persistent);
+        },
+        (err) => console.warn('Journal search failed', err),
+      );
+    };
+    refresh();
+    const unsubscribe = journal.subscribe(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [journal, text, kind]);
+
+  const exportJson = async () => {
+    downloadFile(`openclaw-journal-${Date.now()}.json`, await journal.exportJson(filter), 'application/json');
+  };
+
+  const exportMarkdown = async () => {
+    downloadFile(`openclaw-journal-${Date.now()}.md`, await journal.exportMarkdown(filter), 'text/markdown');
+  };
+
+  return (
+    <>
+      {!persistent && (
+        <p role="alert" className="px-5 py-2 bg-amber-500/20 text-amber-300 text-xs font-bold">
+          日志无法保存到本设备，关闭页面后会丢失 (The journal can't be saved on this device and is lost when the page closes)
+        </p>
+      )}
+      <div className="px-5 py-3 border-b border-zinc-800 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            aria-label="Search journal"
+            placeholder="Search..."
+            className={`${controlClass} flex-1`}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <select aria-label="Filter by type" className={controlClass} value={kind} onChange={(e) => setKind(e.target.value as TranscriptionKind | 'all')}>
+            {KIND_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-zinc-500 uppercase">
+            <input type="checkbox" checked={saveThumbnails} onChange={(e) => onSaveThumbnailsChange(e.target.checked)} />
+            Save frame thumbnails
+          </label>
+          <div className="flex gap-2">
+            <button onClick={exportJson} className="text-[10px] font-black uppercase px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700">
+              JSON
+            </button>
+            <button onClick={exportMarkdown} className="text-[10px] font-black uppercase px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700">
+              Markdown
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-6" role="log" aria-live="polite" aria-relevant="additions" aria-label="Interaction log">
+        {entries.length === 0 && (
+          <div className="h-full flex flex-col items-center justify-center opacity-20 grayscale py-12">
+             <svg aria-hidden="true" className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+             </svg>
+             <p className="text-xs font-bold uppercase tracking-widest text-center">
+               {text || kind !== 'all' ? 'No matching entries' : 'Waiting for voice input...'}
+             </p>
+          </div>
+        )}
+        {entries.map(entry => <EntryView key={entry.id} entry={entry} />)}
+      </div>
+    </>
+  );
+};
+
+export default JournalPanel;
@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RouteProgress, RouteStep, SavedPlace } from '../types';
+import { MAX_PLACE_FRAMES, createPlace, exportPlaces, importPlaces } from '../services/places';
+import { downloadFile } from '../utils/download';
+
+interface PlacesPanelProps {
+  places: SavedPlace[];
+  activePlaceId: string | null;
+  progress: RouteProgress | null;
+  canCapture: boolean;
+  onChange: (places: SavedPlace[]) => void;
+  onCaptureFrame: () => string | null;
+  onStartRoute: (placeId: string) => void;
+  onStopRoute: () => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1';
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-xl px-3 py-2 text-sm font-medium text-white';
+const smallButton = 'shrink-0 px-3 py-2 rounded-xl bg-zinc-800 border border-zinc-700 text-xs font-black uppercase hover:bg-zinc-700 disabled:opacity-30';
+
+const PlacesPanel: React.FC<PlacesPanelProps> = ({
+  places,
+  activePlaceId,
+  progress,
+  canCapture,
+  onChange,
+  onCaptureFrame,
+  onStartRoute,
+  onStopRoute,
+  onClose,
+}) => {
+  const doneRef = useRef<HTMLButtonElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(activePlaceId ?? places[0]?.id ?? null);
+  const [message, setMessage] = useState<string | null>(null);
+  const selected = places.find(p => p.id === selectedId) ?? null;
+
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    doneRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const update = (patch: Partial<SavedPlace>) => {
+    if (!selected) return;
+    onChange(places.map(p => (p.id === selected.id ? { ...p, ...patch, updatedAt: Date.now() } : p)));
+  };
+
+  const updateStep = (index: number, patch: Partial<RouteStep>) => {
+    if (!selected) return;
+    update({ route: selected.route.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  };
+
+  const moveStep = (index: number, step: -1 | 1) => {
+    if (!selected) return;
+    const route = selected.route.slice();
+    const [moved] = route.splice(index, 1);
+    route.splice(index + step, 0, moved);
+    update({ route });
+  };
+
+  const addPlace = () => {
+    const place = createPlace(`地点 ${places.length + 1} (Place)`);
+    onChange([...places, place]);
+    setSelectedId(place.id);
+  };
+
+  const removePlace = () => {
+    if (!selected) return;
+    if (selected.id === activePlaceId) onStopRoute();
+    const rest = places.filter(p => p.id !== selected.id);
+    onChange(rest);
+    setSelectedId(rest[0]?.id ?? null);
+  };
+
+  const capture = () => {
+    if (!selected) return;
+    const frame = onCaptureFrame();
+    if (!frame) {
+      setMessage('No camera frame yet');
+      return;
+    }
+    update({ frames: [...selected.frames, frame].slice(-MAX_PLACE_FRAMES) });
+  };
+
+  const exportJson = () => {
+    downloadFile(`openclaw-places-${Date.now()}.json`, exportPlaces(places), 'application/json');
+  };
+
+  const importJson = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = importPlaces(await file.text(), places);
+      onChange(result.places);
+      setMessage(`已导入 ${result.imported} 个地点 (Imported ${result.imported})`);
+    } catch (err: any) {
+      setMessage(`Import failed: ${err.message}`);
+    }
+  };
+
+  const isActive = selected !== null && selected.id === activePlaceId;
+  const nextStep = isActive && progress ? progress.stepIndex : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="places-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-zinc-900 border border-zinc-700 rounded-3xl p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="places-title" className="text-xl font-black tracking-tighter uppercase italic">Places &amp; Routes</h2>
+          <button ref={doneRef} onClick={onClose} className="px-4 py-2 rounded-full bg-white text-black font-black text-sm uppercase">
+            完成 (Done)
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="place-select" className={labelClass}>Saved Place</label>
+            <div className="flex gap-2">
+              <select
+                id="place-select"
+                className={inputClass}
+                value={selectedId ?? ''}
+                onChange={(e) => setSelectedId(e.target.value || null)}
+                disabled={places.length === 0}
+              >
+                {places.length === 0 && <option value="">暂无地点 (No places yet)</option>}
+                {places.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}{p.id === activePlaceId ? ' ▶' : ''}</option>
+                ))}
+              </select>
+              <button onClick={addPlace} className={smallButton}>New</button>
+              {selected && (
+                <button onClick={removePlace} className="shrink-0 px-3 rounded-xl bg-red-600 text-xs font-black uppercase">
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+
+          {selected && (
+            <>
+              <div>
+                <label htmlFor="place-name" className={labelClass}>Name</label>
+                <input id="place-name" className={inputClass} value={selected.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+
+              <div>
+                <label htmlFor="place-notes" className={labelClass}>Notes</label>
+                <textarea
+                  id="place-notes"
+                  rows={2}
+                  className={inputClass}
+                  value={selected.notes}
+                  onChange={(e) => update({ notes: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="place-landmarks" className={labelClass}>Landmarks (one per line)</label>
+                <textarea
+                  id="place-landmarks"
+                  rows={3}
+                  className={inputClass}
+                  value={selected.landmarks.join('\n')}
+                  onChange={(e) => update({ landmarks: e.target.value.split('\n') })}
+                  onBlur={() => update({ landmarks: selected.landmarks.map(l => l.trim()).filter(Boolean) })}
+                />
+              </div>
+
+              <div>
+                <span className={labelClass}>Reference Photos</span>
+                <div className="flex flex-wrap gap-2 items-center">
+                  {selected.frames.map((frame, i) => (
+                    <div key={i} className="relative">
+                      <img src={frame} alt={`Reference photo ${i + 1}`} className="h-16 rounded-lg border border-zinc-700" />
+                      <button
+                        onClick={() => update({ frames: selected.frames.filter((_, j) => j !== i) })}
+                        aria-label={`Remove reference photo ${i + 1}`}
+                        className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-600 text-[10px] font-black"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button onClick={capture} disabled={!canCapture} className={smallButton}>
+                    拍摄 (Capture)
+                  </button>
+                </div>
+                {!canCapture && <p className="mt-1 text-[10px] text-zinc-500">Start a session to capture photos from the camera.</p>}
+              </div>
+
+              <div>
+                <span className={labelClass}>Route Steps</span>
+                <ol className="space-y-2">
+                  {selected.route.map((step, i) => (
+                    <li
+                      key={i}
+                      className={`flex gap-2 items-start p-2 rounded-xl border ${
+                        nextStep === i ? 'border-white bg-zinc-800' : 'border-zinc-800'
+                      }`}
+                      aria-current={nextStep === i ? 'step' : undefined}
+                    >
+                      <span className="w-5 pt-2 text-xs font-black text-zinc-500">{i + 1}</span>
+                      <div className="flex-1 space-y-1">
+                        <input
+                          aria-label={`Step ${i + 1} instruction`}
+                          className={inputClass}
+                          placeholder="出门左转 (Turn left out of the gate)"
+                          value={step.instruction}
+                          onChange={(e) => updateStep(i, { instruction: e.target.value })}
+                        />
+                        <input
+                          aria-label={`Step ${i + 1} landmark`}
+                          className={inputClass}
+                          placeholder="地标 (Landmark, optional)"
+                          value={step.landmark ?? ''}
+                          onChange={(e) => updateStep(i, { landmark: e.target.value || undefined })}
+                        />
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <button onClick={() => moveStep(i, -1)} disabled={i === 0} aria-label={`Move step ${i + 1} up`} className={smallButton}>↑</button>
+                        <button onClick={() => moveStep(i, 1)} disabled={i === selected.route.length - 1} aria-label={`Move step ${i + 1} down`} className={smallButton}>↓</button>
+                        <button
+                          onClick={() => update({ route: selected.route.filter((_, j) => j !== i) })}
+                          aria-label={`Remove step ${i + 1}`}
+                          className={smallButton}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                <button onClick={() => update({ route: [...selected.route, { instruction: '' }] })} className={`${smallButton} mt-2`}>
+                  + Step
+                </button>
+              </div>
+
+              <button
+                onClick={() => (isActive ? onStopRoute() : onStartRoute(selected.id))}
+                aria-pressed={isActive}
+                className={`w-full py-3 rounded-xl font-black text-sm uppercase tracking-widest ${
+                  isActive ? 'bg-red-600 text-white' : 'bg-white text-black'
+                }`}
+              >
+                {isActive ? '结束路线 (Stop route)' : '开始路线 (Start route)'}
+              </button>
+            </>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-4 border-t border-zinc-800">
+            <p className="text-[10px] text-zinc-500" role="status">{message}</p>
+            <div className="flex gap-2">
+              <label className={`${smallButton} cursor-pointer`}>
+                Import
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="sr-only"
+                  onChange={(e) => {
+                    importJson(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <button onClick={exportJson} disabled={places.length === 0} className={smallButton}>Export</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlacesPanel;
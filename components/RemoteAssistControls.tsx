@@ -0,0 +1,72 @@
+import React from 'react';
+
+interface RemoteAssistControlsProps {
+  room: string | null;
+  caregivers: number;
+  requests: string[]; // caregivers waiting to be let in
+  caregiverTalking: boolean;
+  canStart: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onAnswer: (peerId: string, accept: boolean) => void;
+}
+
+const RemoteAssistControls: React.FC<RemoteAssistControlsProps> = ({
+  room,
+  caregivers,
+  requests,
+  caregiverTalking,
+  canStart,
+  onStart,
+  onStop,
+  onAnswer,
+}) => (
+  <div className="p-4 border-t border-zinc-800 space-y-3">
+    <div className="flex items-center justify-between">
+      <span className="text-[9px] font-black text-zinc-600 uppercase">Remote Assist</span>
+      <button
+        onClick={room ? onStop : onStart}
+        disabled={!room && !canStart}
+        aria-pressed={room !== null}
+        title={canStart || room ? undefined : 'Start a session to share the camera'}
+        className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full border disabled:opacity-30 ${
+          room ? 'bg-red-600 text-white border-red-400' : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+        }`}
+      >
+        {room ? '停止共享 (Stop)' : '共享给家人 (Share)'}
+      </button>
+    </div>
+    {room && (
+      <div className="space-y-1" role="status">
+        <p className="text-[10px] font-black text-zinc-500 uppercase">
+          房间号 (Room) <span className="ml-2 text-lg font-mono tracking-[0.3em] text-white">{room}</span>
+        </p>
+        <p className="text-[10px] font-bold text-zinc-400">
+          {caregivers > 0 ? `${caregivers} 位家人在看 (${caregivers} watching)` : '等待家人加入… (Waiting for a caregiver)'}
+        </p>
+        {caregiverTalking && (
+          <p className="text-[10px] font-black uppercase text-green-400">🎙 家人正在说话 (Caregiver talking)</p>
+        )}
+      </div>
+    )}
+    {room && requests.map((peerId, i) => (
+      <div key={peerId} role="group" aria-label={`家人请求加入 ${i + 1} (Join request ${i + 1})`} className="flex items-center gap-2">
+        <p className="flex-1 text-[10px] font-bold text-amber-400">家人请求加入 (A caregiver asks to join)</p>
+        <button
+          onClick={() => onAnswer(peerId, true)}
+          className="text-[10px] font-black uppercase px-3 py-1 rounded-full bg-green-500 text-black"
+        >
+          允许 (Allow)
+        </button>
+        <button
+          onClick={() => onAnswer(peerId, false)}
+          className="text-[10px] font-black uppercase px-3 py-1 rounded-full bg-zinc-800 text-zinc-300 border border-zinc-700"
+        >
+          拒绝 (Deny)
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default RemoteAssistControls;
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef } from 'react';
+import { NavigatorProfile, ProfileLanguage, RedactionPolicy, Verbosity } from '../types';
+import { LANGUAGE_NAMES, ProfileState, VERBOSITY_LABELS, VOICE_NAMES, findProfile } from '../services/profiles';
+import { DEFAULT_FRAME_POLICY } from '../utils/frames';
+import { REDACTION_LABELS } from '../services/redaction';
+
+interface SettingsPanelProps {
+  state: ProfileState;
+  sessionActive: boolean;
+  onChange: (state: ProfileState) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1';
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded-xl px-3 py-2 text-sm font-medium text-white disabled:opacity-50';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ state, sessionActive, onChange, onClose }) => {
+  const doneRef = useRef<HTMLButtonElement>(null);
+  const active = findProfile(state);
+
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    doneRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+  const editable = !active.builtIn;
+
+  const update = (patch: Partial<NavigatorProfile>) => {
+    onChange({
+      ...state,
+      profiles: state.profiles.map(p => (p.id === active.id ? { ...p, ...patch } : p)),
+    });
+  };
+
+  const updateFramePolicy = (key: 'maxFps' | 'maxWidth' | 'jpegQuality', value: number) => {
+    if (!Number.isFinite(value)) return;
+    const framePolicy = { ...active.framePolicy, [key]: value };
+    if (key === 'maxWidth') framePolicy.maxHeight = value;
+    update({ framePolicy });
+  };
+
+  const duplicate = () => {
+    const copy: NavigatorProfile = {
+      ...active,
+      id: `custom-${Date.now()}`,
+      name: `${active.name} (Custom)`,
+      builtIn: false,
+      framePolicy: { ...active.framePolicy },
+    };
+    onChange({ activeId: copy.id, profiles: [...state.profiles, copy] });
+  };
+
+  const remove = () => {
+    const profiles = state.profiles.filter(p => p.id !== active.id);
+    onChange({ activeId: profiles[0].id, profiles });
+  };
+
+  const policy = { ...DEFAULT_FRAME_POLICY, ...active.framePolicy };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-zinc-900 border border-zinc-700 rounded-3xl p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="settings-title" className="text-xl font-black tracking-tighter uppercase italic">Navigator Profile</h2>
+          <button ref={doneRef} onClick={onClose} className="px-4 py-2 rounded-full bg-white text-black font-black text-sm uppercase">
+            完成 (Done)
+          </button>
+        </div>
+
+        {sessionActive && (
+          <p className="mb-4 p-3 rounded-xl bg-amber-500/20 text-amber-400 text-xs font-bold">
+            更改将在下次启动导航时生效 (Changes apply to the next session)
+          </p>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="profile-select" className={labelClass}>Active Profile</label>
+            <div className="flex gap-2">
+              <select
+                id="profile-select"
+                className={inputClass}
+                value={active.id}
+                onChange={(e) => onChange({ ...state, activeId: e.target.value })}
+              >
+                {state.profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}{p.builtIn ? '' : ' ★'}</option>
+                ))}
+              </select>
+              <button onClick={duplicate} className="shrink-0 px-4 rounded-xl bg-zinc-800 border border-zinc-700 text-xs font-black uppercase">
+                Duplicate
+              </button>
+              {editable && (
+                <button onClick={remove} className="shrink-0 px-4 rounded-xl bg-red-600 text-xs font-black uppercase">
+                  Delete
+                </button>
+              )}
+            </div>
+            {!editable && (
+              <p className="mt-2 text-[10px] text-zinc-500 font-medium">Built-in profiles are read-only. Duplicate one to customise it.</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="profile-name" className={labelClass}>Name</label>
+            <input id="profile-name" className={inputClass} disabled={!editable} value={active.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="profile-language" className={labelClass}>Language</label>
+              <select
+                id="profile-language"
+                className={inputClass}
+                disabled={!editable}
+                value={active.language}
+                onChange={(e) => update({ language: e.target.value as ProfileLanguage })}
+              >
+                {(Object.keys(LANGUAGE_NAMES) as ProfileLanguage[]).map(l => (
+                  <option key={l} value={l}>{LANGUAGE_NAMES[l]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="profile-voice" className={labelClass}>Voice</label>
+              <select id="profile-voice" className={inputClass} disabled={!editable} value={active.voiceName} onChange={(e) => update({ voiceName: e.target.value })}>
+                {VOICE_NAMES.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="profile-verbosity" className={labelClass}>Verbosity</label>
+              <select
+                id="profile-verbosity"
+                className={inputClass}
+                disabled={!editable}
+                value={active.verbosity}
+                onChange={(e) => update({ verbosity: e.target.value as Verbosity })}
+              >
+                {(Object.keys(VERBOSITY_LABELS) as Verbosity[]).map(v => (
+                  <option key={v} value={v}>{VERBOSITY_LABELS[v]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="profile-model" className={labelClass}>Model</label>
+            <input id="profile-model" className={`${inputClass} font-mono`} disabled={!editable} value={active.model} onChange={(e) => update({ model: e.target.value })} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="profile-fps" className={labelClass}>Max Frames/s</label>
+              <input id="profile-fps" type="number" min={0.5} max={10} step={0.5} className={inputClass} disabled={!editable}
+                value={policy.maxFps} onChange={(e) => updateFramePolicy('maxFps', parseFloat(e.target.value))} />
+            </div>
+            <div>
+              <label htmlFor="profile-resolution" className={labelClass}>Max Resolution (px)</label>
+              <input id="profile-resolution" type="number" min={256} max={1920} step={64} className={inputClass} disabled={!editable}
+                value={policy.maxWidth} onChange={(e) => updateFramePolicy('maxWidth', parseInt(e.target.value, 10))} />
+            </div>
+            <div>
+              <label htmlFor="profile-quality" className={labelClass}>JPEG Quality</label>
+              <input id="profile-quality" type="number" min={0.1} max={1} step={0.05} className={inputClass} disabled={!editable}
+                value={policy.jpegQuality} onChange={(e) => updateFramePolicy('jpegQuality', parseFloat(e.target.value))} />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="profile-redaction" className={labelClass}>Privacy Redaction</label>
+            <select
+              id="profile-redaction"
+              className={inputClass}
+              disabled={!editable}
+              value={active.redaction}
+              onChange={(e) => update({ redaction: e.target.value as RedactionPolicy })}
+              aria-describedby="profile-redaction-hint"
+            >
+              {(Object.keys(REDACTION_LABELS) as RedactionPolicy[]).map(r => (
+                <option key={r} value={r}>{REDACTION_LABELS[r]}</option>
+              ))}
+            </select>
+            <p id="profile-redaction-hint" className="mt-1 text-[10px] text-zinc-500">
+              Faces and licence plates are pixelated on this device before a frame is sent.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="profile-prompt" className={labelClass}>Prompt Template</label>
+            <textarea
+              id="profile-prompt"
+              rows={10}
+              className={`${inputClass} font-mono text-xs leading-relaxed`}
+              disabled={!editable}
+              value={active.promptTemplate}
+              onChange={(e) => update({ promptTemplate: e.target.value })}
+            />
+            <p className="mt-2 text-[10px] text-zinc-500 font-mono">
+              Slots: {'{{language_name}}'} {'{{language_directive}}'} {'{{verbosity_instructions}}'} {'{{mode_instructions}}'}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
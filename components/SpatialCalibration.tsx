@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OutputDevice, SpatialPosition, SpatialSettings } from '../services/spatialAudio';
+
+interface SpatialCalibrationProps {
+  settings: SpatialSettings;
+  onChange: (settings: SpatialSettings) => void;
+  onPreview: (position: SpatialPosition) => void;
+  onClose: () => void;
+}
+
+const CLOCK_POSITIONS = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const SWEEP = [12, 3, 6, 9];
+const SWEEP_STEP_MS = 700;
+const DISTANCES = [1, 3, 8];
+
+const OUTPUT_LABELS: Record<OutputDevice, string> = {
+  headphones: '耳机 (Headphones · 3D)',
+  speakers: '扬声器 (Speaker · Stereo)',
+};
+
+const labelClass = 'block text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2';
+const chipClass = (on: boolean) =>
+  `px-3 py-2 rounded-xl text-xs font-black uppercase border ${
+    on ? 'bg-white text-black border-white' : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+  }`;
+
+const SpatialCalibration: React.FC<SpatialCalibrationProps> = ({ settings, onChange, onPreview, onClose }) => {
+  const doneRef = useRef<HTMLButtonElement>(null);
+  const [distance, setDistance] = useState(DISTANCES[0]);
+  const [playing, setPlaying] = useState<number | null>(null);
+  const sweepRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    doneRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      sweepRef.current.forEach(clearTimeout);
+    };
+  }, []);
+
+  const play = (clockDirection: number) => {
+    setPlaying(clockDirection);
+    onPreview({ clockDirection, distanceMeters: distance });
+  };
+
+  const sweep = () => {
+    sweepRef.current.forEach(clearTimeout);
+    sweepRef.current = SWEEP.map((clock, i) => setTimeout(() => play(clock), i * SWEEP_STEP_MS));
+  };
+
+  const update = (patch: Partial<SpatialSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="spatial-title">
+      <div className="w-full max-w-xl max-h-full overflow-y-auto bg-zinc-900 border border-zinc-700 rounded-3xl p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="spatial-title" className="text-xl font-black tracking-tighter uppercase italic">Spatial Audio</h2>
+          <button ref={doneRef} onClick={onClose} className="px-4 py-2 rounded-full bg-white text-black font-black text-sm uppercase">
+            完成 (Done)
+          </button>
+        </div>
+
+        <p className="mb-5 text-xs font-bold text-zinc-400">
+          戴上耳机，点击表盘上的位置，确认声音来自对应方向。(Tap a clock position and check the beep comes from that direction.)
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div role="radiogroup" aria-label="Output device">
+            <span className={labelClass}>Output</span>
+            <div className="flex flex-col gap-2">
+              {(Object.keys(OUTPUT_LABELS) as OutputDevice[]).map(output => (
+                <button
+                  key={output}
+                  role="radio"
+                  aria-checked={settings.output === output}
+                  onClick={() => update({ output })}
+                  className={chipClass(settings.output === output)}
+                >
+                  {OUTPUT_LABELS[output]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <span className={labelClass}>Options</span>
+            <label className="flex items-center gap-2 text-xs font-bold text-zinc-300">
+              <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+              方向提示音 (Directional cues)
+            </label>
+            <label className="flex items-center gap-2 text-xs font-bold text-zinc-300">
+              <input type="checkbox" checked={settings.swapChannels} onChange={(e) => update({ swapChannels: e.target.checked })} />
+              左右互换 (Swap left/right)
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-4" role="radiogroup" aria-label="Test distance">
+          <span className={labelClass}>Test distance</span>
+          <div className="flex gap-2">
+            {DISTANCES.map(d => (
+              <button key={d} role="radio" aria-checked={distance === d} onClick={() => setDistance(d)} className={chipClass(distance === d)}>
+                {d} m
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="relative w-64 h-64 mx-auto mb-6 rounded-full border-2 border-zinc-700" role="group" aria-label="Clock positions">
+          <div className="absolute inset-0 m-auto w-10 h-10 rounded-full bg-zinc-700 flex items-center justify-center text-[9px] font-black text-zinc-400 uppercase">
+            You
+          </div>
+          {CLOCK_POSITIONS.map(clock => {
+            const angle = (clock / 12) * 2 * Math.PI;
+            return (
+              <button
+                key={clock}
+                onClick={() => play(clock)}
+                aria-label={`${clock} o'clock`}
+                style={{ left: `${50 + Math.sin(angle) * 42}%`, top: `${50 - Math.cos(angle) * 42}%` }}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full text-sm font-black ${
+                  playing === clock ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-white hover:bg-zinc-700'
+                }`}
+              >
+                {clock}
+              </button>
+            );
+          })}
+        </div>
+
+        <button onClick={sweep} className="w-full py-3 rounded-2xl bg-zinc-800 border border-zinc-700 text-sm font-black uppercase hover:bg-zinc-700">
+          环绕测试 (Sweep 12 → 3 → 6 → 9)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpatialCalibration;
@@ -0,0 +1,28 @@
+import { ScriptedStep } from '../services/scriptedTransport';
+
+// 10 ms of 24 kHz silence, enough to exercise the playback path.
+const SILENT_CHUNK = 'A'.repeat(640);
+
+// A short recorded crossing exchange, used with `?transport=scripted`.
+export const DEMO_SESSION_SCRIPT: ScriptedStep[] = [
+  { delayMs: 300, message: { setupComplete: {} } },
+  { delayMs: 800, message: { serverContent: { inputTranscription: { text: '前面是什么' } } } },
+  { delayMs: 200, message: { serverContent: { inputTranscription: { text: '？' } } } },
+  {
+    delayMs: 300,
+    message: {
+      toolCall: {
+        functionCalls: [{
+          id: 'call-1',
+          name: 'report_hazard',
+          args: { hazard_type: 'stairs', clock_direction: 12, distance_meters: 2, severity: 'high', description: '三级向下台阶' },
+        }],
+      },
+    },
+  },
+  { delayMs: 100, message: { serverContent: { outputTranscription: { text: '紧急警告：' } } } },
+  { delayMs: 0, message: { serverContent: { modelTurn: { parts: [{ inlineData: { data: SILENT_CHUNK, mimeType: 'audio/pcm;rate=24000' } }] } } } },
+  { delayMs: 300, message: { serverContent: { outputTranscription: { text: '前方有阶梯，请停下。' } } } },
+  { delayMs: 300, message: { serverContent: { outputTranscription: { text: '你正站在人行道上，1点钟方向约2米处有一个消防栓。' } } } },
+  { delayMs: 200, message: { serverContent: { turnComplete: true } } },
+];
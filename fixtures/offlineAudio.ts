@@ -0,0 +1,145 @@
+import { OutputAudioContext } from '../services/AudioOutputEngine';
+
+// A stand-in for OfflineAudioContext so services/AudioOutputEngine.ts runs in Node.
+
+export class StubParam {
+  constructor(public value: number) {}
+  setValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+  linearRampToValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+  // Jumps to the target; tests read where the param is heading, not the curve.
+  setTargetAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+}
+
+export class StubNode extends EventTarget {
+  readonly outputs = new Set<StubNode>();
+  connect(node: StubNode) {
+    this.outputs.add(node);
+    return node;
+  }
+  disconnect(node?: StubNode) {
+    if (node) this.outputs.delete(node);
+    else this.outputs.clear();
+  }
+  /** True when a signal from this node reaches `node`. */
+  feeds(node: StubNode): boolean {
+    return this.outputs.has(node) || [...this.outputs].some(out => out.feeds(node));
+  }
+}
+
+export class StubGain extends StubNode {
+  readonly gain = new StubParam(1);
+}
+
+export class StubSource extends StubNode {
+  buffer: AudioBuffer | null = null;
+  readonly playbackRate = new StubParam(1);
+  readonly frequency = new StubParam(440);
+  startAt: number | null = null;
+  offset = 0;
+  stopAt = Infinity;
+  ended = false;
+
+  constructor(private ctx: StubAudioContext) {
+    super();
+  }
+
+  start(when = 0, offset = 0) {
+    this.startAt = when;
+    this.offset = offset;
+    this.ctx.sources.push(this);
+  }
+
+  stop(when?: number) {
+    this.stopAt = Math.min(this.stopAt, when ?? this.ctx.currentTime);
+  }
+
+  get endsAt(): number {
+    if (this.startAt === null) return Infinity;
+    const natural = this.buffer
+      ? this.startAt + (this.buffer.duration - this.offset) / this.playbackRate.value
+      : Infinity;
+    // A source stopped before it starts never plays and ends at the stop time.
+    return Math.min(natural, this.stopAt);
+  }
+
+  /** Whether the source is audible at `time`. */
+  playingAt(time: number): boolean {
+    return !this.ended && this.startAt !== null && this.startAt <= time && time < this.endsAt;
+  }
+}
+
+export class StubPanner extends StubNode {
+  readonly pan = new StubParam(0);
+  readonly positionX = new StubParam(0);
+  readonly positionY = new StubParam(0);
+  readonly positionZ = new StubParam(0);
+}
+
+/** Silent buffer of `duration` seconds. */
+export const stubBuffer = (duration: number, sampleRate = 24000): AudioBuffer =>
+  ({ duration, sampleRate, length: Math.round(duration * sampleRate), numberOfChannels: 1 }) as AudioBuffer;
+
+/**
+ * Records every node the engine creates and runs a clock the test advances,
+ * firing `ended` on sources in the order they finish, as a browser would.
+ */
+export class StubAudioContext {
+  currentTime = 0;
+  readonly destination = new StubNode();
+  readonly gains: StubGain[] = [];
+  readonly sources: StubSource[] = [];
+
+  createGain() {
+    const gain = new StubGain();
+    this.gains.push(gain);
+    return gain;
+  }
+
+  createBufferSource() {
+    return new StubSource(this);
+  }
+
+  createOscillator() {
+    return new StubSource(this);
+  }
+
+  createStereoPanner() {
+    return new StubPanner();
+  }
+
+  createPanner() {
+    return new StubPanner();
+  }
+
+  advance(seconds: number): void {
+    const until = this.currentTime + seconds;
+    for (;;) {
+      const next = this.sources
+        .filter(s => !s.ended && s.endsAt <= until)
+        .sort((a, b) => a.endsAt - b.endsAt)[0];
+      if (!next) break;
+      this.currentTime = Math.max(this.currentTime, next.endsAt);
+      next.ended = true;
+      next.dispatchEvent(new Event('ended'));
+    }
+    this.currentTime = until;
+  }
+
+  /** Buffer sources audible right now; oscillators are cues, not narration. */
+  playingClips(): StubSource[] {
+    return this.sources.filter(s => s.buffer && s.playingAt(this.currentTime));
+  }
+
+  asOutputContext(): OutputAudioContext {
+    return this as unknown as OutputAudioContext;
+  }
+}
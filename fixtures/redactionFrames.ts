@@ -0,0 +1,142 @@
+import { RgbaFrame } from '../utils/frames';
+import { RedactionContext } from '../services/redaction';
+import { paintFrame } from './safetyFrames';
+
+// Synthetic camera frames for services/redaction.ts, plus a canvas stub so the stage runs in Node.
+
+const WIDTH = 640;
+const HEIGHT = 480;
+
+const SKIN: [number, number, number] = [214, 160, 130];
+const STREET: [number, number, number] = [96, 104, 112];
+
+const inEllipse = (x: number, y: number, cx: number, cy: number, rx: number, ry: number) =>
+  ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1;
+
+const face = (x: number, y: number, cx: number, cy: number): [number, number, number] | null => {
+  if (!inEllipse(x, y, cx, cy, 40, 52)) return null;
+  if (inEllipse(x, y, cx - 15, cy - 12, 6, 4) || inEllipse(x, y, cx + 15, cy - 12, 6, 4)) return [40, 30, 30];
+  if (inEllipse(x, y, cx, cy + 22, 14, 4)) return [150, 70, 70];
+  return SKIN;
+};
+
+// Plate: white band with dark character strokes.
+const plate = (x: number, y: number, left: number, top: number): [number, number, number] | null => {
+  if (x < left || x >= left + 140 || y < top || y >= top + 36) return null;
+  const inText = y >= top + 7 && y < top + 29 && x >= left + 8 && x < left + 132;
+  return inText && (x - left) % 12 < 4 ? [20, 20, 25] : [235, 235, 230];
+};
+
+export const faceFrame = (): RgbaFrame =>
+  paintFrame((x, y) => face(x, y, 320, 180) ?? STREET, WIDTH, HEIGHT);
+
+export const plateFrame = (): RgbaFrame =>
+  paintFrame((x, y) => {
+    const p = plate(x, y, 250, 330);
+    if (p) return p;
+    return y > 260 && y < 420 && x > 150 && x < 490 ? [40, 60, 150] : STREET;
+  }, WIDTH, HEIGHT);
+
+export const streetSceneFrame = (): RgbaFrame =>
+  paintFrame((x, y) => face(x, y, 140, 140) ?? plate(x, y, 400, 360) ?? STREET, WIDTH, HEIGHT);
+
+export const emptyStreetFrame = (): RgbaFrame => paintFrame(() => STREET, WIDTH, HEIGHT);
+
+export interface CanvasStub extends RedactionContext {
+  frame: RgbaFrame;
+  puts: number;
+}
+
+/** Just enough of CanvasRenderingContext2D for `redactCanvas`, backed by a plain RGBA buffer. */
+export function createCanvasStub(frame: RgbaFrame): CanvasStub {
+  const stub = {
+    frame: { width: frame.width, height: frame.height, data: new Uint8ClampedArray(frame.data) },
+    puts: 0,
+    getImageData: (sx: number, sy: number, sw: number, sh: number) => {
+      const data = new Uint8ClampedArray(sw * sh * 4);
+      for (let y = 0; y < sh; y++) {
+        const from = ((sy + y) * stub.frame.width + sx) * 4;
+        data.set(stub.frame.data.subarray(from, from + sw * 4), y * sw * 4);
+      }
+      return { width: sw, height: sh, data, colorSpace: 'srgb' } as ImageData;
+    },
+    putImageData: (image: ImageData, dx: number, dy: number) => {
+      for (let y = 0; y < image.height; y++) {
+        const to = ((dy + y) * stub.frame.width + dx) * 4;
+        stub.frame.data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), to);
+      }
+      stub.puts++;
+    },
+  };
+  return stub as CanvasStub;
+}
+
+const copyFrame = (frame: RgbaFrame): RgbaFrame =>
+  ({ width: frame.width, height: frame.height, data: new Uint8ClampedArray(frame.data) });
+
+/** Stands in for the camera `<video>`; drawing it paints `frame`. */
+export const stubVideo = (frame: RgbaFrame) => ({ videoWidth: frame.width, videoHeight: frame.height, frame });
+
+/**
+ * Just enough of HTMLCanvasElement for `createCanvasFrameSource` and
+ * `canvasThumbnail`. Every read of its pixels (drawn onto another canvas,
+ * encoded, turned into a data URL) is recorded in `reads`, so a test can check
+ * what left the canvas and when.
+ */
+export class StubCanvasElement {
+  readonly reads: RgbaFrame[] = [];
+  private readonly ctx = createCanvasStub({ width: 0, height: 0, data: new Uint8ClampedArray(0) });
+
+  get frame(): RgbaFrame {
+    return this.ctx.frame;
+  }
+
+  get width() {
+    return this.ctx.frame.width;
+  }
+
+  set width(width: number) {
+    this.resize(width, this.height);
+  }
+
+  get height() {
+    return this.ctx.frame.height;
+  }
+
+  set height(height: number) {
+    this.resize(this.width, height);
+  }
+
+  getContext() {
+    return {
+      ...this.ctx,
+      // Nearest-neighbour scale of a stub video or another stub canvas.
+      drawImage: (source: StubCanvasElement | ReturnType<typeof stubVideo>, dx: number, dy: number, dw: number, dh: number) => {
+        const from = source.frame;
+        if (source instanceof StubCanvasElement) source.reads.push(copyFrame(from));
+        const to = this.ctx.frame;
+        for (let y = 0; y < dh; y++) {
+          for (let x = 0; x < dw; x++) {
+            const s = (Math.floor((y * from.height) / dh) * from.width + Math.floor((x * from.width) / dw)) * 4;
+            to.data.set(from.data.subarray(s, s + 4), ((dy + y) * to.width + dx + x) * 4);
+          }
+        }
+      },
+    };
+  }
+
+  toBlob(callback: (blob: Blob | null) => void) {
+    this.reads.push(copyFrame(this.ctx.frame));
+    // Node has no FileReader; what matters is which pixels were handed to the encoder.
+    callback(null);
+  }
+
+  toDataURL() {
+    this.reads.push(copyFrame(this.ctx.frame));
+    return 'data:image/jpeg;base64,';
+  }
+
+  private resize(width: number, height: number) {
+    this.ctx.frame = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  }
+}
@@ -0,0 +1,63 @@
+import { ANALYSIS_HEIGHT, ANALYSIS_WIDTH, RgbaFrame } from '../utils/frames';
+
+// Synthetic camera frames at the pre-filter's resolution, for exercising services/safetyFilter.ts offline.
+
+type Paint = (x: number, y: number) => [number, number, number];
+
+export function paintFrame(paint: Paint, width = ANALYSIS_WIDTH, height = ANALYSIS_HEIGHT): RgbaFrame {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = paint(x, y);
+      const i = (y * width + x) * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// Mild gradient with a little texture; nothing should fire on it.
+export const clearPathFrame = (): RgbaFrame =>
+  paintFrame((x, y) => {
+    const v = 90 + y + ((x * 7 + y * 13) % 9);
+    return [v, v, v + 5];
+  });
+
+// Bright pavement ending in a dark gap across the lower third.
+export const dropOffFrame = (): RgbaFrame =>
+  paintFrame((x, y) => (y < ANALYSIS_HEIGHT * 0.7 ? [40, 40, 45] : [170, 168, 160]));
+
+// Alternating tread and riser bands below the horizon.
+export const stairsFrame = (): RgbaFrame =>
+  paintFrame((x, y) => {
+    if (y < ANALYSIS_HEIGHT * 0.45) return [120, 120, 125];
+    return Math.floor(y / 6) % 2 === 0 ? [190, 188, 180] : [70, 70, 72];
+  });
+
+// Dark signal housing with a lit red lamp left of centre, high in the frame.
+export const redLightFrame = (): RgbaFrame =>
+  paintFrame((x, y) => {
+    const dx = x - 30;
+    const dy = y - 12;
+    if (dx * dx + dy * dy <= 9) return [235, 40, 30];
+    if (Math.abs(dx) <= 6 && y >= 4 && y <= 36) return [25, 25, 25];
+    return [110, 120, 130];
+  });
+
+// A red car filling half the view: too large to be a signal.
+export const redCarFrame = (): RgbaFrame =>
+  paintFrame((x, y) => (y > 15 && y < 45 && x > 10 && x < 70 ? [200, 30, 30] : [120, 120, 120]));
+
+// Two frames 250 ms apart: open street, then a dark shape filling the centre.
+export const loomingFrames = (): RgbaFrame[] => [
+  clearPathFrame(),
+  paintFrame((x, y) => {
+    const inCentre = x > ANALYSIS_WIDTH * 0.15 && x < ANALYSIS_WIDTH * 0.85 && y > ANALYSIS_HEIGHT * 0.15;
+    if (inCentre) return [20, 22, 25];
+    const v = 90 + y + ((x * 7 + y * 13) % 9);
+    return [v, v, v + 5];
+  }),
+];
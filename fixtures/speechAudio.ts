@@ -0,0 +1,87 @@
+// Synthetic mic audio for services/voiceActivity.ts, so VAD thresholds can be checked offline.
+
+export const SAMPLE_RATE = 16000;
+
+// Deterministic noise so runs are repeatable.
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000 * 2 - 1;
+  };
+}
+
+const samples = (ms: number) => Math.round((SAMPLE_RATE * ms) / 1000);
+
+export function silence(ms: number): Float32Array {
+  return new Float32Array(samples(ms));
+}
+
+// Broadband street noise with a slow rumble, at a steady level.
+export function streetNoise(ms: number, level = 0.02, seed = 1): Float32Array {
+  const out = new Float32Array(samples(ms));
+  const rand = noise(seed);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = level * (rand() * 0.8 + 0.6 * Math.sin((2 * Math.PI * 60 * i) / SAMPLE_RATE));
+  }
+  return out;
+}
+
+// Voiced speech: a 140 Hz harmonic series gated into ~200 ms syllables with short gaps.
+export function speech(ms: number, level = 0.2): Float32Array {
+  const out = new Float32Array(samples(ms));
+  const syllable = samples(200);
+  const gap = samples(60);
+  for (let i = 0; i < out.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const pos = i % (syllable + gap);
+    if (pos >= syllable) continue;
+    const envelope = Math.sin((Math.PI * pos) / syllable);
+    let v = 0;
+    for (let h = 1; h <= 5; h++) v += Math.sin(2 * Math.PI * 140 * h * t) / h;
+    out[i] = level * envelope * v * 0.5;
+  }
+  return out;
+}
+
+// A single loud knock, e.g. the phone bumping a pocket.
+export function click(ms = 30, level = 0.8): Float32Array {
+  const out = new Float32Array(samples(ms));
+  for (let i = 0; i < out.length; i++) out[i] = level * Math.exp(-i / samples(3)) * (i % 2 ? 1 : -1);
+  return out;
+}
+
+/** Sums equal-length-or-shorter signals onto the first. */
+export function mix(base: Float32Array, ...layers: Float32Array[]): Float32Array {
+  const out = new Float32Array(base);
+  for (const layer of layers) {
+    for (let i = 0; i < Math.min(out.length, layer.length); i++) out[i] += layer[i];
+  }
+  return out;
+}
+
+export function concat(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Street noise, a spoken question, then street noise again: one turn expected.
+export const questionInTraffic = (): Float32Array =>
+  concat(
+    streetNoise(3000, 0.02, 1),
+    mix(streetNoise(1500, 0.02, 2), speech(1500, 0.2)),
+    streetNoise(1500, 0.02, 3),
+  );
+
+// Faraway chatter barely above the traffic: no turn expected.
+export const distantChatter = (): Float32Array =>
+  concat(streetNoise(3000, 0.02, 4), mix(streetNoise(2000, 0.02, 5), speech(2000, 0.015)));
+
+// Quiet room with a couple of knocks: no turn expected.
+export const knocks = (): Float32Array =>
+  concat(silence(500), click(), silence(800), click(), silence(500));
@@ -0,0 +1,18 @@
+import { IncomingMessage } from 'http';
+
+const isLoopback = (address: string) =>
+  address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+
+/**
+ * The address the servers key rate limits and grants on. Anything the browser
+ * sends about itself can be forged, so only the socket counts, except behind
+ * the Vite dev proxy: it connects from loopback and appends the browser's
+ * address to X-Forwarded-For, so the last entry is the one it added.
+ */
+export const clientOf = (req: IncomingMessage): string => {
+  const peer = req.socket.remoteAddress ?? 'unknown';
+  if (!isLoopback(peer)) return peer;
+  const header = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(header) ? header.join(',') : header ?? '').split(',').map(h => h.trim()).filter(Boolean);
+  return hops.at(-1) ?? peer;
+};
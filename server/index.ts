@@ -0,0 +1,69 @@
+import { loadEnv } from 'vite';
+import { GeminiTokenMinter, StubTokenMinter, TokenMinter } from './tokenMinter';
+import { DEFAULT_TOKEN_SERVER_OPTIONS, TokenServer } from './tokenServer';
+import { DEFAULT_VISION_OPTIONS, OpenAICompatibleUpstream } from './visionUpstream';
+
+// Reads the same .env/.env.local files as the Vite dev server, plus process.env.
+const env = { ...loadEnv('', process.cwd(), ''), ...process.env };
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const createVision = (): OpenAICompatibleUpstream => {
+  if (!env.OPENCLAW_OPENAI_MODEL) {
+    console.error('OPENCLAW_OPENAI_MODEL is not set. Name a vision model served at OPENCLAW_OPENAI_BASE_URL.');
+    process.exit(1);
+  }
+  return new OpenAICompatibleUpstream({
+    baseUrl: env.OPENCLAW_OPENAI_BASE_URL || DEFAULT_VISION_OPTIONS.baseUrl,
+    model: env.OPENCLAW_OPENAI_MODEL,
+    apiKey: env.OPENCLAW_OPENAI_API_KEY || undefined,
+    transcribeModel: env.OPENCLAW_OPENAI_TRANSCRIBE_MODEL || undefined,
+    timeoutMs: numberFromEnv('OPENCLAW_OPENAI_TIMEOUT_SECONDS', DEFAULT_VISION_OPTIONS.timeoutMs / 1000) * 1000,
+  });
+};
+
+const vision = env.OPENCLAW_UPSTREAM === 'openai' ? createVision() : undefined;
+
+const createMinter = (): TokenMinter => {
+  if (vision) return vision;
+  if (env.OPENCLAW_UPSTREAM === 'stub') return new StubTokenMinter();
+  if (!env.GEMINI_API_KEY) {
+    console.error('GEMINI_API_KEY is not set. Set it in .env.local, or run with OPENCLAW_UPSTREAM=stub.');
+    process.exit(1);
+  }
+  return new GeminiTokenMinter(env.GEMINI_API_KEY);
+};
+
+// Comma-separated; when set, tokens are only minted for these Live models.
+const models = env.OPENCLAW_LIVE_MODELS?.split(',').map(m => m.trim()).filter(Boolean);
+
+const minter = createMinter();
+const server = new TokenServer({
+  minter,
+  vision,
+  models: models?.length ? models : undefined,
+  rateLimit: {
+    max: numberFromEnv('OPENCLAW_TOKENS_PER_MINUTE', DEFAULT_TOKEN_SERVER_OPTIONS.rateLimit.max),
+    windowMs: 60_000,
+  },
+  visionRateLimit: {
+    max: numberFromEnv('OPENCLAW_VISION_REQUESTS_PER_MINUTE', DEFAULT_TOKEN_SERVER_OPTIONS.visionRateLimit.max),
+    windowMs: 60_000,
+  },
+  sessionLimitMs: numberFromEnv('OPENCLAW_SESSION_MINUTES', DEFAULT_TOKEN_SERVER_OPTIONS.sessionLimitMs / 60_000) * 60_000,
+});
+
+const port = await server.listen(numberFromEnv('OPENCLAW_TOKEN_PORT', 8787), env.OPENCLAW_TOKEN_HOST || '127.0.0.1');
+console.log(`[token-server] ${minter.upstream} upstream, listening on port ${port}`);
+if (vision && !vision.transcribes) {
+  console.log('[token-server] OPENCLAW_OPENAI_TRANSCRIBE_MODEL is not set; only typed questions reach the model');
+}
+
+const shutdown = () => {
+  server.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,44 @@
+export interface RateLimit {
+  max: number;
+  windowMs: number;
+}
+
+export interface RateDecision {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+/**
+ * Sliding-window limiter keyed by caller. Each key keeps the timestamps of
+ * its requests inside the window; anything older is dropped on access.
+ */
+export class SlidingWindowRateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: RateLimit, private now: () => number = Date.now) {}
+
+  take(key: string): RateDecision {
+    const decision = this.peek(key);
+    if (decision.allowed) this.hits.get(key)!.push(this.now());
+    return decision;
+  }
+
+  /** Whether `key` could take another hit now, without recording one. */
+  peek(key: string): RateDecision {
+    const now = this.now();
+    const recent = (this.hits.get(key) ?? []).filter(t => now - t < this.limit.windowMs);
+    this.hits.set(key, recent);
+    if (recent.length >= this.limit.max) {
+      return { allowed: false, retryAfterMs: recent[0] + this.limit.windowMs - now };
+    }
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /** Forgets callers with no hits left in the window. */
+  prune(): void {
+    const now = this.now();
+    for (const [key, times] of this.hits) {
+      if (times.every(t => now - t >= this.limit.windowMs)) this.hits.delete(key);
+    }
+  }
+}
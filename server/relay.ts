@@ -0,0 +1,14 @@
+import { loadEnv } from 'vite';
+import { RelayServer } from './relayServer';
+
+const env = { ...loadEnv('', process.cwd(), ''), ...process.env };
+
+const relay = new RelayServer();
+const port = await relay.listen(Number(env.OPENCLAW_RELAY_PORT) || 8788, env.OPENCLAW_RELAY_HOST || '127.0.0.1');
+console.log(`[relay] remote-assist relay listening on port ${port}`);
+
+const shutdown = () => {
+  relay.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import { AssistClientMessage, AssistServerMessage, RELAY_PATH } from '../services/assistProtocol';
+import { RelayServer, RelayServerOptions } from './relayServer';
+
+let relay: RelayServer | null = null;
+let url = '';
+
+afterEach(async () => {
+  await relay?.close();
+  relay = null;
+});
+
+async function start(options: Partial<RelayServerOptions> = {}) {
+  relay = new RelayServer(options);
+  url = `ws://127.0.0.1:${await relay.listen(0)}${RELAY_PATH}`;
+}
+
+// A relay client that keeps every message, so tests can wait for the one they expect.
+async function connect(address = '192.168.1.20') {
+  const socket = new WebSocket(url, { headers: { 'X-Forwarded-For': address } });
+  const messages: AssistServerMessage[] = [];
+  const waiters: (() => void)[] = [];
+  socket.on('message', (data) => {
+    messages.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach(wake => wake());
+  });
+  const closed = new Promise<number>(resolve => socket.on('close', resolve));
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  const next = async <T extends AssistServerMessage['type']>(type: T, code?: string) => {
+    const match = (m: AssistServerMessage) => m.type === type && (!code || (m.type === 'error' && m.code === code));
+    for (;;) {
+      const index = messages.findIndex(match);
+      if (index >= 0) return messages.splice(index, 1)[0] as Extract<AssistServerMessage, { type: T }>;
+      await new Promise<void>(wake => waiters.push(wake));
+    }
+  };
+  const send = (message: AssistClientMessage) => socket.send(JSON.stringify(message));
+  return { socket, messages, closed, next, send };
+}
+
+async function openRoom(room = '123456') {
+  const navigator = await connect('192.168.1.10');
+  navigator.send({ type: 'join', room, role: 'navigator' });
+  await navigator.next('joined');
+  return navigator;
+}
+
+async function admitted(navigator: Awaited<ReturnType<typeof connect>>, room = '123456', address?: string) {
+  const caregiver = await connect(address);
+  caregiver.send({ type: 'join', room, role: 'caregiver' });
+  await caregiver.next('pending');
+  const { peer } = await navigator.next('peer');
+  navigator.send({ type: 'admit', peerId: peer.peerId, accept: true });
+  await caregiver.next('joined');
+  await navigator.next('peer');
+  return caregiver;
+}
+
+describe('RelayServer rooms', () => {
+  it('only lets a caregiver in once the navigator accepts', async () => {
+    await start();
+    const navigator = await openRoom();
+    const caregiver = await connect();
+    caregiver.send({ type: 'join', room: '123456', role: 'caregiver' });
+    await caregiver.next('pending');
+    const request = await navigator.next('peer');
+    expect(request.event).toBe('requested');
+
+    // Nothing reaches a caregiver who is still waiting, and it cannot send either.
+    navigator.send({ type: 'transcript', role: 'assistant', text: '前方有台阶', final: true });
+    caregiver.send({ type: 'talk', active: true });
+    expect((await caregiver.next('error')).code).toBe('not_joined');
+
+    navigator.send({ type: 'admit', peerId: request.peer.peerId, accept: true });
+    const joined = await caregiver.next('joined');
+    expect(joined.peers.map(p => p.role)).toEqual(['navigator']);
+    expect((await navigator.next('peer')).event).toBe('joined');
+    expect(caregiver.messages.some(m => m.type === 'transcript')).toBe(false);
+
+    navigator.send({ type: 'status', status: 'ACTIVE' as never, mode: 'navigation' as never });
+    expect((await caregiver.next('status')).from).toBe(joined.peers[0].peerId);
+  });
+
+  it('turns away a refused caregiver', async () => {
+    await start();
+    const navigator = await openRoom();
+    const caregiver = await connect();
+    caregiver.send({ type: 'join', room: '123456', role: 'caregiver' });
+    const { peer } = await navigator.next('peer');
+    navigator.send({ type: 'admit', peerId: peer.peerId, accept: false });
+
+    expect((await caregiver.next('error')).code).toBe('refused');
+    await caregiver.closed;
+    const left = await navigator.next('peer');
+    expect(left).toMatchObject({ event: 'left', peer: { peerId: peer.peerId } });
+  });
+
+  it('does not create rooms for caregivers, nor let them admit anyone', async () => {
+    await start();
+    const stray = await connect();
+    stray.send({ type: 'join', room: '654321', role: 'caregiver' });
+    expect((await stray.next('error')).code).toBe('no_room');
+    await stray.closed;
+
+    const navigator = await openRoom();
+    const caregiver = await admitted(navigator);
+    caregiver.send({ type: 'admit', peerId: 'anyone', accept: true });
+    expect((await caregiver.next('error')).code).toBe('not_navigator');
+  });
+
+  it('closes the room when the navigator leaves', async () => {
+    await start();
+    const navigator = await openRoom();
+    const caregiver = await admitted(navigator);
+    navigator.socket.close();
+
+    expect((await caregiver.next('error', 'room_closed')).message).toMatch(/stopped sharing/);
+    await caregiver.closed;
+    const late = await connect();
+    late.send({ type: 'join', room: '123456', role: 'caregiver' });
+    expect((await late.next('error')).code).toBe('no_room');
+  });
+
+  it('throttles an address after repeated failed joins', async () => {
+    await start({ failedJoins: { max: 3, windowMs: 60_000 } });
+    await openRoom();
+    for (const room of ['000001', '000002', '000003']) {
+      const guess = await connect('10.0.0.66');
+      guess.send({ type: 'join', room, role: 'caregiver' });
+      expect((await guess.next('error')).code).toBe('no_room');
+    }
+    // Even the right code is refused now, but only for that address.
+    const blocked = await connect('10.0.0.66');
+    blocked.send({ type: 'join', room: '123456', role: 'caregiver' });
+    expect((await blocked.next('error')).code).toBe('too_many_attempts');
+
+    const other = await connect('10.0.0.67');
+    other.send({ type: 'join', room: '123456', role: 'caregiver' });
+    await other.next('pending');
+  });
+});
+
+describe('RelayServer socket errors', () => {
+  it('drops only the client that sent an oversized frame', async () => {
+    await start({ maxMessageBytes: 1024 });
+    const navigator = await openRoom();
+    const caregiver = await admitted(navigator);
+    const bystander = await admitted(navigator, '123456', '192.168.1.21');
+
+    caregiver.socket.send(JSON.stringify({ type: 'talk', active: true, padding: 'x'.repeat(4096) }));
+    expect(await caregiver.closed).toBe(1009);
+    expect((await navigator.next('peer')).event).toBe('left');
+
+    navigator.send({ type: 'transcript', role: 'assistant', text: '还在', final: true });
+    expect((await bystander.next('transcript')).text).toBe('还在');
+    expect(navigator.socket.readyState).toBe(WebSocket.OPEN);
+  });
+});
@@ -0,0 +1,243 @@
+import { IncomingMessage, Server, createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  AssistForwardedMessage,
+  AssistPeer,
+  AssistRole,
+  AssistServerMessage,
+  MAX_CAREGIVERS,
+  RELAY_PATH,
+  parseClientMessage,
+} from '../services/assistProtocol';
+import { clientOf } from './clientAddress';
+import { RateLimit, SlidingWindowRateLimiter } from './rateLimiter';
+
+export interface RelayServerOptions {
+  maxCaregivers: number; // admitted and waiting together
+  maxMessageBytes: number; // SDP offers are a few KB; frames never go through the relay
+  heartbeatMs: number;
+  failedJoins: RateLimit; // wrong codes and refusals per client address before its joins are turned away
+}
+
+export const DEFAULT_RELAY_OPTIONS: RelayServerOptions = {
+  maxCaregivers: MAX_CAREGIVERS,
+  maxMessageBytes: 64 * 1024,
+  heartbeatMs: 30_000,
+  // A six-digit code is guessable with unlimited tries; five a minute is not.
+  failedJoins: { max: 5, windowMs: 60_000 },
+};
+
+interface Client extends AssistPeer {
+  socket: WebSocket;
+  room: string;
+  address: string;
+  admitted: boolean; // caregivers wait for the navigator's answer; they get and send nothing until then
+  alive: boolean;
+}
+
+const send = (socket: WebSocket, message: AssistServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+/**
+ * Signaling and event relay for remote assist. A room holds one navigator
+ * and a few caregivers; messages from one side are forwarded to the other.
+ * The navigator's join creates the room and each caregiver is let in by the
+ * navigator, so knowing the code is not enough to watch. Video and talk-back
+ * audio go peer to peer over WebRTC, so nothing here leaves the LAN and no
+ * third-party service is involved.
+ */
+export class RelayServer {
+  readonly server: Server;
+  private wss: WebSocketServer;
+  private rooms = new Map<string, Map<string, Client>>();
+  private options: RelayServerOptions;
+  private failedJoins: SlidingWindowRateLimiter;
+  private heartbeat: ReturnType<typeof setInterval>;
+
+  constructor(options: Partial<RelayServerOptions> = {}) {
+    this.options = { ...DEFAULT_RELAY_OPTIONS, ...options };
+    this.failedJoins = new SlidingWindowRateLimiter(this.options.failedJoins);
+    this.server = createServer((req, res) => {
+      const path = (req.url ?? '').split('?')[0];
+      if (path === '/healthz') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true, rooms: this.rooms.size }));
+        return;
+      }
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'not_found' }));
+    });
+    this.wss = new WebSocketServer({ server: this.server, path: RELAY_PATH, maxPayload: this.options.maxMessageBytes });
+    this.wss.on('connection', (socket, req) => this.accept(socket, req));
+    this.heartbeat = setInterval(() => this.sweep(), this.options.heartbeatMs);
+  }
+
+  listen(port: number, host = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(port, host, () => {
+        const address = this.server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    clearInterval(this.heartbeat);
+    this.wss.clients.forEach(socket => socket.terminate());
+    return new Promise((resolve) => this.wss.close(() => this.server.close(() => resolve())));
+  }
+
+  private accept(socket: WebSocket, req: IncomingMessage) {
+    const address = clientOf(req);
+    let client: Client | null = null;
+    socket.on('pong', () => {
+      if (client) client.alive = true;
+    });
+    // ws reports oversized frames and protocol errors here and closes the socket;
+    // without a listener the error would take the whole relay down.
+    socket.on('error', (err) => {
+      console.warn(`[relay] dropping client ${address}: ${err.message}`);
+      socket.terminate();
+    });
+    socket.on('message', (data) => {
+      const message = parseClientMessage(data.toString());
+      if (!message) {
+        send(socket, { type: 'error', code: 'bad_message', message: 'Malformed message' });
+        return;
+      }
+      if (message.type === 'join') {
+        if (client) {
+          send(socket, { type: 'error', code: 'already_joined', message: 'Already in a room' });
+          return;
+        }
+        client = this.join(socket, message.room, message.role, address);
+        if (client) console.log(`[relay] ${client.role} ${client.admitted ? 'opened' : 'asked to join'} room ${client.room} from ${address}`);
+        return;
+      }
+      if (!client?.admitted) {
+        send(socket, { type: 'error', code: 'not_joined', message: 'Join a room first' });
+        return;
+      }
+      if (message.type === 'admit') {
+        this.admit(client, message.peerId, message.accept);
+        return;
+      }
+      this.forward(client, message);
+    });
+    socket.on('close', () => {
+      if (client) this.leave(client);
+    });
+  }
+
+  private join(socket: WebSocket, room: string, role: AssistRole, address: string): Client | null {
+    const reject = (code: string, message: string) => {
+      send(socket, { type: 'error', code, message });
+      socket.close();
+      return null;
+    };
+    const throttled = this.failedJoins.peek(address);
+    if (!throttled.allowed) {
+      const seconds = Math.ceil(throttled.retryAfterMs / 1000);
+      return reject('too_many_attempts', `Too many failed attempts; try again in ${seconds} s`);
+    }
+    const members = this.rooms.get(room);
+    if (role === 'navigator' && members) {
+      this.failedJoins.take(address);
+      return reject('room_taken', 'This room already has a navigator');
+    }
+    if (role === 'caregiver' && !members) {
+      this.failedJoins.take(address);
+      return reject('no_room', 'No one is sharing with this code');
+    }
+    if (members && [...members.values()].filter(c => c.role === 'caregiver').length >= this.options.maxCaregivers) {
+      return reject('room_full', 'Too many caregivers in this room');
+    }
+
+    const client: Client = { peerId: randomUUID(), role, socket, room, address, admitted: role === 'navigator', alive: true };
+    if (!members) {
+      this.rooms.set(room, new Map([[client.peerId, client]]));
+      send(socket, { type: 'joined', peerId: client.peerId, peers: [] });
+      return client;
+    }
+    members.set(client.peerId, client);
+    send(socket, { type: 'pending' });
+    const navigator = [...members.values()].find(c => c.role === 'navigator');
+    if (navigator) send(navigator.socket, { type: 'peer', event: 'requested', peer: { peerId: client.peerId, role } });
+    return client;
+  }
+
+  private admit(from: Client, peerId: string, accept: boolean) {
+    if (from.role !== 'navigator') {
+      send(from.socket, { type: 'error', code: 'not_navigator', message: 'Only the navigator lets caregivers in' });
+      return;
+    }
+    const members = this.rooms.get(from.room);
+    const client = members?.get(peerId);
+    // The caregiver may have given up in the meantime.
+    if (!members || !client || client.admitted) return;
+    if (!accept) {
+      this.failedJoins.take(client.address);
+      send(client.socket, { type: 'error', code: 'refused', message: 'The user did not let you in' });
+      client.socket.close();
+      return;
+    }
+    client.admitted = true;
+    const others = [...members.values()].filter(c => c !== client && c.admitted);
+    send(client.socket, { type: 'joined', peerId, peers: others.map(({ peerId, role }) => ({ peerId, role })) });
+    for (const other of others) {
+      send(other.socket, { type: 'peer', event: 'joined', peer: { peerId, role: client.role } });
+    }
+  }
+
+  // Navigator messages go to caregivers, caregiver messages to the navigator; caregivers never see each other.
+  private forward(from: Client, message: AssistForwardedMessage) {
+    const members = this.rooms.get(from.room);
+    if (!members) return;
+    const outgoing = { ...message, from: from.peerId } as AssistServerMessage;
+    if (message.type === 'signal') {
+      const target = members.get(message.to);
+      if (target?.admitted && target.role !== from.role) send(target.socket, outgoing);
+      return;
+    }
+    for (const member of members.values()) {
+      if (member.admitted && member.role !== from.role) send(member.socket, outgoing);
+    }
+  }
+
+  private leave(client: Client) {
+    const members = this.rooms.get(client.room);
+    if (!members?.delete(client.peerId)) return;
+    const left: AssistServerMessage = { type: 'peer', event: 'left', peer: { peerId: client.peerId, role: client.role } };
+    if (client.role === 'navigator') {
+      // The room goes with its navigator; a new share gets a new code.
+      this.rooms.delete(client.room);
+      for (const other of members.values()) {
+        if (other.admitted) send(other.socket, left);
+        send(other.socket, { type: 'error', code: 'room_closed', message: 'The user stopped sharing' });
+        other.socket.close();
+      }
+      return;
+    }
+    for (const other of members.values()) {
+      // The navigator also hears about caregivers who give up while waiting.
+      if (other.admitted && (client.admitted || other.role === 'navigator')) send(other.socket, left);
+    }
+  }
+
+  // Drops sockets that stopped answering pings, e.g. a phone that lost Wi-Fi.
+  private sweep() {
+    this.failedJoins.prune();
+    for (const members of this.rooms.values()) {
+      for (const client of members.values()) {
+        if (!client.alive) {
+          client.socket.terminate();
+          continue;
+        }
+        client.alive = false;
+        client.socket.ping();
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { GoogleGenAI, LiveConnectConfig } from '@google/genai';
+import { LiveUpstream } from '../types';
+
+export interface MintRequest {
+  expiresAt: number; // epoch ms after which the Live session stops accepting messages
+  newSessionWindowMs: number; // how long the token may be used to open a connection
+  model: string; // the token only opens Live sessions with this model
+  config: LiveConnectConfig; // ...and this config; whatever the connection asks for instead is ignored
+}
+
+export interface TokenMinter {
+  readonly upstream: LiveUpstream;
+  mint(request: MintRequest): Promise<string>;
+}
+
+/**
+ * Mints single-use Live API ephemeral tokens with the real key, which never
+ * leaves this process. Each token is locked to one model and config, so a
+ * leaked token cannot open a session on anything else.
+ */
+export class GeminiTokenMinter implements TokenMinter {
+  readonly upstream = 'gemini' as const;
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async mint(request: MintRequest): Promise<string> {
+    const token = await this.ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: new Date(request.expiresAt).toISOString(),
+        newSessionExpireTime: new Date(Date.now() + request.newSessionWindowMs).toISOString(),
+        liveConnectConstraints: { model: request.model, config: request.config },
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    if (!token.name) throw new Error('Upstream returned an empty token');
+    return token.name;
+  }
+}
+
+/**
+ * Local mode: hands out fake tokens so the server and the client flow can be
+ * exercised without a Gemini key. Clients answer it with the scripted transport.
+ */
+export class StubTokenMinter implements TokenMinter {
+  readonly upstream = 'stub' as const;
+  readonly minted: MintRequest[] = [];
+
+  async mint(request: MintRequest): Promise<string> {
+    this.minted.push(request);
+    return `stub-token-${this.minted.length}`;
+  }
+}
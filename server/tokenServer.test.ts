@@ -0,0 +1,211 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { StubTokenMinter } from './tokenMinter';
+import { clientOf } from './clientAddress';
+import { LIVE_TOKEN_PATH, SESSION_HEADER, TokenServer, TokenServerOptions, VISION_CHAT_PATH } from './tokenServer';
+import { OpenAICompatibleUpstream } from './visionUpstream';
+
+const LIVE = { model: 'live-model', config: { systemInstruction: 'test', responseModalities: ['AUDIO'] } };
+
+let server: TokenServer | null = null;
+let upstream: Server | null = null;
+
+afterEach(async () => {
+  // fetch keeps connections alive, and close() would wait for them.
+  server?.server.closeAllConnections();
+  await server?.close();
+  server = null;
+  upstream?.closeAllConnections();
+  await new Promise(resolve => upstream ? upstream.close(resolve) : resolve(undefined));
+  upstream = null;
+});
+
+async function start(options: Partial<TokenServerOptions> = {}) {
+  const minter = new StubTokenMinter();
+  server = new TokenServer({ minter, rateLimit: { max: 2, windowMs: 60_000 }, ...options });
+  const port = await server.listen(0);
+  // Requests come from loopback, as they do through the Vite proxy.
+  const request = (body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+    fetch(`http://127.0.0.1:${port}${LIVE_TOKEN_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  return { minter, request };
+}
+
+const peer = (remoteAddress: string, forwardedFor?: string) =>
+  ({ socket: { remoteAddress }, headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} }) as unknown as IncomingMessage;
+
+describe('clientOf', () => {
+  it('trusts only the hop the loopback proxy appended', () => {
+    expect(clientOf(peer('127.0.0.1', '10.0.0.9, 192.168.1.20'))).toBe('192.168.1.20');
+    expect(clientOf(peer('::ffff:127.0.0.1', '192.168.1.20'))).toBe('192.168.1.20');
+    expect(clientOf(peer('::1'))).toBe('::1');
+  });
+
+  it('ignores forwarding headers from anyone but loopback', () => {
+    expect(clientOf(peer('192.168.1.20', '10.0.0.9'))).toBe('192.168.1.20');
+  });
+});
+
+describe('TokenServer', () => {
+  it('locks each token to the model and config the client connects with', async () => {
+    const { minter, request } = await start();
+    const response = await request(LIVE);
+    expect(response.status).toBe(200);
+    const { sessionId } = await response.json();
+
+    expect((await request({ ...LIVE, sessionId })).status).toBe(200);
+    expect(minter.minted.map(m => [m.model, m.config])).toEqual([
+      [LIVE.model, LIVE.config],
+      [LIVE.model, LIVE.config],
+    ]);
+  });
+
+  it('rejects requests without a model or config', async () => {
+    const { minter, request } = await start();
+    expect((await request({ config: LIVE.config })).status).toBe(400);
+    expect((await request({ model: LIVE.model, config: [] })).status).toBe(400);
+    expect(minter.minted).toHaveLength(0);
+  });
+
+  it('mints only for enabled models when a list is configured', async () => {
+    const { request } = await start({ models: ['other-model'] });
+    const response = await request(LIVE);
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe('model_not_allowed');
+  });
+
+  it('rate-limits new sessions by client address whatever the browser claims to be', async () => {
+    const { request } = await start();
+    const from = (address: string, user: string) => ({ 'X-Forwarded-For': address, 'x-openclaw-user': user });
+
+    expect((await request(LIVE, from('192.168.1.20', 'a'))).status).toBe(200);
+    expect((await request(LIVE, from('192.168.1.20', 'b'))).status).toBe(200);
+    const limited = await request(LIVE, from('192.168.1.20', 'c'));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+
+    expect((await request(LIVE, from('192.168.1.21', 'a'))).status).toBe(200);
+  });
+
+  it('keeps a session when the phone changes network between mint and refresh', async () => {
+    const { minter, request } = await start();
+    const wifi = { 'X-Forwarded-For': '192.168.1.20' };
+    const cellular = { 'X-Forwarded-For': '100.64.7.9' };
+    const { sessionId } = await (await request(LIVE, wifi)).json();
+    // Wi-Fi used up its allowance for new sessions; the refresh does not draw on it.
+    expect((await request(LIVE, wifi)).status).toBe(200);
+
+    const refreshed = await request({ ...LIVE, sessionId }, cellular);
+    expect(refreshed.status).toBe(200);
+    expect((await refreshed.json()).sessionId).toBe(sessionId);
+    expect(minter.minted).toHaveLength(3);
+  });
+
+  it('limits refreshes per session and refuses unknown ones', async () => {
+    const { request } = await start();
+    const { sessionId } = await (await request(LIVE)).json();
+    expect((await request({ ...LIVE, sessionId })).status).toBe(200);
+    expect((await request({ ...LIVE, sessionId })).status).toBe(200);
+    expect((await request({ ...LIVE, sessionId })).status).toBe(429);
+    expect((await request({ ...LIVE, sessionId: 'made-up' })).status).toBe(410);
+  });
+});
+
+// An OpenAI-compatible endpoint that holds every request until the test answers it.
+async function startUpstream() {
+  const held: ServerResponse[] = [];
+  const closed: ServerResponse[] = [];
+  upstream = createServer((req, res) => {
+    req.resume();
+    held.push(res);
+    res.on('close', () => {
+      if (!res.writableFinished) closed.push(res);
+    });
+  });
+  await new Promise<void>(resolve => upstream!.listen(0, '127.0.0.1', resolve));
+  const { port } = upstream.address() as AddressInfo;
+  const answer = () => {
+    const res = held.shift()!;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: '-' } }] }));
+  };
+  return { baseUrl: `http://127.0.0.1:${port}/v1`, held, closed, answer };
+}
+
+async function startVision(options: Partial<TokenServerOptions> = {}) {
+  const endpoint = await startUpstream();
+  const vision = new OpenAICompatibleUpstream({ baseUrl: endpoint.baseUrl, model: 'vision-model' });
+  const { request } = await start({ minter: vision, vision, ...options });
+  const { sessionId } = await (await request(LIVE)).json();
+  const port = (server!.server.address() as AddressInfo).port;
+  const chat = (signal?: AbortSignal) =>
+    fetch(`http://127.0.0.1:${port}${VISION_CHAT_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: sessionId },
+      body: JSON.stringify({ messages: [{ role: 'user', content: 'scan' }] }),
+      signal,
+    });
+  return { ...endpoint, chat };
+}
+
+const until = async (check: () => boolean) => {
+  for (let i = 0; i < 200 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+  expect(check()).toBe(true);
+};
+
+describe('TokenServer vision proxy', () => {
+  it('caps the requests one session grant may have open', async () => {
+    const { held, answer, chat } = await startVision({ visionConcurrency: 2 });
+    const first = chat();
+    const second = chat();
+    await until(() => held.length === 2);
+
+    const refused = await chat();
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).error).toBe('too_many_requests');
+
+    answer();
+    expect((await first).status).toBe(200);
+    const third = chat();
+    await until(() => held.length === 2);
+    answer();
+    answer();
+    expect((await second).status).toBe(200);
+    expect((await third).status).toBe(200);
+  });
+
+  it('limits the requests per minute for each session grant', async () => {
+    const { held, answer, chat } = await startVision({ visionRateLimit: { max: 2, windowMs: 60_000 } });
+    for (let i = 0; i < 2; i++) {
+      const reply = chat();
+      await until(() => held.length === 1);
+      answer();
+      expect((await reply).status).toBe(200);
+    }
+    const limited = await chat();
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect(held).toHaveLength(0);
+  });
+
+  it('cancels the upstream call when the browser gives up on it', async () => {
+    const { held, closed, answer, chat } = await startVision({ visionConcurrency: 1 });
+    const abandoned = new AbortController();
+    const scan = chat(abandoned.signal).catch(() => null);
+    await until(() => held.length === 1);
+    abandoned.abort();
+    await scan;
+    await until(() => closed.length === 1);
+
+    // The slot is free again for the question that replaced the scan.
+    held.shift();
+    const question = chat();
+    await until(() => held.length === 1);
+    answer();
+    expect((await question).status).toBe(200);
+  });
+});
@@ -0,0 +1,267 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { LiveConnectConfig } from '@google/genai';
+import { LiveCredentials } from '../types';
+import { clientOf } from './clientAddress';
+import { RateLimit, SlidingWindowRateLimiter } from './rateLimiter';
+import { TokenMinter } from './tokenMinter';
+import { OpenAICompatibleUpstream, UpstreamReply, VisionUnavailableError } from './visionUpstream';
+
+export const LIVE_TOKEN_PATH = '/api/live-token';
+export const SESSION_HEADER = 'x-openclaw-session';
+export const VISION_CHAT_PATH = '/api/vision/chat';
+export const VISION_TRANSCRIBE_PATH = '/api/vision/transcribe';
+
+export interface TokenServerOptions {
+  minter: TokenMinter;
+  vision?: OpenAICompatibleUpstream; // set when OPENCLAW_UPSTREAM=openai; turns are proxied per session grant
+  rateLimit: RateLimit; // new sessions per client address, and refreshes per session
+  visionRateLimit: RateLimit; // proxied turns and transcriptions per session grant
+  visionConcurrency: number; // proxied requests one session grant may have open at once
+  models?: string[]; // Live models tokens may be minted for; any when unset
+  sessionLimitMs: number; // hard cap on one navigation session, reconnects included
+  newSessionWindowMs: number;
+  now?: () => number;
+}
+
+export const DEFAULT_TOKEN_SERVER_OPTIONS: Omit<TokenServerOptions, 'minter'> = {
+  rateLimit: { max: 10, windowMs: 60_000 },
+  // A scan every 5 s is 12 a minute; questions, tool answers and transcriptions fit in the rest.
+  visionRateLimit: { max: 60, windowMs: 60_000 },
+  visionConcurrency: 2,
+  sessionLimitMs: 30 * 60_000,
+  newSessionWindowMs: 60_000,
+};
+
+interface SessionGrant {
+  expiresAt: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024; // the Live config: system instruction, route and tool declarations
+const MAX_VISION_BODY_BYTES = 8 * 1024 * 1024; // a frame plus history, or 30 s of 16 kHz WAV as base64
+
+const readJson = (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > maxBytes) {
+        reject(new HttpError(413, 'body_too_large', 'Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (!body) return resolve({});
+      try {
+        const parsed = JSON.parse(body);
+        resolve(parsed && typeof parsed === 'object' ? parsed : {});
+      } catch {
+        reject(new HttpError(400, 'bad_json', 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+    // A client gone mid-upload must still settle, or its vision slot is never returned.
+    req.on('close', () => reject(new HttpError(400, 'aborted', 'Request body was cut off')));
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Issues Live API credentials so the real key stays server-side.
+ *
+ * `POST /api/live-token` with the `model` and `config` the client is about
+ * to connect with opens a session grant and mints a single-use token locked
+ * to them; passing the returned `sessionId` again (on reconnect) mints a
+ * fresh token for the same grant until its time limit runs out.
+ */
+export class TokenServer {
+  readonly server: Server;
+  private options: TokenServerOptions;
+  private limiter: SlidingWindowRateLimiter;
+  private visionLimiter: SlidingWindowRateLimiter;
+  private visionInFlight = new Map<string, number>();
+  private sessions = new Map<string, SessionGrant>();
+  private now: () => number;
+
+  constructor(options: Pick<TokenServerOptions, 'minter'> & Partial<TokenServerOptions>) {
+    this.options = { ...DEFAULT_TOKEN_SERVER_OPTIONS, ...options };
+    this.now = this.options.now ?? Date.now;
+    this.limiter = new SlidingWindowRateLimiter(this.options.rateLimit, this.now);
+    this.visionLimiter = new SlidingWindowRateLimiter(this.options.visionRateLimit, this.now);
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        if (err instanceof HttpError) {
+          sendJson(res, err.status, { error: err.code, message: err.message }, err.headers);
+        } else {
+          console.error('[token-server]', err);
+          sendJson(res, 502, { error: 'upstream_failed', message: 'Could not mint a Live API token' });
+        }
+      });
+    });
+  }
+
+  listen(port: number, host = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(port, host, () => {
+        const address = this.server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = (req.url ?? '').split('?')[0];
+    if (path === '/healthz') {
+      sendJson(res, 200, { ok: true, upstream: this.options.minter.upstream });
+      return;
+    }
+    if (path === VISION_CHAT_PATH || path === VISION_TRANSCRIBE_PATH) {
+      await this.handleVision(path, req, res);
+      return;
+    }
+    if (path !== LIVE_TOKEN_PATH) throw new HttpError(404, 'not_found', 'Not found');
+    if (req.method !== 'POST') throw new HttpError(405, 'method_not_allowed', 'Use POST', { Allow: 'POST' });
+
+    const body = await readJson(req);
+    // New sessions count against the caller's address. A refresh is bound to its secret
+    // session id instead, so a phone that moves from Wi-Fi to cellular keeps its session.
+    const fresh = body.sessionId === undefined || body.sessionId === null;
+    const decision = this.limiter.take(fresh ? clientOf(req) : `session:${String(body.sessionId)}`);
+    if (!decision.allowed) {
+      throw new HttpError(429, 'rate_limited', 'Too many token requests', {
+        'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)),
+      });
+    }
+    const { model, config } = body;
+    if (typeof model !== 'string' || !model) throw new HttpError(400, 'bad_request', 'model must be a string');
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new HttpError(400, 'bad_request', 'config must be an object');
+    }
+    if (this.options.models && !this.options.models.includes(model)) {
+      throw new HttpError(403, 'model_not_allowed', `Model ${model} is not enabled on this server`);
+    }
+    const { sessionId, grant } = this.resolveGrant(body.sessionId);
+    const token = await this.options.minter.mint({
+      expiresAt: grant.expiresAt,
+      newSessionWindowMs: Math.min(this.options.newSessionWindowMs, grant.expiresAt - this.now()),
+      model,
+      config: config as LiveConnectConfig,
+    });
+    const credentials: LiveCredentials = {
+      token,
+      sessionId,
+      expiresAt: grant.expiresAt,
+      upstream: this.options.minter.upstream,
+    };
+    sendJson(res, 200, credentials);
+  }
+
+  // One proxied turn for an open session grant; the grant's time limit applies as it does to Live tokens.
+  private async handleVision(path: string, req: IncomingMessage, res: ServerResponse) {
+    const vision = this.options.vision;
+    if (!vision) throw new HttpError(404, 'not_found', 'Not found');
+    if (req.method !== 'POST') throw new HttpError(405, 'method_not_allowed', 'Use POST', { Allow: 'POST' });
+    const header = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    if (!sessionId) throw new HttpError(401, 'no_session', 'Request a live token first');
+    this.resolveGrant(sessionId);
+
+    // Both checks come before the body is read, so a flood never buffers its uploads.
+    const decision = this.visionLimiter.take(sessionId);
+    if (!decision.allowed) {
+      throw new HttpError(429, 'rate_limited', 'Too many vision requests', {
+        'Retry-After': String(Math.ceil(decision.retryAfterMs / 1000)),
+      });
+    }
+    const inFlight = this.visionInFlight.get(sessionId) ?? 0;
+    if (inFlight >= this.options.visionConcurrency) {
+      throw new HttpError(429, 'too_many_requests', 'Too many vision requests in flight', { 'Retry-After': '1' });
+    }
+    this.visionInFlight.set(sessionId, inFlight + 1);
+    // The client aborts a scan when a question replaces it; stop forwarding it too so its slot frees up.
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abort.abort();
+    });
+    try {
+      await this.forwardVision(vision, path, req, res, abort.signal);
+    } finally {
+      const left = (this.visionInFlight.get(sessionId) ?? 1) - 1;
+      if (left > 0) this.visionInFlight.set(sessionId, left);
+      else this.visionInFlight.delete(sessionId);
+    }
+  }
+
+  private async forwardVision(
+    vision: OpenAICompatibleUpstream,
+    path: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+    signal: AbortSignal,
+  ) {
+    const body = await readJson(req, MAX_VISION_BODY_BYTES);
+    let reply: UpstreamReply;
+    try {
+      if (path === VISION_CHAT_PATH) {
+        if (!Array.isArray(body.messages)) throw new HttpError(400, 'bad_request', 'messages must be an array');
+        reply = await vision.chat(body, signal);
+      } else {
+        if (typeof body.audio !== 'string') throw new HttpError(400, 'bad_request', 'audio must be base64');
+        const mimeType = typeof body.mimeType === 'string' ? body.mimeType : 'audio/wav';
+        reply = await vision.transcribe(Buffer.from(body.audio, 'base64'), mimeType, signal);
+      }
+    } catch (err) {
+      if (err instanceof HttpError) throw err;
+      if (err instanceof VisionUnavailableError) throw new HttpError(404, 'transcription_disabled', err.message);
+      if (signal.aborted) return; // nobody is waiting for the answer
+      console.error('[token-server] vision upstream', err);
+      throw new HttpError(502, 'upstream_failed', 'Vision endpoint unreachable');
+    }
+    if (reply.status >= 400) {
+      const upstream = reply.body as { error?: { message?: string } | string } | null;
+      const detail = typeof upstream?.error === 'string' ? upstream.error : upstream?.error?.message;
+      // A rejected request (unknown model, no tool support) will not pass on retry; an overloaded one may.
+      const status = reply.status >= 500 || reply.status === 429 ? 502 : 422;
+      throw new HttpError(status, 'upstream_rejected', detail || `Vision endpoint returned ${reply.status}`);
+    }
+    sendJson(res, 200, reply.body);
+  }
+
+  private resolveGrant(requested: unknown): { sessionId: string; grant: SessionGrant } {
+    this.prune();
+    if (requested === undefined || requested === null) {
+      const sessionId = randomUUID();
+      const grant = { expiresAt: this.now() + this.options.sessionLimitMs };
+      this.sessions.set(sessionId, grant);
+      return { sessionId, grant };
+    }
+    const grant = typeof requested === 'string' ? this.sessions.get(requested) : undefined;
+    if (!grant) {
+      throw new HttpError(410, 'session_expired', 'Unknown or expired session; start a new session');
+    }
+    return { sessionId: requested as string, grant };
+  }
+
+  private prune() {
+    const now = this.now();
+    for (const [id, grant] of this.sessions) {
+      if (grant.expiresAt <= now) this.sessions.delete(id);
+    }
+    this.limiter.prune();
+    this.visionLimiter.prune();
+  }
+}
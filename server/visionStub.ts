@@ -0,0 +1,14 @@
+import { loadEnv } from 'vite';
+import { VisionStubServer } from './visionStubServer';
+
+const env = { ...loadEnv('', process.cwd(), ''), ...process.env };
+
+const stub = new VisionStubServer();
+const port = await stub.listen(Number(env.OPENCLAW_VISION_STUB_PORT) || 8789, '127.0.0.1');
+console.log(`[vision-stub] OpenAI-compatible stub listening on http://127.0.0.1:${port}/v1`);
+
+const shutdown = () => {
+  stub.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
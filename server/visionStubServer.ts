@@ -0,0 +1,112 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+
+// Canned replies for the stub, in the order scans cycle through them.
+export const STUB_SCENE = '你正站在人行道上，12点钟方向畅通，右侧是一排商店。';
+export const STUB_AFTER_HAZARD = '注意，12点钟方向约3米有向下台阶，请放慢脚步。';
+export const STUB_TRANSCRIPT = '前面有什么？';
+
+type StubMessage = { role: string; content?: unknown };
+
+const textOf = (message: StubMessage | undefined): string => {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+  return message.content.map((p: { text?: string }) => p.text ?? '').join('\n');
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const completion = (message: Record<string, unknown>) => ({
+  id: `stub-${Date.now()}`,
+  object: 'chat.completion',
+  choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+});
+
+/**
+ * A minimal OpenAI-compatible endpoint with deterministic answers, so the
+ * whole app can run against the local backend in CI without a model. Scans
+ * cycle through a scene description, silence, a `report_hazard` call and
+ * silence again; questions are echoed back; every utterance transcribes to
+ * the same question.
+ */
+export class VisionStubServer {
+  readonly server: Server;
+  readonly requests: { path: string; body: unknown }[] = [];
+  private scans = 0;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((err) => sendJson(res, 500, { error: { message: String(err) } }));
+    });
+  }
+
+  listen(port: number, host = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(port, host, () => {
+        const address = this.server.address();
+        resolve(typeof address === 'object' && address ? address.port : port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = (req.url ?? '').split('?')[0];
+    if (path === '/healthz') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    const raw = await readBody(req);
+    if (path.endsWith('/audio/transcriptions')) {
+      this.requests.push({ path, body: null });
+      sendJson(res, 200, { text: STUB_TRANSCRIPT });
+      return;
+    }
+    if (!path.endsWith('/chat/completions')) {
+      sendJson(res, 404, { error: { message: 'Not found' } });
+      return;
+    }
+    const body = JSON.parse(raw || '{}') as { messages?: StubMessage[]; tools?: { function?: { name?: string } }[] };
+    this.requests.push({ path, body });
+    sendJson(res, 200, this.reply(body.messages ?? [], body.tools ?? []));
+  }
+
+  private reply(messages: StubMessage[], tools: { function?: { name?: string } }[]) {
+    const last = messages[messages.length - 1];
+    if (last?.role === 'tool') return completion({ content: STUB_AFTER_HAZARD });
+    const text = textOf(last);
+    // Scan prompts tell the model how to stay silent; questions do not.
+    if (!text.includes('「-」')) return completion({ content: `你问的是“${text.split('\n')[0]}”。${STUB_SCENE}` });
+
+    const step = this.scans++ % 4;
+    if (step === 2 && tools.some(t => t.function?.name === 'report_hazard')) {
+      return completion({
+        content: null,
+        tool_calls: [{
+          id: `call-${this.scans}`,
+          type: 'function',
+          function: {
+            name: 'report_hazard',
+            arguments: JSON.stringify({ hazard_type: 'stairs', clock_direction: 12, distance_meters: 3, severity: 'high' }),
+          },
+        }],
+      });
+    }
+    return completion({ content: step === 0 ? STUB_SCENE : '-' });
+  }
+}
@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { MintRequest, TokenMinter } from './tokenMinter';
+
+export interface VisionUpstreamOptions {
+  baseUrl: string; // OpenAI-compatible API root, e.g. http://127.0.0.1:11434/v1 for Ollama
+  model: string; // must accept images and, ideally, tools
+  apiKey?: string;
+  transcribeModel?: string; // speech-to-text model behind /audio/transcriptions; unset disables voice questions
+  timeoutMs: number;
+}
+
+export const DEFAULT_VISION_OPTIONS: Pick<VisionUpstreamOptions, 'baseUrl' | 'timeoutMs'> = {
+  baseUrl: 'http://127.0.0.1:11434/v1',
+  timeoutMs: 30_000,
+};
+
+export interface UpstreamReply {
+  status: number;
+  body: unknown;
+}
+
+export class VisionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VisionUnavailableError';
+  }
+}
+
+/**
+ * A self-hosted OpenAI-compatible endpoint as the model backend. The browser
+ * never reaches it directly: the token server proxies each turn for a valid
+ * session grant, pins the model and adds the key. Tokens are only markers
+ * here, since the grant itself is what the proxy checks.
+ */
+export class OpenAICompatibleUpstream implements TokenMinter {
+  readonly upstream = 'openai' as const;
+  private options: VisionUpstreamOptions;
+
+  constructor(options: Pick<VisionUpstreamOptions, 'model'> & Partial<VisionUpstreamOptions>) {
+    this.options = { ...DEFAULT_VISION_OPTIONS, ...options };
+  }
+
+  get transcribes(): boolean {
+    return Boolean(this.options.transcribeModel);
+  }
+
+  async mint(_request: MintRequest): Promise<string> {
+    return `local-${randomUUID()}`;
+  }
+
+  // Only the fields the client is allowed to set are forwarded.
+  chat(body: Record<string, unknown>, signal?: AbortSignal): Promise<UpstreamReply> {
+    const tools = Array.isArray(body.tools) && body.tools.length ? body.tools : undefined;
+    return this.forward('chat/completions', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.options.model, messages: body.messages, tools, stream: false }),
+    }, signal);
+  }
+
+  transcribe(audio: Buffer, mimeType: string, signal?: AbortSignal): Promise<UpstreamReply> {
+    if (!this.options.transcribeModel) throw new VisionUnavailableError('No speech-to-text model is configured');
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), 'question.wav');
+    form.append('model', this.options.transcribeModel);
+    return this.forward('audio/transcriptions', { body: form }, signal);
+  }
+
+  private async forward(
+    path: string,
+    init: { headers?: Record<string, string>; body: string | FormData },
+    signal?: AbortSignal,
+  ): Promise<UpstreamReply> {
+    const headers = { ...init.headers, ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}) };
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/${path}`, {
+      method: 'POST',
+      headers,
+      body: init.body,
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    const body = await response.json().catch(() => ({}));
+    return { status: response.status, body };
+  }
+}
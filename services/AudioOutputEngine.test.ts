@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { AudioOutputEngine, MAX_SPEECH_RATE } from './AudioOutputEngine';
+import { StubAudioContext, StubNode, stubBuffer } from '../fixtures/offlineAudio';
+
+function setup() {
+  const ctx = new StubAudioContext();
+  const engine = new AudioOutputEngine(ctx.asOutputContext());
+  // Created in this order by the constructor.
+  const [master, narration, alerts, talkback] = ctx.gains;
+  return { ctx, engine, master, narration, alerts, talkback };
+}
+
+describe('AudioOutputEngine narration', () => {
+  it('queues clips back to back on the narration bus', () => {
+    const { ctx, engine, narration } = setup();
+    engine.enqueueNarration(stubBuffer(1));
+    engine.enqueueNarration(stubBuffer(0.5));
+
+    expect(ctx.sources.map(s => s.startAt)).toEqual([0, 1]);
+    expect(ctx.sources.every(s => s.feeds(narration))).toBe(true);
+    expect(engine.queuedSeconds).toBeCloseTo(1.5);
+  });
+
+  it('applies a rate change to what is already playing, from where it is', () => {
+    const { ctx, engine } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    ctx.advance(0.5);
+    engine.setRate(1.25);
+
+    const [clip] = ctx.playingClips();
+    expect(clip.offset).toBeCloseTo(0.5);
+    expect(clip.startAt).toBeCloseTo(0.5);
+    expect(clip.playbackRate.value).toBe(1.25);
+    expect(engine.queuedSeconds).toBeCloseTo(1.5 / 1.25);
+
+    ctx.advance(1.2);
+    expect(ctx.playingClips()).toEqual([]);
+  });
+
+  it('clamps the rate to the supported range', () => {
+    const { ctx, engine } = setup();
+    engine.setRate(10);
+    engine.enqueueNarration(stubBuffer(1));
+    expect(ctx.sources[0].playbackRate.value).toBe(MAX_SPEECH_RATE);
+  });
+
+  it('continues a paused clip where it stopped', () => {
+    const { ctx, engine } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    ctx.advance(0.75);
+    engine.pause();
+    expect(ctx.playingClips()).toEqual([]);
+
+    ctx.advance(5);
+    engine.resume();
+    const [clip] = ctx.playingClips();
+    expect(clip.offset).toBeCloseTo(0.75);
+    expect(clip.startAt).toBeCloseTo(5.75);
+  });
+});
+
+describe('AudioOutputEngine alerts', () => {
+  it('holds narration for a preempting earcon and resumes it after the last note', () => {
+    const { ctx, engine, alerts } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    ctx.advance(0.5);
+    engine.playEarcon([880, 660, 440], { noteDuration: 0.1, interrupt: 'preempt' });
+
+    const notes = ctx.sources.filter(s => !s.buffer);
+    expect(notes).toHaveLength(3);
+    expect(notes.every(n => n.feeds(alerts))).toBe(true);
+
+    // Held through every note, not only the first.
+    for (const t of [0.05, 0.1, 0.1]) {
+      ctx.advance(t);
+      expect(engine.alerting).toBe(true);
+      expect(ctx.playingClips()).toEqual([]);
+    }
+
+    ctx.advance(0.1);
+    expect(engine.alerting).toBe(false);
+    const [clip] = ctx.playingClips();
+    expect(clip.offset).toBeCloseTo(0.5);
+    expect(clip.startAt).toBeCloseTo(0.8);
+  });
+
+  it('keeps narration held across alerts queued back to back', () => {
+    const { ctx, engine } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    engine.playEarcon([880, 660], { noteDuration: 0.1, interrupt: 'preempt' });
+    engine.playAlert(stubBuffer(0.5), 'preempt');
+    const clip = ctx.sources.at(-1)!;
+    expect(clip.startAt).toBeCloseTo(0.2);
+
+    ctx.advance(0.3);
+    expect(ctx.playingClips()).toEqual([clip]);
+    ctx.advance(0.4);
+    expect(ctx.playingClips()).toHaveLength(1);
+    expect(ctx.playingClips()[0].offset).toBe(0);
+  });
+
+  it('ducks narration under a ducking alert without stopping it', () => {
+    const { ctx, engine, narration } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    engine.playAlert(stubBuffer(0.5), 'duck');
+
+    expect(narration.gain.value).toBe(0.25);
+    expect(ctx.playingClips()).toHaveLength(2);
+
+    ctx.advance(0.6);
+    expect(narration.gain.value).toBe(1);
+    expect(ctx.playingClips()).toHaveLength(1);
+  });
+
+  it('leaves routine earcons over narration as they are', () => {
+    const { ctx, engine, narration } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    engine.playEarcon([1175, 1175]);
+
+    expect(engine.alerting).toBe(false);
+    expect(narration.gain.value).toBe(1);
+    expect(ctx.playingClips()).toHaveLength(1);
+  });
+
+  it('places a positioned alert through a panner on the alert bus', () => {
+    const { ctx, engine, alerts } = setup();
+    engine.playAlert(stubBuffer(0.3), 'duck', { clockDirection: 3, distanceMeters: 2 });
+    const [source] = ctx.sources;
+    expect(source.feeds(alerts)).toBe(true);
+    expect(source.outputs.has(alerts)).toBe(false);
+  });
+
+  it('does not resume narration the user paused when an alert ends', () => {
+    const { ctx, engine } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    ctx.advance(0.5);
+    engine.pause();
+    engine.playEarcon([880], { noteDuration: 0.1, interrupt: 'preempt' });
+    ctx.advance(1);
+    expect(ctx.playingClips()).toEqual([]);
+
+    engine.resume();
+    expect(ctx.playingClips()[0].offset).toBeCloseTo(0.5);
+  });
+
+  it('drops held narration when cleared during an alert', () => {
+    const { ctx, engine } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    engine.playAlert(stubBuffer(0.3), 'preempt');
+    engine.clearNarration();
+    ctx.advance(1);
+    expect(ctx.playingClips()).toEqual([]);
+    expect(engine.queuedSeconds).toBe(0);
+  });
+});
+
+describe('AudioOutputEngine talk-back', () => {
+  it('routes the caregiver voice to its own bus and ducks narration while it speaks', () => {
+    const { ctx, engine, narration, talkback } = setup();
+    const voice = new StubNode();
+    const disconnect = engine.connectTalkback(voice as unknown as AudioNode);
+    expect(voice.outputs.has(talkback)).toBe(true);
+
+    engine.enqueueNarration(stubBuffer(3));
+    engine.setTalkback(true);
+    expect(narration.gain.value).toBe(0.25);
+    expect(ctx.playingClips()).toHaveLength(1);
+
+    // An alert ending must not lift the duck while the caregiver still talks.
+    engine.playAlert(stubBuffer(0.2), 'duck');
+    ctx.advance(0.5);
+    expect(narration.gain.value).toBe(0.25);
+
+    engine.setTalkback(false);
+    expect(narration.gain.value).toBe(1);
+    disconnect();
+    expect(voice.outputs.size).toBe(0);
+  });
+
+  it('stops narration and every note of an alert earcon on dispose', () => {
+    const { ctx, engine, master } = setup();
+    engine.enqueueNarration(stubBuffer(2));
+    engine.playEarcon([880, 660], { interrupt: 'duck' });
+    engine.dispose();
+    ctx.advance(0);
+
+    expect(ctx.sources.every(s => s.ended)).toBe(true);
+    expect(master.outputs.size).toBe(0);
+  });
+});
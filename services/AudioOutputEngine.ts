@@ -0,0 +1,282 @@
+import { playTone } from '../utils/audio';
+import { DEFAULT_SPATIAL_SETTINGS, SpatialPosition, SpatialSettings, spatialize } from './spatialAudio';
+
+// The slice of BaseAudioContext the engine uses, so an OfflineAudioContext or a stub can drive it.
+export type OutputAudioContext = Pick<
+  BaseAudioContext,
+  | 'currentTime'
+  | 'destination'
+  | 'createGain'
+  | 'createBufferSource'
+  | 'createOscillator'
+  | 'createStereoPanner'
+  | 'createPanner'
+>;
+
+// 'duck' lowers narration under the alert; 'preempt' holds it and resumes afterwards.
+export type AlertInterrupt = 'duck' | 'preempt';
+
+export interface OutputSettings {
+  volume: number; // 0..1 master gain
+  rate: number; // narration playback rate
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = { volume: 1, rate: 1 };
+export const MIN_SPEECH_RATE = 0.75;
+export const MAX_SPEECH_RATE = 1.5;
+
+export interface AudioOutputOptions {
+  duckLevel: number; // narration gain while an alert plays
+  duckTimeConstant: number; // seconds, for setTargetAtTime
+}
+
+const DEFAULT_OPTIONS: AudioOutputOptions = { duckLevel: 0.25, duckTimeConstant: 0.03 };
+
+export interface EarconOptions {
+  noteDuration?: number;
+  volume?: number;
+  position?: SpatialPosition; // heard from this direction; centred when omitted
+  interrupt?: AlertInterrupt; // set for alerts; routine cues play over narration as is
+}
+
+interface PendingClip {
+  buffer: AudioBuffer;
+  offset: number; // seconds into the buffer
+}
+
+interface ScheduledClip extends PendingClip {
+  source: AudioBufferSourceNode;
+  startAt: number;
+  rate: number;
+}
+
+/**
+ * Output mixer with three lanes. Narration (model speech) is queued back to
+ * back on its own bus; alerts (hazard earcons, urgent clips) play on a second
+ * bus and either duck narration or hold it until they finish. A caregiver's
+ * live talk-back voice has a third bus and ducks narration while it speaks.
+ * Held or paused narration keeps its position and continues where it stopped.
+ */
+export class AudioOutputEngine {
+  private master: GainNode;
+  private narrationBus: GainNode;
+  private alertBus: GainNode;
+  private talkbackBus: GainNode;
+  private settings: OutputSettings;
+  private options: AudioOutputOptions;
+  private spatial: SpatialSettings = DEFAULT_SPATIAL_SETTINGS;
+
+  private pending: PendingClip[] = [];
+  private scheduled: ScheduledClip[] = [];
+  private narrationCursor = 0;
+  private alertCursor = 0;
+  private activeAlerts = new Set<AudioScheduledSourceNode>();
+  private preempting = false;
+  private alertDucking = false;
+  private talkbackActive = false;
+  private userPaused = false;
+
+  constructor(
+    private ctx: OutputAudioContext,
+    settings: Partial<OutputSettings> = {},
+    options: Partial<AudioOutputOptions> = {},
+  ) {
+    this.settings = { ...DEFAULT_OUTPUT_SETTINGS, ...settings };
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.master = ctx.createGain();
+    this.master.gain.value = this.settings.volume;
+    this.master.connect(ctx.destination);
+    this.narrationBus = ctx.createGain();
+    this.narrationBus.connect(this.master);
+    this.alertBus = ctx.createGain();
+    this.alertBus.connect(this.master);
+    this.talkbackBus = ctx.createGain();
+    this.talkbackBus.connect(this.master);
+  }
+
+  get paused(): boolean {
+    return this.userPaused;
+  }
+
+  get alerting(): boolean {
+    return this.activeAlerts.size > 0;
+  }
+
+  /** Seconds of narration still to play, held clips included. */
+  get queuedSeconds(): number {
+    const now = this.ctx.currentTime;
+    const scheduled = this.scheduled.length ? Math.max(0, this.narrationCursor - now) : 0;
+    const held = this.pending.reduce((sum, clip) => sum + (clip.buffer.duration - clip.offset), 0);
+    return scheduled + held / this.settings.rate;
+  }
+
+  enqueueNarration(buffer: AudioBuffer): void {
+    if (this.holding) {
+      this.pending.push({ buffer, offset: 0 });
+    } else {
+      this.schedule({ buffer, offset: 0 });
+    }
+  }
+
+  /** Drops all narration, e.g. when the model reports it was interrupted. */
+  clearNarration(): void {
+    for (const clip of this.scheduled) clip.source.stop();
+    this.scheduled = [];
+    this.pending = [];
+    this.narrationCursor = 0;
+  }
+
+  playAlert(buffer: AudioBuffer, interrupt: AlertInterrupt = 'duck', position?: SpatialPosition): void {
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.alertInput(position));
+    const startAt = this.nextAlertStart(interrupt);
+    source.start(startAt);
+    this.alertCursor = startAt + buffer.duration;
+    this.trackAlert(source);
+  }
+
+  playEarcon(frequencies: number[], options: EarconOptions = {}): void {
+    if (frequencies.length === 0) return;
+    const { noteDuration = 0.12, volume = 0.2, position, interrupt } = options;
+    const startAt = interrupt ? this.nextAlertStart(interrupt) : this.ctx.currentTime;
+    const input = this.alertInput(position);
+    const notes = frequencies.map((f, i) => playTone(this.ctx, f, startAt + i * noteDuration, noteDuration, volume, input));
+    if (interrupt) {
+      this.alertCursor = startAt + frequencies.length * noteDuration;
+      // Track every note: held narration waits for all of them, and dispose() can stop them all.
+      notes.forEach(note => this.trackAlert(note));
+    }
+  }
+
+  /** Routes a live voice (e.g. a WebRTC track) into the talk-back lane; returns a disconnect function. */
+  connectTalkback(node: AudioNode): () => void {
+    node.connect(this.talkbackBus);
+    return () => node.disconnect(this.talkbackBus);
+  }
+
+  /** Ducks narration while the caregiver is talking. */
+  setTalkback(active: boolean): void {
+    this.talkbackActive = active;
+    this.applyDuck();
+  }
+
+  pause(): void {
+    if (this.userPaused) return;
+    this.userPaused = true;
+    this.hold();
+  }
+
+  resume(): void {
+    if (!this.userPaused) return;
+    this.userPaused = false;
+    this.release();
+  }
+
+  setVolume(volume: number): void {
+    this.settings.volume = Math.min(1, Math.max(0, volume));
+    this.master.gain.setTargetAtTime(this.settings.volume, this.ctx.currentTime, 0.02);
+  }
+
+  setSpatial(settings: SpatialSettings): void {
+    this.spatial = settings;
+  }
+
+  setRate(rate: number): void {
+    this.settings.rate = Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, rate));
+    // Reschedule what is already queued so the new rate is heard right away.
+    if (!this.holding && this.scheduled.length) {
+      this.hold();
+      this.release();
+    }
+  }
+
+  dispose(): void {
+    this.clearNarration();
+    this.activeAlerts.forEach(node => node.stop());
+    this.activeAlerts.clear();
+    this.master.disconnect();
+  }
+
+  private get holding(): boolean {
+    return this.userPaused || this.preempting;
+  }
+
+  private schedule(clip: PendingClip) {
+    const rate = this.settings.rate;
+    const source = this.ctx.createBufferSource();
+    source.buffer = clip.buffer;
+    source.playbackRate.value = rate;
+    source.connect(this.narrationBus);
+    const startAt = Math.max(this.narrationCursor, this.ctx.currentTime);
+    const entry: ScheduledClip = { ...clip, source, startAt, rate };
+    source.addEventListener('ended', () => {
+      this.scheduled = this.scheduled.filter(c => c !== entry);
+    });
+    source.start(startAt, clip.offset);
+    this.narrationCursor = startAt + (clip.buffer.duration - clip.offset) / rate;
+    this.scheduled.push(entry);
+  }
+
+  // Stops scheduled narration and moves whatever was not heard yet back to the front of the queue.
+  private hold() {
+    const now = this.ctx.currentTime;
+    const unheard: PendingClip[] = [];
+    for (const clip of this.scheduled) {
+      const played = Math.max(0, now - clip.startAt) * clip.rate;
+      const offset = clip.offset + played;
+      if (offset < clip.buffer.duration) unheard.push({ buffer: clip.buffer, offset });
+      clip.source.stop();
+    }
+    this.scheduled = [];
+    this.pending = [...unheard, ...this.pending];
+    this.narrationCursor = now;
+  }
+
+  private release() {
+    if (this.holding) return;
+    const clips = this.pending;
+    this.pending = [];
+    clips.forEach(clip => this.schedule(clip));
+  }
+
+  private nextAlertStart(interrupt: AlertInterrupt): number {
+    const now = this.ctx.currentTime;
+    if (interrupt === 'preempt') {
+      if (!this.preempting) {
+        this.preempting = true;
+        if (!this.userPaused) this.hold();
+      }
+    } else {
+      this.alertDucking = true;
+      this.applyDuck();
+    }
+    return Math.max(this.alertCursor, now);
+  }
+
+  private alertInput(position: SpatialPosition | undefined): AudioNode {
+    return position ? spatialize(this.ctx, position, this.spatial, this.alertBus) : this.alertBus;
+  }
+
+  private trackAlert(node: AudioScheduledSourceNode) {
+    this.activeAlerts.add(node);
+    node.addEventListener('ended', () => {
+      this.activeAlerts.delete(node);
+      if (this.activeAlerts.size === 0) this.alertsFinished();
+    });
+  }
+
+  private applyDuck() {
+    const level = this.alertDucking || this.talkbackActive ? this.options.duckLevel : 1;
+    this.narrationBus.gain.setTargetAtTime(level, this.ctx.currentTime, this.options.duckTimeConstant);
+  }
+
+  private alertsFinished() {
+    this.alertDucking = false;
+    this.applyDuck();
+    if (this.preempting) {
+      this.preempting = false;
+      this.release();
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalFinding } from '../types';
+import { RgbaFrame } from '../utils/frames';
+import { FINDING_COOLDOWN_MS, FrameScheduler, FrameSource, SentFrame } from './FrameScheduler';
+import { SafetyPreFilter } from './safetyFilter';
+import { clearPathFrame, loomingFrames } from '../fixtures/safetyFrames';
+
+const ENCODE_MS = 1500;
+
+// A camera showing `scene.frame`; the signature never changes, so uploads stay at minFps.
+function stubCamera(frame: RgbaFrame, encodeMs = ENCODE_MS) {
+  const scene = { frame, grabs: 0 };
+  const source: FrameSource = {
+    grab: () => {
+      scene.grabs++;
+      return {
+        signature: new Float32Array(16 * 12).fill(0.5),
+        analysis: scene.frame,
+        // A slow phone: each JPEG takes a while.
+        encode: () => new Promise(resolve => setTimeout(() => resolve('AAAA'), encodeMs)),
+      };
+    },
+  };
+  return { scene, source };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('FrameScheduler inspection', () => {
+  it('catches looming at the lowest upload rate, even while a frame is encoding', async () => {
+    const [before, after] = loomingFrames();
+    const { scene, source } = stubCamera(before);
+    const scheduler = new FrameScheduler(source, { minFps: 0.5, maxFps: 0.5 });
+    const filter = new SafetyPreFilter();
+    const alerts: string[] = [];
+    filter.on('alert', f => alerts.push(f.type));
+    const sent: SentFrame[] = [];
+    scheduler.on('frame', f => sent.push(f));
+    scheduler.startInspection(filter);
+    scheduler.start();
+
+    // Mid-encode of the first upload, and long after the last one started.
+    await vi.advanceTimersByTimeAsync(1000);
+    scene.frame = after;
+    await vi.advanceTimersByTimeAsync(250);
+    expect(alerts).toEqual(['obstacle']);
+
+    // The next upload carries the finding so the model can confirm it.
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(sent.some(f => f.findings.some(x => x.type === 'obstacle'))).toBe(true);
+    scheduler.stop();
+  });
+
+  it('sends a frame with findings straight away when nothing is encoding', async () => {
+    const [before, after] = loomingFrames();
+    const { scene, source } = stubCamera(before);
+    const scheduler = new FrameScheduler(source, { minFps: 0.5, maxFps: 0.5, keepAliveMs: 60_000 });
+    const sent: SentFrame[] = [];
+    scheduler.on('frame', f => sent.push(f));
+    scheduler.startInspection(new SafetyPreFilter());
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(ENCODE_MS + 100);
+    expect(sent).toHaveLength(1);
+
+    scene.frame = after;
+    await vi.advanceTimersByTimeAsync(250 + ENCODE_MS);
+    expect(sent).toHaveLength(2);
+    expect(sent[1].findings.map(f => f.type)).toEqual(['obstacle']);
+    scheduler.stop();
+  });
+
+  it('inspects before uploads start and keeps nothing for later', async () => {
+    const [before, after] = loomingFrames();
+    const { scene, source } = stubCamera(before);
+    const scheduler = new FrameScheduler(source);
+    const filter = new SafetyPreFilter();
+    const alerts: string[] = [];
+    filter.on('alert', f => alerts.push(f.type));
+    const sent: SentFrame[] = [];
+    scheduler.on('frame', f => sent.push(f));
+    scheduler.startInspection(filter);
+
+    await vi.advanceTimersByTimeAsync(500);
+    scene.frame = after;
+    await vi.advanceTimersByTimeAsync(250);
+    expect(alerts).toEqual(['obstacle']);
+    expect(sent).toEqual([]);
+
+    scene.frame = clearPathFrame();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(ENCODE_MS + 100);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].findings).toEqual([]);
+    scheduler.stop();
+  });
+
+  it('forwards a finding that stays in view once per cooldown, within maxFps', async () => {
+    const { source } = stubCamera(clearPathFrame(), 10);
+    const scheduler = new FrameScheduler(source, { minFps: 0.5, maxFps: 1, keepAliveMs: 60_000 });
+    const redLight: LocalFinding = { type: 'red_light', confidence: 0.9, clockDirection: 12, distanceMeters: 10, severity: 'medium' };
+    const sent: SentFrame[] = [];
+    scheduler.on('frame', f => sent.push(f));
+    scheduler.startInspection({ inspect: () => [redLight] });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(20_000);
+
+    expect(sent.length).toBeLessThanOrEqual(20);
+    expect(scheduler.stats.fps).toBeLessThanOrEqual(1);
+    expect(sent.filter(f => f.findings.length > 0)).toHaveLength(20_000 / FINDING_COOLDOWN_MS);
+    scheduler.stop();
+  });
+
+  it('stops grabbing once stopped', async () => {
+    const { scene, source } = stubCamera(clearPathFrame());
+    const scheduler = new FrameScheduler(source);
+    scheduler.startInspection(new SafetyPreFilter());
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.stop();
+    const grabs = scene.grabs;
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(scene.grabs).toBe(grabs);
+  });
+});
@@ -0,0 +1,207 @@
+import { FramePolicy, LocalFinding } from '../types';
+import { TypedEmitter } from '../utils/emitter';
+import { DEFAULT_FRAME_POLICY, RgbaFrame, adaptFrameRate, base64ByteLength, gridDifference } from '../utils/frames';
+
+export interface GrabbedFrame {
+  signature: Float32Array;
+  analysis?: RgbaFrame; // small copy for the on-device pre-filter
+  encode(): Promise<string | null>;
+}
+
+// Looks at the camera on its own clock, sent or not; e.g. the SafetyPreFilter.
+export interface FrameInspector {
+  inspect(frame: RgbaFrame, now: number): LocalFinding[];
+}
+
+// Where frames come from; the browser implementation reads a <video> element.
+export interface FrameSource {
+  grab(policy: FramePolicy): GrabbedFrame | null;
+}
+
+export interface SentFrame {
+  data: string;
+  bytes: number;
+  difference: number;
+  findings: LocalFinding[];
+}
+
+export interface FrameStats {
+  targetFps: number;
+  fps: number;
+  bytesPerSecond: number;
+  sent: number;
+  skipped: number;
+}
+
+export interface FrameSchedulerEvents {
+  frame: SentFrame;
+  stats: FrameStats;
+}
+
+const STATS_WINDOW_MS = 5000;
+
+// Pre-filter rate. Fixed, so looming is judged on frames a steady interval apart however slowly frames go up.
+export const INSPECT_INTERVAL_MS = 250;
+
+// A finding that persists is forwarded again only after this long, as the pre-filter's alert is.
+export const FINDING_COOLDOWN_MS = 5000;
+
+/**
+ * Samples the camera at an adaptive rate: near-duplicate frames are dropped,
+ * motion raises the rate up to `maxFps`, and a quiet scene decays to `minFps`
+ * with a keep-alive frame so the model never goes stale. An inspector, when
+ * started, runs on a separate fixed-rate clock before and during uploads, and
+ * a frame with a new finding is sent straight away; the same finding type is
+ * forwarded at most once per `FINDING_COOLDOWN_MS`.
+ */
+export class FrameScheduler extends TypedEmitter<FrameSchedulerEvents> {
+  private policy: FramePolicy;
+  private targetFps: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inspectTimer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private encoding = false;
+  private lastSignature: Float32Array | null = null;
+  private lastSentAt = 0;
+  private history: { at: number; bytes: number }[] = [];
+  private sent = 0;
+  private skipped = 0;
+  private inspector: FrameInspector | null = null;
+  private pendingFindings: LocalFinding[] = [];
+  private forwardedAt = new Map<LocalFinding['type'], number>();
+
+  constructor(private source: FrameSource, policy: Partial<FramePolicy> = {}, private now: () => number = Date.now) {
+    super();
+    this.policy = { ...DEFAULT_FRAME_POLICY, ...policy };
+    this.targetFps = this.policy.minFps;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /** Stops uploads and inspection. */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.stopInspection();
+  }
+
+  /** Starts the inspector's own clock; uploads need not be running. */
+  startInspection(inspector: FrameInspector, intervalMs = INSPECT_INTERVAL_MS): void {
+    this.stopInspection();
+    this.inspector = inspector;
+    this.inspectTimer = setInterval(() => this.inspect(), intervalMs);
+  }
+
+  stopInspection(): void {
+    if (this.inspectTimer) {
+      clearInterval(this.inspectTimer);
+      this.inspectTimer = null;
+    }
+    this.inspector = null;
+    this.pendingFindings = [];
+    this.forwardedAt.clear();
+  }
+
+  setPolicy(policy: Partial<FramePolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+    this.targetFps = Math.min(this.policy.maxFps, Math.max(this.policy.minFps, this.targetFps));
+    // Force the next frame through so the new resolution or quality takes effect.
+    this.lastSignature = null;
+  }
+
+  get stats(): FrameStats {
+    const now = this.now();
+    this.history = this.history.filter(h => now - h.at <= STATS_WINDOW_MS);
+    const windowSec = STATS_WINDOW_MS / 1000;
+    return {
+      targetFps: this.targetFps,
+      fps: this.history.length / windowSec,
+      bytesPerSecond: this.history.reduce((sum, h) => sum + h.bytes, 0) / windowSec,
+      sent: this.sent,
+      skipped: this.skipped,
+    };
+  }
+
+  /** Runs one sampling step. Exposed so tests can drive the scheduler without timers. */
+  async tick(): Promise<void> {
+    if (this.encoding) return;
+    const frame = this.source.grab(this.policy);
+    if (!frame) return;
+
+    const now = this.now();
+    const difference = this.difference(frame);
+    this.targetFps = adaptFrameRate(this.targetFps, difference, this.policy);
+
+    // A frame with local findings always goes up so the model can confirm them.
+    const stale = now - this.lastSentAt >= this.policy.keepAliveMs;
+    if (difference < this.policy.duplicateThreshold && !stale && this.pendingFindings.length === 0) {
+      this.skipped++;
+      this.emit('stats', this.stats);
+      return;
+    }
+    await this.send(frame, difference, now);
+  }
+
+  /** Runs one inspection step. Exposed so tests can drive the inspector without timers. */
+  async inspect(): Promise<void> {
+    if (!this.inspector) return;
+    const frame = this.source.grab(this.policy);
+    if (!frame?.analysis) return;
+    const now = this.now();
+    const findings = this.inspector.inspect(frame.analysis, now);
+    // Before uploads start, the inspector's own alert is all there is; nothing queues for later.
+    if (findings.length === 0 || !this.running) return;
+    // Otherwise a red light in view would force an upload on every inspection, well past maxFps.
+    const fresh = findings.filter(f => now - (this.forwardedAt.get(f.type) ?? -Infinity) >= FINDING_COOLDOWN_MS);
+    if (fresh.length === 0) return;
+    fresh.forEach(f => this.forwardedAt.set(f.type, now));
+    this.pendingFindings.push(...fresh);
+    // While an upload is in flight the next tick carries them instead.
+    if (!this.encoding) await this.send(frame, this.difference(frame), now);
+  }
+
+  private difference(frame: GrabbedFrame): number {
+    return this.lastSignature ? gridDifference(frame.signature, this.lastSignature) : 1;
+  }
+
+  private async send(frame: GrabbedFrame, difference: number, now: number) {
+    this.encoding = true;
+    const findings = this.pendingFindings;
+    this.pendingFindings = [];
+    try {
+      const data = await frame.encode();
+      if (!data || !this.running) {
+        if (this.running) this.pendingFindings.unshift(...findings);
+        return;
+      }
+      const bytes = base64ByteLength(data);
+      this.lastSignature = frame.signature;
+      this.lastSentAt = now;
+      this.sent++;
+      this.history.push({ at: now, bytes });
+      this.emit('frame', { data, bytes, difference, findings });
+      this.emit('stats', this.stats);
+    } finally {
+      this.encoding = false;
+    }
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if (!this.running) return;
+      try {
+        await this.tick();
+      } finally {
+        if (this.running) this.schedule(1000 / this.targetFps);
+      }
+    }, delayMs);
+  }
+}
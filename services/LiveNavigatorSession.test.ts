@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppStatus, Hazard } from '../types';
+import { LiveNavigatorSession, TurnCompleteEvent } from './LiveNavigatorSession';
+import { ScriptedLiveTransport, ScriptedStep } from './scriptedTransport';
+import { DEMO_SESSION_SCRIPT } from '../fixtures/demoSession';
+
+const CONFIG = { systemInstruction: 'test' };
+
+function startSession(script: ScriptedStep[]) {
+  const transport = new ScriptedLiveTransport(script);
+  const session = new LiveNavigatorSession(transport, { model: 'test-model', config: CONFIG });
+  const statuses: AppStatus[] = [];
+  session.on('status', s => statuses.push(s));
+  return { transport, session, statuses };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LiveNavigatorSession over a scripted transport', () => {
+  it('replays the demo session into typed events', async () => {
+    const { transport, session, statuses } = startSession(DEMO_SESSION_SCRIPT);
+    const hazards: Hazard[] = [];
+    const turns: TurnCompleteEvent[] = [];
+    const audio: string[] = [];
+    session.on('hazard', h => hazards.push(h));
+    session.on('turnComplete', t => turns.push(t));
+    session.on('audioChunk', c => audio.push(c.mimeType));
+
+    await session.start();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(statuses).toEqual([AppStatus.CONNECTING, AppStatus.ACTIVE]);
+    expect(transport.lastConnectOptions?.model).toBe('test-model');
+    expect(hazards).toHaveLength(1);
+    expect(hazards[0]).toMatchObject({ type: 'stairs', clockDirection: 12, distanceMeters: 2, severity: 'high' });
+    expect(session.hazards.recent(5)).toHaveLength(1);
+    expect(audio).toEqual(['audio/pcm;rate=24000']);
+    expect(turns).toEqual([{
+      userText: '前面是什么？',
+      assistantText: '紧急警告：前方有阶梯，请停下。你正站在人行道上，1点钟方向约2米处有一个消防栓。',
+    }]);
+    // The hazard tool is answered by the session itself, not by listeners.
+    expect(transport.sent).toContainEqual({
+      kind: 'toolResponse',
+      params: { functionResponses: [{ id: 'call-1', name: 'report_hazard', response: { acknowledged: true } }] },
+    });
+    session.stop();
+  });
+
+  it('forwards audio and frames only while active', async () => {
+    const { transport, session } = startSession([]);
+    session.sendAudio('early');
+    await session.start();
+    session.sendAudio('still-connecting');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(session.status).toBe(AppStatus.ACTIVE);
+
+    session.sendAudio('pcm');
+    session.sendFrame('jpeg', 'note');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(transport.sent).toEqual([
+      { kind: 'realtime', params: { media: { data: 'pcm', mimeType: 'audio/pcm;rate=16000' } } },
+      { kind: 'realtime', params: { media: { data: 'jpeg', mimeType: 'image/jpeg' } } },
+      { kind: 'realtime', params: { text: 'note' } },
+    ]);
+    session.stop();
+  });
+
+  it('surfaces tools it does not handle and answers them through the same connection', async () => {
+    const { transport, session } = startSession([
+      { message: { toolCall: { functionCalls: [{ id: 't1', name: 'set_mode', args: { mode: 'read' } }] } } },
+    ]);
+    const calls: string[] = [];
+    session.on('toolCall', ({ id, name }) => {
+      calls.push(name);
+      session.respondToTool(id, name, { mode: 'read' });
+    });
+    await session.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(calls).toEqual(['set_mode']);
+    expect(transport.sent.at(-1)).toEqual({
+      kind: 'toolResponse',
+      params: { functionResponses: [{ id: 't1', name: 'set_mode', response: { mode: 'read' } }] },
+    });
+    session.stop();
+  });
+
+  it('goes quiet after stop', async () => {
+    const { transport, session, statuses } = startSession(DEMO_SESSION_SCRIPT);
+    const turns: TurnCompleteEvent[] = [];
+    session.on('turnComplete', t => turns.push(t));
+    await session.start();
+    await vi.advanceTimersByTimeAsync(500);
+    session.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(statuses.at(-1)).toBe(AppStatus.IDLE);
+    expect(turns).toEqual([]);
+    expect(transport.pendingSteps).toBe(0);
+  });
+});
+
+describe('LiveNavigatorSession reconnects', () => {
+  const reconnect = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, stableMs: 1000 };
+
+  it('gives up on a connection that opens and drops straight away', async () => {
+    const transport = new ScriptedLiveTransport([{ delayMs: 10, close: true }]);
+    const session = new LiveNavigatorSession(transport, { model: 'm', config: CONFIG, reconnect });
+    const delays: number[] = [];
+    const errors: string[] = [];
+    session.on('reconnecting', e => delays.push(e.delayMs));
+    session.on('error', e => errors.push(e.message));
+
+    await session.start();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(delays).toEqual([100, 200, 400]);
+    expect(transport.connectCount).toBe(4);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/after 3 reconnect attempts/);
+    expect(session.status).toBe(AppStatus.IDLE);
+  });
+
+  it('resets the attempt count once a connection has been stable', async () => {
+    const transport = new ScriptedLiveTransport([{ delayMs: 1500, close: true }]);
+    const session = new LiveNavigatorSession(transport, { model: 'm', config: CONFIG, reconnect });
+    const delays: number[] = [];
+    session.on('reconnecting', e => delays.push(e.delayMs));
+
+    await session.start();
+    await vi.advanceTimersByTimeAsync(6000);
+    session.stop();
+
+    // Every connection outlives stableMs, so each drop counts as the first.
+    expect(delays.length).toBeGreaterThan(2);
+    expect(new Set(delays)).toEqual(new Set([100]));
+  });
+
+  it('drops partial transcripts when the connection is lost mid-turn', async () => {
+    const transport = new ScriptedLiveTransport([
+      { delayMs: 10, message: { serverContent: { inputTranscription: { text: '前面' }, outputTranscription: { text: '你正站在' } } } },
+      { delayMs: 10, close: true },
+    ]);
+    const session = new LiveNavigatorSession(transport, { model: 'm', config: CONFIG, reconnect });
+    const texts: string[] = [];
+    session.on('transcription', t => texts.push(`${t.role}:${t.text}`));
+
+    await session.start();
+    await vi.advanceTimersByTimeAsync(150);
+    session.stop();
+
+    expect(texts).toEqual(['user:前面', 'assistant:你正站在', 'user:前面', 'assistant:你正站在']);
+  });
+});
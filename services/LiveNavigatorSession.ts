@@ -0,0 +1,350 @@
+import { LiveConnectConfig, Part } from '@google/genai';
+import { AppStatus, Hazard } from '../types';
+import { TypedEmitter } from '../utils/emitter';
+import { LiveMessage, LiveTransport, LiveTransportConnection, TransportError } from './liveTransport';
+import { HAZARD_HISTORY_TOOL, HazardLog, REPORT_HAZARD_TOOL, parseHazardArgs } from './hazards';
+
+export interface TranscriptionUpdate {
+  role: 'user' | 'assistant';
+  delta: string;
+  text: string;
+}
+
+export interface TurnCompleteEvent {
+  userText: string;
+  assistantText: string;
+}
+
+export interface AudioChunkEvent {
+  data: string;
+  mimeType: string;
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface ToolCallEvent {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LiveNavigatorEvents {
+  status: AppStatus;
+  transcription: TranscriptionUpdate;
+  turnComplete: TurnCompleteEvent;
+  audioChunk: AudioChunkEvent;
+  interrupted: void;
+  reconnecting: ReconnectingEvent;
+  hazard: Hazard;
+  toolCall: ToolCallEvent;
+  error: Error;
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  stableMs: number; // a connection must stay up this long before the attempt count resets
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  stableMs: 10_000,
+};
+
+export interface LiveNavigatorOptions {
+  model: string;
+  config: LiveConnectConfig;
+  reconnect?: Partial<ReconnectPolicy>;
+}
+
+export const reconnectDelay = (attempt: number, policy: ReconnectPolicy): number =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+
+/**
+ * Owns one Live API conversation: connects through a transport, turns raw
+ * server messages into typed events and forwards captured audio and frames.
+ * Dropped connections are retried with exponential backoff and resumed from
+ * the last resumption handle. It has no knowledge of the DOM, so it runs in
+ * a headless test runner.
+ */
+export class LiveNavigatorSession extends TypedEmitter<LiveNavigatorEvents> {
+  readonly hazards = new HazardLog();
+  private connectionPromise: Promise<LiveTransportConnection> | null = null;
+  private currentStatus: AppStatus = AppStatus.IDLE;
+  private inputText = '';
+  private outputText = '';
+  private policy: ReconnectPolicy;
+  private resumptionHandle: string | null = null;
+  private attempt = 0;
+  private generation = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stableTimer: ReturnType<typeof setTimeout> | null = null;
+  private audioOutput = true;
+
+  constructor(private transport: LiveTransport, private options: LiveNavigatorOptions) {
+    super();
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+  }
+
+  get status(): AppStatus {
+    return this.currentStatus;
+  }
+
+  /** False while connected to a text-only backend, whose replies arrive as transcript only. */
+  get speaksAudio(): boolean {
+    return this.audioOutput;
+  }
+
+  async start(): Promise<void> {
+    if (this.currentStatus !== AppStatus.IDLE) return;
+    this.setStatus(AppStatus.CONNECTING);
+    this.inputText = '';
+    this.outputText = '';
+    this.resumptionHandle = null;
+    this.attempt = 0;
+    this.hazards.clear();
+    await this.connect();
+  }
+
+  stop(): void {
+    if (this.currentStatus === AppStatus.IDLE) return;
+    this.generation++;
+    this.clearReconnectTimer();
+    this.clearStableTimer();
+    const pending = this.connectionPromise;
+    this.connectionPromise = null;
+    this.setStatus(AppStatus.IDLE);
+    pending?.then(c => c.close(), () => {});
+  }
+
+  sendAudio(base64Pcm: string, mimeType = 'audio/pcm;rate=16000'): void {
+    this.withConnection(c => c.sendRealtimeInput({ media: { data: base64Pcm, mimeType } }));
+  }
+
+  /** `note` travels as realtime text right behind the frame, e.g. local pre-filter findings. */
+  sendFrame(base64Jpeg: string, note?: string): void {
+    this.withConnection(c => {
+      c.sendRealtimeInput({ media: { data: base64Jpeg, mimeType: 'image/jpeg' } });
+      if (note) c.sendRealtimeInput({ text: note });
+    });
+  }
+
+  sendText(text: string, turnComplete = true): void {
+    this.sendContent([{ text }], turnComplete);
+  }
+
+  /** A client turn with mixed parts, e.g. text plus reference images. */
+  sendContent(parts: Part[], turnComplete = true): void {
+    this.withConnection(c => c.sendClientContent({ turns: [{ role: 'user', parts }], turnComplete }));
+  }
+
+  /**
+   * A question the user typed. It goes into the user transcript like speech
+   * would, so the journal and turn events do not care how it was asked.
+   */
+  sendUserText(text: string): void {
+    if (this.currentStatus !== AppStatus.ACTIVE) return;
+    const delta = this.inputText ? ` ${text}` : text;
+    this.inputText += delta;
+    this.emit('transcription', { role: 'user', delta, text: this.inputText });
+    this.sendText(text);
+  }
+
+  /** Manual turn-taking for push-to-talk and local VAD; the config must disable automatic activity detection. */
+  startActivity(): void {
+    this.withConnection(c => c.sendRealtimeInput({ activityStart: {} }));
+  }
+
+  endActivity(): void {
+    this.withConnection(c => c.sendRealtimeInput({ activityEnd: {} }));
+  }
+
+  /** Replaces the connect config used by later reconnects, e.g. after a mode change. */
+  setConfig(config: LiveConnectConfig): void {
+    this.options = { ...this.options, config };
+  }
+
+  /** Answers a tool call that was surfaced through the `toolCall` event. */
+  respondToTool(id: string | undefined, name: string, response: Record<string, unknown>): void {
+    this.withConnection(c => c.sendToolResponse({ functionResponses: [{ id, name, response }] }));
+  }
+
+  private async connect(): Promise<void> {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+
+    const pending = this.transport.connect(
+      {
+        model: this.options.model,
+        config: {
+          ...this.options.config,
+          sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
+        },
+      },
+      {
+        onopen: () => {
+          if (!isCurrent()) return;
+          // A server that accepts and then drops at once must still run out of attempts.
+          this.clearStableTimer();
+          this.stableTimer = setTimeout(() => {
+            this.stableTimer = null;
+            this.attempt = 0;
+          }, this.policy.stableMs);
+          this.setStatus(AppStatus.ACTIVE);
+        },
+        onmessage: (message) => {
+          if (isCurrent()) this.handleMessage(message);
+        },
+        onerror: (err) => {
+          if (isCurrent()) this.handleDrop(err);
+        },
+        onclose: (reason) => {
+          if (isCurrent()) this.handleDrop(new Error(reason || 'Connection closed'));
+        },
+      },
+    );
+    this.connectionPromise = pending;
+
+    try {
+      const connection = await pending;
+      if (!isCurrent()) connection.close();
+      else this.audioOutput = connection.audioOutput !== false;
+    } catch (err: any) {
+      if (isCurrent()) this.handleDrop(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  private handleDrop(err: Error) {
+    // Only an established session is worth resuming; a failed first connect is reported as is.
+    if (this.currentStatus === AppStatus.CONNECTING || (err instanceof TransportError && !err.retryable)) {
+      this.fail(err);
+      return;
+    }
+    if (this.attempt >= this.policy.maxAttempts) {
+      this.fail(new Error(`Connection lost after ${this.attempt} reconnect attempts: ${err.message}`));
+      return;
+    }
+
+    const stale = this.connectionPromise;
+    this.generation++;
+    this.connectionPromise = null;
+    this.clearStableTimer();
+    stale?.then(c => c.close(), () => {});
+    // A turn cannot span connections; half a sentence must not be glued onto the next one.
+    this.inputText = '';
+    this.outputText = '';
+
+    this.attempt++;
+    const delayMs = reconnectDelay(this.attempt, this.policy);
+    this.setStatus(AppStatus.RECONNECTING);
+    this.emit('reconnecting', { attempt: this.attempt, delayMs, reason: err.message });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delayMs);
+  }
+
+  private withConnection(fn: (connection: LiveTransportConnection) => void) {
+    if (this.currentStatus !== AppStatus.ACTIVE || !this.connectionPromise) return;
+    const pending = this.connectionPromise;
+    pending.then(connection => {
+      if (this.connectionPromise === pending) fn(connection);
+    }, () => {});
+  }
+
+  private handleMessage(message: LiveMessage) {
+    const update = message.sessionResumptionUpdate;
+    if (update?.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+    if (message.goAway) {
+      // The server is about to drop us; move to a fresh connection while the handle is valid.
+      this.handleDrop(new Error('Server requested reconnect'));
+      return;
+    }
+
+    message.toolCall?.functionCalls?.forEach(call => {
+      if (call.name) this.handleToolCall({ id: call.id, name: call.name, args: call.args ?? {} });
+    });
+
+    const content = message.serverContent;
+    if (!content) return;
+
+    if (content.inputTranscription?.text) {
+      const delta = content.inputTranscription.text;
+      this.inputText += delta;
+      this.emit('transcription', { role: 'user', delta, text: this.inputText });
+    }
+    if (content.outputTranscription?.text) {
+      const delta = content.outputTranscription.text;
+      this.outputText += delta;
+      this.emit('transcription', { role: 'assistant', delta, text: this.outputText });
+    }
+
+    if (content.turnComplete) {
+      this.emit('turnComplete', { userText: this.inputText, assistantText: this.outputText });
+      this.inputText = '';
+      this.outputText = '';
+    }
+
+    const inlineData = content.modelTurn?.parts?.[0]?.inlineData;
+    if (inlineData?.data) {
+      this.emit('audioChunk', { data: inlineData.data, mimeType: inlineData.mimeType ?? 'audio/pcm;rate=24000' });
+    }
+
+    if (content.interrupted) {
+      this.emit('interrupted', undefined);
+    }
+  }
+
+  // Hazard tools are part of the core pipeline; anything else goes to listeners.
+  private handleToolCall(call: ToolCallEvent) {
+    if (call.name === REPORT_HAZARD_TOOL) {
+      const hazard = parseHazardArgs(call.args);
+      if (!hazard) {
+        this.respondToTool(call.id, call.name, { error: 'Invalid hazard arguments' });
+        return;
+      }
+      this.hazards.add(hazard);
+      this.emit('hazard', hazard);
+      this.respondToTool(call.id, call.name, { acknowledged: true });
+    } else if (call.name === HAZARD_HISTORY_TOOL) {
+      const limit = Number(call.args.limit) || 5;
+      this.respondToTool(call.id, call.name, { hazards: this.hazards.recent(limit) });
+    } else {
+      this.emit('toolCall', call);
+    }
+  }
+
+  private fail(err: Error) {
+    this.emit('error', err);
+    this.stop();
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private clearStableTimer() {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private setStatus(status: AppStatus) {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.emit('status', status);
+  }
+}
@@ -0,0 +1,275 @@
+import { TypedEmitter } from '../utils/emitter';
+
+export type CameraResolution = 'low' | 'medium' | 'high';
+
+export interface CameraPreferences {
+  deviceId: string | null; // null = let facingMode pick the rear camera
+  resolution: CameraResolution;
+  frameRate: number;
+  torch: boolean;
+}
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  resolution: 'medium',
+  frameRate: 15,
+  torch: false,
+};
+
+export const RESOLUTIONS: Record<CameraResolution, { width: number; height: number; label: string }> = {
+  low: { width: 640, height: 480, label: '480p' },
+  medium: { width: 1280, height: 720, label: '720p' },
+  high: { width: 1920, height: 1080, label: '1080p' },
+};
+
+const CAMERA_PREFERENCES_KEY = 'openclaw.camera.v1';
+
+export interface CameraInfo {
+  deviceId: string;
+  label: string;
+  facing: 'environment' | 'user' | 'unknown';
+}
+
+export type MediaDeviceKind = 'camera' | 'microphone';
+
+export type MediaErrorKind =
+  | 'permission_denied'
+  | 'not_found'
+  | 'in_use'
+  | 'overconstrained'
+  | 'insecure_context'
+  | 'unsupported'
+  | 'unknown';
+
+const DEVICE_NAMES: Record<MediaDeviceKind, string> = { camera: '摄像头 (camera)', microphone: '麦克风 (microphone)' };
+
+const ERROR_MESSAGES: Record<MediaErrorKind, (device: string) => string> = {
+  permission_denied: d => `${d} 权限被拒绝。请在浏览器设置中允许访问后重试。 Permission to use the ${d} was denied.`,
+  not_found: d => `未找到${d}。 No ${d} was found on this device.`,
+  in_use: d => `${d}正被其他应用占用。 The ${d} is in use by another app or could not be started.`,
+  overconstrained: d => `${d}不支持所选设置，请降低分辨率。 The ${d} does not support the selected settings.`,
+  insecure_context: () => '需要 HTTPS 才能访问摄像头和麦克风。 Camera and microphone need a secure (HTTPS) page.',
+  unsupported: () => '此浏览器不支持摄像头访问。 This browser cannot capture media.',
+  unknown: d => `无法启动${d}。 Could not start the ${d}.`,
+};
+
+/** A getUserMedia failure tied to the device that caused it, with a message fit for the user. */
+export class MediaDeviceError extends Error {
+  constructor(readonly kind: MediaErrorKind, readonly device: MediaDeviceKind, readonly cause?: unknown) {
+    super(ERROR_MESSAGES[kind](DEVICE_NAMES[device]));
+    this.name = 'MediaDeviceError';
+  }
+}
+
+export function classifyMediaError(err: unknown, device: MediaDeviceKind): MediaDeviceError {
+  if (err instanceof MediaDeviceError) return err;
+  const name = (err as { name?: string } | null)?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return new MediaDeviceError('permission_denied', device, err);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return new MediaDeviceError('not_found', device, err);
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new MediaDeviceError('in_use', device, err);
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      return new MediaDeviceError('overconstrained', device, err);
+  }
+  return new MediaDeviceError('unknown', device, err);
+}
+
+const guessFacing = (label: string): CameraInfo['facing'] => {
+  if (/back|rear|environment|后|後|wide|ultra/i.test(label)) return 'environment';
+  if (/front|user|face|前/i.test(label)) return 'user';
+  return 'unknown';
+};
+
+export function videoConstraints(prefs: CameraPreferences): MediaTrackConstraints {
+  const { width, height } = RESOLUTIONS[prefs.resolution];
+  return {
+    ...(prefs.deviceId ? { deviceId: { exact: prefs.deviceId } } : { facingMode: { ideal: 'environment' } }),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: prefs.frameRate },
+  };
+}
+
+export interface MediaDeviceEvents {
+  videoStream: MediaStream; // a new camera stream; attach it to the <video> element
+  cameras: CameraInfo[];
+  torch: boolean;
+}
+
+/**
+ * Owns the microphone and camera streams of one session. Audio and video are
+ * opened separately so a failure names the right device, and the camera can
+ * be swapped or re-tuned without touching the microphone or the Live session.
+ */
+export class MediaDeviceManager extends TypedEmitter<MediaDeviceEvents> {
+  private audio: MediaStream | null = null;
+  private video: MediaStream | null = null;
+  private prefs: CameraPreferences;
+  private disposed = false;
+
+  constructor(prefs: Partial<CameraPreferences> = {}) {
+    super();
+    this.prefs = { ...DEFAULT_CAMERA_PREFERENCES, ...prefs };
+  }
+
+  get preferences(): CameraPreferences {
+    return this.prefs;
+  }
+
+  get videoStream(): MediaStream | null {
+    return this.video;
+  }
+
+  get videoTrack(): MediaStreamTrack | null {
+    return this.video?.getVideoTracks()[0] ?? null;
+  }
+
+  get torchSupported(): boolean {
+    const track = this.videoTrack;
+    if (!track || typeof track.getCapabilities !== 'function') return false;
+    return Boolean((track.getCapabilities() as MediaTrackCapabilities & { torch?: boolean }).torch);
+  }
+
+  /** Text-only sessions pass `audio: false` and never ask for the microphone. */
+  async open({ audio = true }: { audio?: boolean } = {}): Promise<{ audio: MediaStream | null; video: MediaStream }> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      const kind = typeof window !== 'undefined' && !window.isSecureContext ? 'insecure_context' : 'unsupported';
+      throw new MediaDeviceError(kind, 'camera');
+    }
+    if (audio) {
+      try {
+        this.audio = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true },
+        });
+      } catch (err) {
+        throw classifyMediaError(err, 'microphone');
+      }
+    }
+    this.video = await this.openCamera(this.prefs);
+    if (this.disposed) {
+      this.stopAll();
+      throw new Error('Media manager disposed while opening');
+    }
+    this.emit('videoStream', this.video);
+    // Labels are only available once permission has been granted.
+    this.refreshCameras();
+    if (this.prefs.torch) this.setTorch(true);
+    return { audio: this.audio, video: this.video };
+  }
+
+  async listCameras(): Promise<CameraInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const activeId = this.videoTrack?.getSettings().deviceId;
+    const activeFacing = this.videoTrack?.getSettings().facingMode;
+    return devices
+      .filter(d => d.kind === 'videoinput')
+      .map((d, i) => ({
+        deviceId: d.deviceId,
+        label: d.label || `Camera ${i + 1}`,
+        facing: d.deviceId === activeId && (activeFacing === 'environment' || activeFacing === 'user')
+          ? activeFacing
+          : guessFacing(d.label),
+      }));
+  }
+
+  /** Swaps to another camera mid-session. The old stream keeps running until the new one is live. */
+  async switchCamera(deviceId: string | null): Promise<void> {
+    const next = { ...this.prefs, deviceId, torch: false };
+    const stream = await this.openCamera(next);
+    if (this.disposed) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+    this.video?.getTracks().forEach(t => t.stop());
+    this.video = stream;
+    this.prefs = next;
+    this.emit('videoStream', stream);
+    this.emit('torch', false);
+    this.refreshCameras();
+  }
+
+  async setResolution(resolution: CameraResolution): Promise<void> {
+    const next = { ...this.prefs, resolution };
+    const track = this.videoTrack;
+    if (track) {
+      const { width, height } = RESOLUTIONS[resolution];
+      try {
+        await track.applyConstraints({ width: { ideal: width }, height: { ideal: height }, frameRate: { ideal: next.frameRate } });
+      } catch (err) {
+        throw classifyMediaError(err, 'camera');
+      }
+    }
+    this.prefs = next;
+  }
+
+  /** Flashlight for dark stairwells. Resolves false when the camera has no torch. */
+  async setTorch(on: boolean): Promise<boolean> {
+    const track = this.videoTrack;
+    if (!track || !this.torchSupported) {
+      this.emit('torch', false);
+      return false;
+    }
+    try {
+      await track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+      this.prefs = { ...this.prefs, torch: on };
+      this.emit('torch', on);
+      return true;
+    } catch {
+      this.emit('torch', false);
+      return false;
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.stopAll();
+    this.removeAllListeners();
+  }
+
+  private async openCamera(prefs: CameraPreferences): Promise<MediaStream> {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(prefs) });
+    } catch (err) {
+      // A remembered camera may be gone (unplugged, different phone); fall back to the rear camera.
+      if (prefs.deviceId && classifyMediaError(err, 'camera').kind === 'overconstrained') {
+        return this.openCamera({ ...prefs, deviceId: null });
+      }
+      throw classifyMediaError(err, 'camera');
+    }
+  }
+
+  private refreshCameras() {
+    this.listCameras().then(cameras => {
+      if (!this.disposed) this.emit('cameras', cameras);
+    }, () => {});
+  }
+
+  private stopAll() {
+    this.audio?.getTracks().forEach(t => t.stop());
+    this.video?.getTracks().forEach(t => t.stop());
+    this.audio = null;
+    this.video = null;
+  }
+}
+
+export function loadCameraPreferences(): CameraPreferences {
+  try {
+    return { ...DEFAULT_CAMERA_PREFERENCES, ...JSON.parse(localStorage.getItem(CAMERA_PREFERENCES_KEY) || '{}') };
+  } catch {
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+}
+
+export function saveCameraPreferences(prefs: CameraPreferences): void {
+  localStorage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify(prefs));
+}
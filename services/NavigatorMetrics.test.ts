@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { NavigatorMetrics, percentile } from './NavigatorMetrics';
+
+// A metrics instance on a clock the test moves by hand.
+function withClock() {
+  const clock = { now: 1_000_000 };
+  const metrics = new NavigatorMetrics(() => clock.now);
+  const advance = (ms: number) => { clock.now += ms; };
+  return { metrics, advance };
+}
+
+const samples = (...ms: number[]) => ms.map((value, at) => ({ at, ms: value }));
+
+describe('percentile', () => {
+  it('picks the nearest-rank sample', () => {
+    const twenty = samples(...Array.from({ length: 20 }, (_, i) => (i + 1) * 100));
+    expect(percentile(twenty, 95)).toBe(1900);
+    expect(percentile(twenty, 50)).toBe(1000);
+    expect(percentile(twenty, 100)).toBe(2000);
+    expect(percentile(twenty, 0)).toBe(100);
+  });
+
+  it('does not depend on the order samples arrived in', () => {
+    expect(percentile(samples(900, 100, 500), 50)).toBe(500);
+    expect(percentile(samples(900, 100, 500), 95)).toBe(900);
+  });
+
+  it('has nothing to report without samples', () => {
+    expect(percentile([], 95)).toBeNull();
+  });
+});
+
+describe('NavigatorMetrics', () => {
+  it('counts frames and upload bytes over the last five seconds', () => {
+    const { metrics, advance } = withClock();
+    metrics.recordFrame(10_000);
+    metrics.recordAudioUpload(640, 0);
+    advance(4000);
+    metrics.recordFrame(20_000);
+    expect(metrics.snapshot()).toMatchObject({ framesPerSecond: 2 / 5, uploadBytesPerSecond: 30_640 / 5 });
+
+    advance(2000);
+    expect(metrics.snapshot()).toMatchObject({ framesPerSecond: 1 / 5, uploadBytesPerSecond: 20_000 / 5 });
+    expect(metrics.export().totals).toEqual({ frames: 2, frameBytes: 30_000, audioBytes: 640 });
+  });
+
+  it('times a response from the end of speech to the first model audio', () => {
+    const { metrics, advance } = withClock();
+    metrics.recordAudioUpload(640, 0.2);
+    advance(100);
+    metrics.recordAudioUpload(640, 0.1);
+    advance(100);
+    // Silence after speech does not move the start.
+    metrics.recordAudioUpload(640, 0);
+    advance(600);
+    metrics.recordModelAudio();
+    advance(50);
+    metrics.recordModelAudio();
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.responseLatencyMs).toBe(700);
+    expect(snapshot.avgResponseLatencyMs).toBe(700);
+    expect(metrics.export().responseLatencies).toHaveLength(1);
+    expect(snapshot.micLevel).toBe(0);
+  });
+
+  it('times a hazard from the first frame of the turn', () => {
+    const { metrics, advance } = withClock();
+    metrics.recordFrame(1000);
+    advance(500);
+    metrics.recordFrame(1000);
+    advance(700);
+    metrics.recordHazard();
+    // A second hazard in the same turn has no frame to measure from.
+    metrics.recordHazard();
+    expect(metrics.snapshot().hazardLatencyMs).toBe(1200);
+
+    metrics.recordFrame(1000);
+    metrics.recordTurnComplete();
+    advance(300);
+    metrics.recordHazard();
+    expect(metrics.export().hazardLatencies).toHaveLength(1);
+  });
+
+  it('reports the 95th percentile alongside the average', () => {
+    const { metrics, advance } = withClock();
+    for (const ms of [400, 500, 600, 3000]) {
+      metrics.recordAudioUpload(640, 0.5);
+      advance(ms);
+      metrics.recordModelAudio();
+    }
+    const snapshot = metrics.snapshot();
+    expect(snapshot.avgResponseLatencyMs).toBe(1125);
+    expect(snapshot.p95ResponseLatencyMs).toBe(3000);
+    expect(snapshot.p95HazardLatencyMs).toBeNull();
+  });
+
+  it('counts reconnects and keeps the playback queue and level history', () => {
+    const { metrics } = withClock();
+    metrics.recordReconnect();
+    metrics.recordReconnect();
+    metrics.recordPlaybackQueue(0.25);
+    for (let i = 0; i < 50; i++) metrics.recordAudioUpload(10, i / 100);
+
+    expect(metrics.snapshot()).toMatchObject({ reconnects: 2, playbackQueueMs: 250, micLevel: 0.49 });
+    expect(metrics.levelHistory).toHaveLength(40);
+    expect(metrics.levelHistory[0]).toBe(0.1);
+    metrics.recordPlaybackQueue(-1);
+    expect(metrics.snapshot().playbackQueueMs).toBe(0);
+  });
+});
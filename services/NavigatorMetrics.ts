@@ -0,0 +1,157 @@
+const RATE_WINDOW_MS = 5000;
+const VOICE_LEVEL = 0.02;
+const LEVEL_HISTORY = 40;
+const MAX_SAMPLES = 500;
+
+export interface LatencySample {
+  at: number;
+  ms: number;
+}
+
+export interface MetricsSnapshot {
+  framesPerSecond: number;
+  uploadBytesPerSecond: number;
+  responseLatencyMs: number | null;
+  avgResponseLatencyMs: number | null;
+  p95ResponseLatencyMs: number | null;
+  hazardLatencyMs: number | null;
+  p95HazardLatencyMs: number | null;
+  playbackQueueMs: number;
+  reconnects: number;
+  micLevel: number;
+}
+
+export interface MetricsExport {
+  startedAt: string;
+  exportedAt: string;
+  snapshot: MetricsSnapshot;
+  responseLatencies: LatencySample[];
+  hazardLatencies: LatencySample[];
+  reconnectTimes: number[];
+  totals: { frames: number; frameBytes: number; audioBytes: number };
+}
+
+const average = (samples: LatencySample[]) =>
+  samples.length ? samples.reduce((sum, s) => sum + s.ms, 0) / samples.length : null;
+
+// Nearest-rank percentile (0-100): always one of the samples, never an interpolation between two.
+export const percentile = (samples: LatencySample[], p: number): number | null => {
+  if (!samples.length) return null;
+  const sorted = samples.map(s => s.ms).sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+};
+
+const pushBounded = <T>(list: T[], item: T) => {
+  list.push(item);
+  if (list.length > MAX_SAMPLES) list.shift();
+};
+
+/**
+ * Live telemetry for one navigation session. Producers call the record*
+ * methods as things happen; the HUD polls `snapshot()` and field tests keep
+ * `export()`.
+ *
+ * Response latency runs from the last mic block above the voice level to the
+ * first model audio chunk after it. Hazard latency runs from the first frame
+ * uploaded after the previous model turn to the next hazard report.
+ */
+export class NavigatorMetrics {
+  private startedAt: number;
+  private uploads: { at: number; bytes: number; frame: boolean }[] = [];
+  private responseLatencies: LatencySample[] = [];
+  private hazardLatencies: LatencySample[] = [];
+  private reconnectTimes: number[] = [];
+  private levels: number[] = [];
+  private lastVoiceAt: number | null = null;
+  private awaitingResponse = false;
+  private firstFrameOfTurnAt: number | null = null;
+  private playbackQueueMs = 0;
+  private totals = { frames: 0, frameBytes: 0, audioBytes: 0 };
+
+  constructor(private now: () => number = Date.now) {
+    this.startedAt = now();
+  }
+
+  recordFrame(bytes: number): void {
+    const at = this.now();
+    this.uploads.push({ at, bytes, frame: true });
+    this.totals.frames++;
+    this.totals.frameBytes += bytes;
+    if (this.firstFrameOfTurnAt === null) this.firstFrameOfTurnAt = at;
+  }
+
+  recordAudioUpload(bytes: number, level: number): void {
+    const at = this.now();
+    this.uploads.push({ at, bytes, frame: false });
+    this.totals.audioBytes += bytes;
+    this.levels.push(level);
+    if (this.levels.length > LEVEL_HISTORY) this.levels.shift();
+    if (level >= VOICE_LEVEL) {
+      this.lastVoiceAt = at;
+      this.awaitingResponse = true;
+    }
+  }
+
+  recordModelAudio(): void {
+    if (!this.awaitingResponse || this.lastVoiceAt === null) return;
+    this.awaitingResponse = false;
+    const at = this.now();
+    pushBounded(this.responseLatencies, { at, ms: at - this.lastVoiceAt });
+  }
+
+  recordHazard(): void {
+    if (this.firstFrameOfTurnAt === null) return;
+    const at = this.now();
+    pushBounded(this.hazardLatencies, { at, ms: at - this.firstFrameOfTurnAt });
+    this.firstFrameOfTurnAt = null;
+  }
+
+  recordTurnComplete(): void {
+    this.firstFrameOfTurnAt = null;
+  }
+
+  recordPlaybackQueue(seconds: number): void {
+    this.playbackQueueMs = Math.max(0, seconds * 1000);
+  }
+
+  recordReconnect(): void {
+    this.reconnectTimes.push(this.now());
+  }
+
+  /** Recent mic RMS levels (0..1), oldest first, for the level meter. */
+  get levelHistory(): number[] {
+    return this.levels.slice();
+  }
+
+  snapshot(): MetricsSnapshot {
+    const now = this.now();
+    this.uploads = this.uploads.filter(u => now - u.at <= RATE_WINDOW_MS);
+    const windowSec = RATE_WINDOW_MS / 1000;
+    const last = this.responseLatencies[this.responseLatencies.length - 1];
+    const lastHazard = this.hazardLatencies[this.hazardLatencies.length - 1];
+    return {
+      framesPerSecond: this.uploads.filter(u => u.frame).length / windowSec,
+      uploadBytesPerSecond: this.uploads.reduce((sum, u) => sum + u.bytes, 0) / windowSec,
+      responseLatencyMs: last ? last.ms : null,
+      avgResponseLatencyMs: average(this.responseLatencies),
+      p95ResponseLatencyMs: percentile(this.responseLatencies, 95),
+      hazardLatencyMs: lastHazard ? lastHazard.ms : null,
+      p95HazardLatencyMs: percentile(this.hazardLatencies, 95),
+      playbackQueueMs: this.playbackQueueMs,
+      reconnects: this.reconnectTimes.length,
+      micLevel: this.levels[this.levels.length - 1] ?? 0,
+    };
+  }
+
+  export(): MetricsExport {
+    return {
+      startedAt: new Date(this.startedAt).toISOString(),
+      exportedAt: new Date(this.now()).toISOString(),
+      snapshot: this.snapshot(),
+      responseLatencies: this.responseLatencies.slice(),
+      hazardLatencies: this.hazardLatencies.slice(),
+      reconnectTimes: this.reconnectTimes.slice(),
+      totals: { ...this.totals },
+    };
+  }
+}
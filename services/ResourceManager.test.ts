@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResourceManager } from './ResourceManager';
+
+// Just enough of each Web API for ResourceManager to release it; every release is logged.
+function fakeStream(name: string, log: string[]): MediaStream {
+  const tracks = ['audio', 'video'].map(kind => ({ stop: () => log.push(`${name}.${kind}.stop`) }));
+  return { getTracks: () => tracks } as unknown as MediaStream;
+}
+
+function fakeNode(name: string, log: string[]) {
+  return {
+    onaudioprocess: () => {},
+    disconnect: () => log.push(`${name}.disconnect`),
+  } as unknown as ScriptProcessorNode;
+}
+
+function fakeWorklet(name: string, log: string[]) {
+  return {
+    port: { onmessage: () => {} },
+    disconnect: () => log.push(`${name}.disconnect`),
+  } as unknown as AudioWorkletNode;
+}
+
+function fakeContext(name: string, log: string[]) {
+  const ctx = {
+    state: 'running',
+    close: () => {
+      log.push(`${name}.close`);
+      ctx.state = 'closed';
+      return Promise.resolve();
+    },
+  };
+  return ctx as unknown as AudioContext;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ResourceManager', () => {
+  it('releases every stream, node, context and timer in reverse order on dispose', () => {
+    const log: string[] = [];
+    const resources = new ResourceManager();
+    const ctx = resources.addAudioContext(fakeContext('ctx', log));
+    resources.addStream(fakeStream('mic', log));
+    const processor = resources.addNode(fakeNode('processor', log));
+    const worklet = resources.addNode(fakeWorklet('worklet', log));
+    resources.addStream(fakeStream('camera', log));
+    const ticks = vi.fn();
+    const fired = vi.fn();
+    resources.setInterval(ticks, 100);
+    resources.setTimeout(fired, 1000);
+    resources.add(() => log.push('socket.close'));
+    expect(resources.size).toBe(8);
+
+    vi.advanceTimersByTime(250);
+    resources.dispose();
+
+    expect(log).toEqual([
+      'socket.close',
+      'camera.audio.stop',
+      'camera.video.stop',
+      'worklet.disconnect',
+      'processor.disconnect',
+      'mic.audio.stop',
+      'mic.video.stop',
+      'ctx.close',
+    ]);
+    expect(processor.onaudioprocess).toBeNull();
+    expect(worklet.port.onmessage).toBeNull();
+    expect(ctx.state).toBe('closed');
+    expect(resources.size).toBe(0);
+    expect(resources.isDisposed).toBe(true);
+
+    // Nothing keeps running after stop.
+    vi.advanceTimersByTime(10_000);
+    expect(ticks).toHaveBeenCalledTimes(2);
+    expect(fired).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('releases anything registered after dispose at once', () => {
+    const log: string[] = [];
+    const resources = new ResourceManager();
+    resources.dispose();
+
+    resources.addStream(fakeStream('late', log));
+    const fired = vi.fn();
+    resources.setTimeout(fired, 100);
+    resources.setInterval(fired, 100);
+    vi.advanceTimersByTime(1000);
+
+    expect(log).toEqual(['late.audio.stop', 'late.video.stop']);
+    expect(fired).not.toHaveBeenCalled();
+    expect(resources.size).toBe(0);
+  });
+
+  it('drops a timeout once it has fired and a resource released early', () => {
+    const resources = new ResourceManager();
+    const release = vi.fn();
+    const early = resources.add(release);
+    resources.setTimeout(() => {}, 100);
+    expect(resources.size).toBe(2);
+
+    vi.advanceTimersByTime(100);
+    early();
+    early();
+    expect(resources.size).toBe(0);
+    resources.dispose();
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps releasing when one release throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const resources = new ResourceManager();
+    const first = vi.fn();
+    resources.add(first);
+    resources.add(() => {
+      throw new Error('boom');
+    });
+    resources.dispose();
+
+    expect(first).toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('Failed to release resource', expect.any(Error));
+    warn.mockRestore();
+  });
+});
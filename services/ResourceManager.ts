@@ -0,0 +1,91 @@
+type Disposer = () => void;
+
+/**
+ * Tracks everything a navigation session opens (media tracks, audio nodes and
+ * contexts, timers, the Live socket) and releases it in reverse order on
+ * dispose(). Anything registered after disposal is released immediately, which
+ * covers async setup that finishes after the user already pressed STOP.
+ */
+export class ResourceManager {
+  private disposers: Disposer[] = [];
+  private disposed = false;
+
+  get isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /** Number of resources still held. Zero after dispose(). */
+  get size(): number {
+    return this.disposers.length;
+  }
+
+  add(dispose: Disposer): Disposer {
+    if (this.disposed) {
+      dispose();
+      return dispose;
+    }
+    let done = false;
+    const once = () => {
+      if (done) return;
+      done = true;
+      this.disposers = this.disposers.filter(d => d !== once);
+      dispose();
+    };
+    this.disposers.push(once);
+    return once;
+  }
+
+  addStream(stream: MediaStream): MediaStream {
+    this.add(() => stream.getTracks().forEach(track => track.stop()));
+    return stream;
+  }
+
+  addNode<T extends AudioNode>(node: T): T {
+    this.add(() => {
+      if ('onaudioprocess' in node) {
+        (node as unknown as ScriptProcessorNode).onaudioprocess = null;
+      }
+      if ('port' in node) {
+        (node as unknown as AudioWorkletNode).port.onmessage = null;
+      }
+      node.disconnect();
+    });
+    return node;
+  }
+
+  addAudioContext<T extends BaseAudioContext & { close(): Promise<void> }>(ctx: T): T {
+    this.add(() => {
+      if (ctx.state !== 'closed') ctx.close().catch(() => {});
+    });
+    return ctx;
+  }
+
+  setInterval(fn: () => void, ms: number): Disposer {
+    const id = setInterval(fn, ms);
+    return this.add(() => clearInterval(id));
+  }
+
+  setTimeout(fn: () => void, ms: number): Disposer {
+    let release: Disposer = () => {};
+    const id = setTimeout(() => {
+      release();
+      fn();
+    }, ms);
+    release = this.add(() => clearTimeout(id));
+    return release;
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    const disposers = this.disposers.reverse();
+    this.disposers = [];
+    for (const dispose of disposers) {
+      try {
+        dispose();
+      } catch (err) {
+        console.warn('Failed to release resource', err);
+      }
+    }
+  }
+}
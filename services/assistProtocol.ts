@@ -0,0 +1,80 @@
+import { AppStatus, Hazard, InteractionMode } from '../types';
+
+// Wire format between the navigator app, the caregiver dashboard and server/relayServer.ts.
+
+export type AssistRole = 'navigator' | 'caregiver';
+
+export const RELAY_PATH = '/relay';
+export const ROOM_CODE_PATTERN = /^\d{6}$/;
+export const MAX_CAREGIVERS = 3;
+
+export interface AssistPeer {
+  peerId: string;
+  role: AssistRole;
+}
+
+export type SignalPayload =
+  | { description: RTCSessionDescriptionInit }
+  | { candidate: RTCIceCandidateInit };
+
+// Sent by clients. `to` targets one peer; without it the relay fans out to the other side.
+// A navigator's join creates the room; a caregiver's waits until the navigator sends `admit`.
+export type AssistClientMessage =
+  | { type: 'join'; room: string; role: AssistRole }
+  | { type: 'admit'; peerId: string; accept: boolean }
+  | { type: 'signal'; to: string; signal: SignalPayload }
+  | { type: 'transcript'; role: 'user' | 'assistant'; text: string; final: boolean }
+  | { type: 'hazard'; hazard: Hazard }
+  | { type: 'status'; status: AppStatus; mode: InteractionMode }
+  | { type: 'talk'; active: boolean };
+
+// What the relay passes between the two sides; joining and admitting are between a client and the relay.
+export type AssistForwardedMessage = Exclude<AssistClientMessage, { type: 'join' | 'admit' }>;
+
+// Sent by the relay. Forwarded client messages arrive with the sender's id in `from`.
+export type AssistServerMessage =
+  | { type: 'joined'; peerId: string; peers: AssistPeer[] }
+  | { type: 'pending' } // to a caregiver, until the navigator answers
+  | { type: 'peer'; event: 'requested' | 'joined' | 'left'; peer: AssistPeer }
+  | { type: 'error'; code: string; message: string }
+  | (AssistForwardedMessage & { from: string });
+
+const CLIENT_TYPES = new Set<AssistClientMessage['type']>(['join', 'admit', 'signal', 'transcript', 'hazard', 'status', 'talk']);
+
+/** Shape check only; the relay forwards payloads it does not need to understand. */
+export function parseClientMessage(raw: string): AssistClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const message = data as Partial<AssistClientMessage> | null;
+  if (!message || typeof message !== 'object' || !CLIENT_TYPES.has(message.type as AssistClientMessage['type'])) {
+    return null;
+  }
+  if (message.type === 'join') {
+    const join = message as Partial<Extract<AssistClientMessage, { type: 'join' }>>;
+    if (typeof join.room !== 'string' || !ROOM_CODE_PATTERN.test(join.room)) return null;
+    if (join.role !== 'navigator' && join.role !== 'caregiver') return null;
+  }
+  if (message.type === 'admit') {
+    const admit = message as Partial<Extract<AssistClientMessage, { type: 'admit' }>>;
+    if (typeof admit.peerId !== 'string' || typeof admit.accept !== 'boolean') return null;
+  }
+  if (message.type === 'signal' && typeof (message as { to?: unknown }).to !== 'string') return null;
+  return message as AssistClientMessage;
+}
+
+export function createRoomCode(): string {
+  const value = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+  return value.toString().padStart(6, '0');
+}
+
+// Same origin as the app; the Vite dev server proxies the path to the relay.
+export function relayUrl(location: Pick<Location, 'protocol' | 'host'> = window.location): string {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${RELAY_PATH}`;
+}
+
+// LAN only: host candidates are enough, and no STUN/TURN server is contacted.
+export const RTC_CONFIG: RTCConfiguration = { iceServers: [] };
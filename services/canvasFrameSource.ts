@@ -0,0 +1,88 @@
+import { FramePolicy, RedactionPolicy } from '../types';
+import { ANALYSIS_HEIGHT, ANALYSIS_WIDTH, SIGNATURE_COLS, SIGNATURE_ROWS, fitWithin, lumaGrid } from '../utils/frames';
+import { FrameSource, GrabbedFrame } from './FrameScheduler';
+import { Region, redactCanvas } from './redaction';
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export interface CanvasFrameSourceOptions {
+  redaction: RedactionPolicy;
+  onRedact?: (regions: Region[]) => void;
+}
+
+/**
+ * Draws the current video frame, downscaled to the policy's bounds, into
+ * `canvas`, and redacts it in place before anything else reads the pixels.
+ * The signature and the pre-filter copy come from small side canvases so
+ * neither ever touches full-resolution pixels.
+ */
+export function createCanvasFrameSource(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  options: CanvasFrameSourceOptions,
+): FrameSource {
+  const thumb = document.createElement('canvas');
+  thumb.width = SIGNATURE_COLS;
+  thumb.height = SIGNATURE_ROWS;
+  const thumbCtx = thumb.getContext('2d', { willReadFrequently: true });
+  const analysis = document.createElement('canvas');
+  analysis.width = ANALYSIS_WIDTH;
+  analysis.height = ANALYSIS_HEIGHT;
+  const analysisCtx = analysis.getContext('2d', { willReadFrequently: true });
+
+  return {
+    grab(policy: FramePolicy): GrabbedFrame | null {
+      if (!video.videoWidth || !video.videoHeight || !thumbCtx) return null;
+      const ctx = canvas.getContext('2d', { willReadFrequently: options.redaction !== 'off' });
+      if (!ctx) return null;
+
+      const { width, height } = fitWithin(video.videoWidth, video.videoHeight, policy.maxWidth, policy.maxHeight);
+      canvas.width = width;
+      canvas.height = height;
+      ctx.drawImage(video, 0, 0, width, height);
+      const regions = redactCanvas(ctx, width, height, options.redaction);
+      options.onRedact?.(regions);
+
+      thumbCtx.drawImage(canvas, 0, 0, SIGNATURE_COLS, SIGNATURE_ROWS);
+      const pixels = thumbCtx.getImageData(0, 0, SIGNATURE_COLS, SIGNATURE_ROWS).data;
+      const signature = lumaGrid(pixels, SIGNATURE_COLS, SIGNATURE_ROWS);
+
+      let analysisFrame: ImageData | undefined;
+      if (analysisCtx) {
+        analysisCtx.drawImage(canvas, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+        analysisFrame = analysisCtx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+      }
+
+      return {
+        signature,
+        analysis: analysisFrame,
+        encode: () => new Promise<string | null>((resolve) => {
+          canvas.toBlob((blob) => {
+            if (!blob) return resolve(null);
+            blobToBase64(blob).then(resolve, () => resolve(null));
+          }, 'image/jpeg', policy.jpegQuality);
+        }),
+      };
+    },
+  };
+}
+
+// Small JPEG data URL of whatever the frame canvas last held, for the journal.
+export function canvasThumbnail(canvas: HTMLCanvasElement, maxSize = 160): string | null {
+  if (!canvas.width || !canvas.height) return null;
+  const { width, height } = fitWithin(canvas.width, canvas.height, maxSize, maxSize);
+  const thumb = document.createElement('canvas');
+  thumb.width = width;
+  thumb.height = height;
+  const ctx = thumb.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(canvas, 0, 0, width, height);
+  return thumb.toDataURL('image/jpeg', 0.6);
+}
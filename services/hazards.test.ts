@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Hazard } from '../types';
+import { HAZARD_EARCONS, HAZARD_SEVERITIES, HAZARD_VIBRATIONS, HazardLog, describeHazard, parseHazardArgs } from './hazards';
+
+const ARGS = { hazard_type: 'stairs', clock_direction: 12, distance_meters: 2, severity: 'high', description: '三级向下台阶' };
+
+describe('parseHazardArgs', () => {
+  it('turns a report_hazard call into a hazard', () => {
+    expect(parseHazardArgs(ARGS, 1000)).toMatchObject({
+      type: 'stairs',
+      severity: 'high',
+      clockDirection: 12,
+      distanceMeters: 2,
+      description: '三级向下台阶',
+      timestamp: 1000,
+    });
+  });
+
+  it('gives every hazard its own id, even in the same millisecond', () => {
+    expect(parseHazardArgs(ARGS, 1000)!.id).not.toBe(parseHazardArgs(ARGS, 1000)!.id);
+  });
+
+  it('rejects unknown types and severities and missing numbers', () => {
+    expect(parseHazardArgs(undefined)).toBeNull();
+    expect(parseHazardArgs({ ...ARGS, hazard_type: 'pothole' })).toBeNull();
+    expect(parseHazardArgs({ ...ARGS, severity: 'critical' })).toBeNull();
+    expect(parseHazardArgs({ ...ARGS, clock_direction: 'ahead' })).toBeNull();
+    expect(parseHazardArgs({ ...ARGS, distance_meters: undefined })).toBeNull();
+  });
+
+  it('accepts numbers sent as strings and keeps distances non-negative', () => {
+    expect(parseHazardArgs({ ...ARGS, clock_direction: '3', distance_meters: '1.5' })).toMatchObject({ clockDirection: 3, distanceMeters: 1.5 });
+    expect(parseHazardArgs({ ...ARGS, distance_meters: -4 })!.distanceMeters).toBe(0);
+  });
+
+  it('drops a description that is not text', () => {
+    expect(parseHazardArgs({ ...ARGS, description: 42 })!.description).toBeUndefined();
+  });
+
+  it('wraps clock directions onto the 1-12 dial', () => {
+    const clock = (value: unknown) => parseHazardArgs({ ...ARGS, clock_direction: value })!.clockDirection;
+    expect(clock(0)).toBe(12);
+    expect(clock(13)).toBe(1);
+    expect(clock(24)).toBe(12);
+    expect(clock(-1)).toBe(11);
+    expect(clock(2.6)).toBe(3);
+  });
+});
+
+describe('severity feedback', () => {
+  it('escalates earcons and vibration with severity', () => {
+    const pulses = HAZARD_SEVERITIES.map(s => HAZARD_EARCONS[s].length);
+    const buzz = HAZARD_SEVERITIES.map(s => HAZARD_VIBRATIONS[s].reduce((sum, ms) => sum + ms, 0));
+    expect(pulses).toEqual([...pulses].sort((a, b) => a - b));
+    expect(new Set(pulses).size).toBe(HAZARD_SEVERITIES.length);
+    expect(buzz).toEqual([...buzz].sort((a, b) => a - b));
+    expect(new Set(buzz).size).toBe(HAZARD_SEVERITIES.length);
+  });
+});
+
+describe('describeHazard', () => {
+  const hazard: Hazard = { ...parseHazardArgs(ARGS)!, clockDirection: 1 };
+
+  it('reads the clock direction and distance in the profile language', () => {
+    expect(describeHazard(hazard)).toBe('1点钟方向，约2米处有台阶（三级向下台阶）');
+    expect(describeHazard(hazard, 'en-US')).toBe("Stairs at 1 o'clock, about 2 meters (三级向下台阶)");
+  });
+
+  it('marks on-device findings as possible', () => {
+    const local: Hazard = { ...hazard, description: undefined, source: 'local' };
+    expect(describeHazard(local)).toBe('1点钟方向，约2米处可能有台阶');
+    expect(describeHazard(local, 'en-US')).toBe("Possible Stairs at 1 o'clock, about 2 meters");
+  });
+});
+
+describe('HazardLog', () => {
+  it('keeps the newest hazards first, up to its capacity', () => {
+    const log = new HazardLog(2);
+    const [a, b, c] = [1, 2, 3].map(n => parseHazardArgs({ ...ARGS, clock_direction: n })!);
+    log.add(a);
+    log.add(b);
+    log.add(c);
+    expect(log.recent()).toEqual([c, b]);
+    expect(log.recent(1)).toEqual([c]);
+    log.clear();
+    expect(log.recent()).toEqual([]);
+  });
+});
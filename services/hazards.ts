@@ -0,0 +1,118 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { Hazard, HazardSeverity, HazardType, ProfileLanguage } from '../types';
+
+export const REPORT_HAZARD_TOOL = 'report_hazard';
+export const HAZARD_HISTORY_TOOL = 'get_hazard_history';
+
+export const HAZARD_TYPES: HazardType[] = ['stairs', 'vehicle', 'red_light', 'obstacle', 'drop_off'];
+export const HAZARD_SEVERITIES: HazardSeverity[] = ['low', 'medium', 'high'];
+
+export const HAZARD_LABELS: Record<HazardType, string> = {
+  stairs: '台阶',
+  vehicle: '车辆',
+  red_light: '红灯',
+  obstacle: '障碍物',
+  drop_off: '落差',
+};
+
+const HAZARD_LABELS_EN: Record<HazardType, string> = {
+  stairs: 'Stairs',
+  vehicle: 'Vehicle',
+  red_light: 'Red light',
+  obstacle: 'Obstacle',
+  drop_off: 'Drop-off',
+};
+
+export const HAZARD_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: REPORT_HAZARD_TOOL,
+    description: 'Report an immediate hazard on the user\'s path. Call this before speaking any safety warning.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        hazard_type: { type: Type.STRING, enum: HAZARD_TYPES, description: 'Kind of hazard.' },
+        clock_direction: { type: Type.INTEGER, description: 'Clock direction relative to the user, 1-12. 12 is straight ahead.' },
+        distance_meters: { type: Type.NUMBER, description: 'Estimated distance in meters.' },
+        severity: { type: Type.STRING, enum: HAZARD_SEVERITIES, description: 'high = stop now, medium = slow down, low = be aware.' },
+        description: { type: Type.STRING, description: 'Optional short detail, e.g. "三级向下台阶".' },
+      },
+      required: ['hazard_type', 'clock_direction', 'distance_meters', 'severity'],
+    },
+  },
+  {
+    name: HAZARD_HISTORY_TOOL,
+    description: 'Return the hazards reported earlier in this session, newest first. Use when the user asks to hear warnings again.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        limit: { type: Type.INTEGER, description: 'Maximum number of hazards to return.' },
+      },
+    },
+  },
+];
+
+// Alert earcons, escalating with severity.
+export const HAZARD_EARCONS: Record<HazardSeverity, number[]> = {
+  low: [660],
+  medium: [660, 880],
+  high: [880, 880, 880],
+};
+
+// navigator.vibrate patterns: one pulse, two pulses, then a long insistent burst.
+export const HAZARD_VIBRATIONS: Record<HazardSeverity, number[]> = {
+  low: [150],
+  medium: [200, 100, 200],
+  high: [400, 100, 400, 100, 400],
+};
+
+let hazardSeq = 0;
+
+// Validates model-supplied arguments; returns null when the call is unusable.
+export function parseHazardArgs(args: Record<string, unknown> | undefined, now = Date.now()): Hazard | null {
+  if (!args) return null;
+  const type = args.hazard_type as HazardType;
+  const severity = args.severity as HazardSeverity;
+  const clock = Math.round(Number(args.clock_direction));
+  const distance = Number(args.distance_meters);
+  if (!HAZARD_TYPES.includes(type) || !HAZARD_SEVERITIES.includes(severity)) return null;
+  if (!Number.isFinite(clock) || !Number.isFinite(distance)) return null;
+
+  return {
+    id: `hz-${now}-${++hazardSeq}`,
+    type,
+    severity,
+    clockDirection: ((clock - 1) % 12 + 12) % 12 + 1,
+    distanceMeters: Math.max(0, distance),
+    description: typeof args.description === 'string' ? args.description : undefined,
+    timestamp: now,
+  };
+}
+
+export function describeHazard(hazard: Hazard, language: ProfileLanguage = 'zh-CN'): string {
+  const local = hazard.source === 'local';
+  if (language === 'en-US') {
+    const base = `${local ? 'Possible ' : ''}${HAZARD_LABELS_EN[hazard.type]} at ${hazard.clockDirection} o'clock, about ${hazard.distanceMeters} meters`;
+    return hazard.description ? `${base} (${hazard.description})` : base;
+  }
+  const base = `${hazard.clockDirection}点钟方向，约${hazard.distanceMeters}米处${local ? '可能' : ''}有${HAZARD_LABELS[hazard.type]}`;
+  return hazard.description ? `${base}（${hazard.description}）` : base;
+}
+
+/** Bounded, newest-first record of hazards reported during a session. */
+export class HazardLog {
+  private entries: Hazard[] = [];
+
+  constructor(private capacity = 20) {}
+
+  add(hazard: Hazard): void {
+    this.entries = [hazard, ...this.entries].slice(0, this.capacity);
+  }
+
+  recent(limit = this.capacity): Hazard[] {
+    return this.entries.slice(0, limit);
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
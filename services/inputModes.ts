@@ -0,0 +1,76 @@
+import { RealtimeInputConfig } from '@google/genai';
+import { InputMode } from '../types';
+
+export const INPUT_MODES: InputMode[] = ['open_mic', 'push_to_talk', 'hands_free', 'text'];
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  open_mic: '常开麦克风 (Always on)',
+  push_to_talk: '按住说话 (Push to talk)',
+  hands_free: '免提 · 本机检测 (Hands-free)',
+  text: '仅文字 (Text only)',
+};
+
+const INPUT_MODE_KEY = 'openclaw.input.v1';
+
+export const DEFAULT_INPUT_MODE: InputMode = 'open_mic';
+
+/** Whether the mic is captured at all; text-only sessions never ask for it. */
+export const usesMicrophone = (mode: InputMode): boolean => mode !== 'text';
+
+/**
+ * Only the always-on mic leaves turn detection to the server. The other
+ * modes decide locally when the user speaks and send activityStart/End.
+ */
+export function realtimeInputConfig(mode: InputMode): RealtimeInputConfig {
+  return mode === 'open_mic' ? {} : { automaticActivityDetection: { disabled: true } };
+}
+
+export function isInputMode(value: unknown): value is InputMode {
+  return INPUT_MODES.includes(value as InputMode);
+}
+
+export function loadInputMode(): InputMode {
+  try {
+    const stored = localStorage.getItem(INPUT_MODE_KEY);
+    return isInputMode(stored) ? stored : DEFAULT_INPUT_MODE;
+  } catch {
+    return DEFAULT_INPUT_MODE;
+  }
+}
+
+export function saveInputMode(mode: InputMode): void {
+  localStorage.setItem(INPUT_MODE_KEY, mode);
+}
+
+/**
+ * Holds back mic chunks while closed. The last few are kept as pre-roll and
+ * sent first when it opens, so the start of a word spoken just before the
+ * button press (or before the VAD triggers) is not clipped.
+ */
+export class MicGate<T> {
+  private isOpen = false;
+  private held: T[] = [];
+
+  constructor(private send: (chunk: T) => void, private preRoll = 3) {}
+
+  get open(): boolean {
+    return this.isOpen;
+  }
+
+  push(chunk: T): void {
+    if (this.isOpen) {
+      this.send(chunk);
+      return;
+    }
+    this.held.push(chunk);
+    if (this.held.length > this.preRoll) this.held.shift();
+  }
+
+  setOpen(open: boolean): void {
+    if (open === this.isOpen) return;
+    this.isOpen = open;
+    const held = this.held;
+    this.held = [];
+    if (open) held.forEach(this.send);
+  }
+}
@@ -0,0 +1,140 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TranscriptionEntry } from '../types';
+import {
+  IndexedDbJournalStore,
+  JournalFilter,
+  JournalStore,
+  MemoryJournalStore,
+  SessionJournal,
+  filterEntries,
+} from './journal';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// One entry a minute, alternating speakers, a hazard every tenth, two sessions.
+function history(count: number, start = 1_700_000_000_000): TranscriptionEntry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `e${i}`,
+    timestamp: start + i * 60_000,
+    kind: i % 10 === 0 ? 'hazard' : 'speech',
+    role: i % 2 ? 'assistant' : 'user',
+    text: i % 10 === 0 ? `Stairs ahead ${i}` : `line ${i}`,
+    sessionId: i < count / 2 ? 's1' : 's2',
+  }) as TranscriptionEntry);
+}
+
+async function filled(store: JournalStore, entries: TranscriptionEntry[]) {
+  // Out of order, as entries from overlapping writes can land.
+  for (const e of [...entries].reverse()) await store.add(e);
+  return store;
+}
+
+const stores: [string, () => JournalStore][] = [
+  ['memory', () => new MemoryJournalStore()],
+  ['IndexedDB', () => new IndexedDbJournalStore(new IDBFactory())],
+];
+
+describe.each(stores)('%s journal store', (_name, create) => {
+  const entries = history(60);
+  const t = (i: number) => entries[i].timestamp;
+
+  it.each<[string, JournalFilter]>([
+    ['everything', {}],
+    ['a time range', { from: t(10), to: t(25) }],
+    ['an open-ended range', { from: t(50) }],
+    ['the newest few', { limit: 5 }],
+    ['text in a range with a limit', { text: 'stairs', from: t(5), limit: 2 }],
+    ['a kind and a session', { kind: 'hazard', sessionId: 's2' }],
+    ['no match', { text: 'nothing like this' }],
+  ])('answers %s like filterEntries', async (_case, filter) => {
+    const store = await filled(create(), entries);
+    expect((await store.query(filter)).map(e => e.id)).toEqual(filterEntries(entries, filter).map(e => e.id));
+  });
+
+  it('prunes entries past their age, then the oldest beyond the cap', async () => {
+    const store = await filled(create(), entries);
+    expect(await store.prune(t(10), 40)).toBe(20);
+    const kept = await store.query({});
+    expect(kept).toHaveLength(40);
+    expect(kept[0].id).toBe('e20');
+    expect(await store.prune(t(0), 100)).toBe(0);
+  });
+});
+
+describe('SessionJournal', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('applies its retention cap every so many writes', async () => {
+    const journal = new SessionJournal(new MemoryJournalStore(), { maxEntries: 30, maxAgeMs: 365 * DAY });
+    for (let i = 0; i < 100; i++) await journal.record({ kind: 'speech', role: 'user', text: `q${i}`, sessionId: 's' });
+    await Promise.resolve();
+    const kept = await journal.search();
+    expect(kept).toHaveLength(30);
+    expect(kept.at(-1)?.text).toBe('q99');
+  });
+
+  it('drops entries older than maxAgeMs', async () => {
+    const now = Date.now();
+    const journal = new SessionJournal(new MemoryJournalStore(), { maxEntries: 100, maxAgeMs: 30 * DAY });
+    await journal.record({ kind: 'speech', role: 'user', text: 'old', sessionId: 's', timestamp: now - 31 * DAY });
+    await journal.record({ kind: 'speech', role: 'user', text: 'new', sessionId: 's', timestamp: now });
+    expect(await journal.prune(now)).toBe(1);
+    expect((await journal.search()).map(e => e.text)).toEqual(['new']);
+  });
+
+  it('keeps recording in memory and says so when storage stops accepting writes', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken: JournalStore = {
+      add: () => Promise.reject(new Error('QuotaExceededError')),
+      query: async () => [],
+      prune: async () => 0,
+      clear: async () => {},
+    };
+    const journal = new SessionJournal(broken);
+    const changes = vi.fn();
+    journal.subscribe(changes);
+    expect(journal.persistent).toBe(true);
+
+    await journal.record({ kind: 'speech', role: 'assistant', text: 'kept anyway', sessionId: 's' });
+
+    expect(journal.persistent).toBe(false);
+    expect(changes).toHaveBeenCalled();
+    expect((await journal.search()).map(e => e.text)).toEqual(['kept anyway']);
+  });
+
+  it('falls back to memory when the database cannot be opened', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // What private mode does: the open request fails on its own, before anything reads the store.
+    const refusing = {
+      open: () => {
+        const open = {} as IDBOpenDBRequest & { error: DOMException };
+        setTimeout(() => {
+          Object.assign(open, { error: new DOMException('The user denied permission', 'InvalidStateError') });
+          open.onerror?.(new Event('error'));
+        });
+        return open;
+      },
+    } as unknown as IDBFactory;
+    const journal = new SessionJournal(new IndexedDbJournalStore(refusing));
+    const changes = vi.fn();
+    journal.subscribe(changes);
+
+    expect(await journal.search({ text: '台阶' })).toEqual([]);
+    expect(journal.persistent).toBe(false);
+    expect(warn).toHaveBeenCalledWith('Journal read failed, switching to memory store', expect.any(DOMException));
+
+    await journal.record({ kind: 'speech', role: 'user', text: '前面有台阶吗', sessionId: 's' });
+    expect((await journal.search({ text: '台阶' })).map(e => e.text)).toEqual(['前面有台阶吗']);
+    expect(changes).toHaveBeenCalledTimes(1);
+  });
+
+  it('is not persistent without IndexedDB', () => {
+    vi.stubGlobal('indexedDB', undefined);
+    expect(SessionJournal.open().persistent).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+import { TranscriptionEntry, TranscriptionKind } from '../types';
+
+export interface JournalFilter {
+  text?: string;
+  kind?: TranscriptionKind | 'all';
+  sessionId?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export interface JournalStore {
+  add(entry: TranscriptionEntry): Promise<void>;
+  // Same result as filterEntries over everything stored, without loading everything.
+  query(filter: JournalFilter): Promise<TranscriptionEntry[]>;
+  // Deletes entries older than `before`, then the oldest beyond `maxEntries`; resolves to how many went.
+  prune(before: number, maxEntries: number): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export interface JournalRetention {
+  maxEntries: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_JOURNAL_RETENTION: JournalRetention = {
+  maxEntries: 5000,
+  maxAgeMs: 90 * 24 * 60 * 60 * 1000,
+};
+
+const PRUNE_EVERY = 100; // writes between retention passes
+
+let entrySeq = 0;
+
+export function createEntryId(now = Date.now()): string {
+  return `je-${now.toString(36)}-${(++entrySeq).toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Everything in the filter except the time range and the limit.
+function matcher(filter: JournalFilter): (e: TranscriptionEntry) => boolean {
+  const needle = filter.text?.trim().toLowerCase();
+  return e => (!filter.kind || filter.kind === 'all' || e.kind === filter.kind)
+    && (!filter.sessionId || e.sessionId === filter.sessionId)
+    && (!needle || e.text.toLowerCase().includes(needle));
+}
+
+// Chronological, oldest first; `limit` keeps the newest matches.
+export function filterEntries(entries: TranscriptionEntry[], filter: JournalFilter = {}): TranscriptionEntry[] {
+  const matches = entries
+    .filter(e => filter.from === undefined || e.timestamp >= filter.from)
+    .filter(e => filter.to === undefined || e.timestamp <= filter.to)
+    .filter(matcher(filter))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  return filter.limit ? matches.slice(-filter.limit) : matches;
+}
+
+const ROLE_LABELS: Record<TranscriptionEntry['role'], string> = {
+  user: 'User',
+  assistant: 'Claw',
+  system: 'System',
+};
+
+export function entriesToMarkdown(entries: TranscriptionEntry[]): string {
+  const lines = ['# OpenClaw Vision Journal', ''];
+  let session = '';
+  for (const e of entries) {
+    if (e.sessionId !== session) {
+      session = e.sessionId;
+      lines.push(`## Session ${session} (${new Date(e.timestamp).toLocaleString()})`, '');
+    }
+    const time = new Date(e.timestamp).toLocaleTimeString();
+    const tag = e.kind === 'speech' ? '' : ` [${e.kind}]`;
+    const mode = e.mode ? ` _(${e.mode})_` : '';
+    lines.push(`- **${time} ${ROLE_LABELS[e.role]}${tag}**${mode}: ${e.text.replace(/\n+/g, ' ')}`);
+    if (e.thumbnail) lines.push(`  ![frame](${e.thumbnail})`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export class MemoryJournalStore implements JournalStore {
+  private entries: TranscriptionEntry[] = [];
+
+  async add(entry: TranscriptionEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async query(filter: JournalFilter): Promise<TranscriptionEntry[]> {
+    return filterEntries(this.entries, filter);
+  }
+
+  async prune(before: number, maxEntries: number): Promise<number> {
+    const count = this.entries.length;
+    this.entries = this.entries
+      .filter(e => e.timestamp >= before)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-maxEntries);
+    return count - this.entries.length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+  }
+}
+
+const DB_NAME = 'openclaw-journal';
+const STORE_NAME = 'entries';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Steps a cursor until `visit` returns false or the cursor runs out.
+function walk(req: IDBRequest<IDBCursorWithValue | null>, visit: (cursor: IDBCursorWithValue) => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor || !visit(cursor)) return resolve();
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function timeRange(from: number | undefined, to: number | undefined): IDBKeyRange | null {
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to);
+  return null;
+}
+
+export class IndexedDbJournalStore implements JournalStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor(factory: IDBFactory = indexedDB) {
+    this.db = new Promise((resolve, reject) => {
+      const open = factory.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('sessionId', 'sessionId');
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+      open.onblocked = () => reject(new Error('Journal database upgrade is blocked by another tab'));
+    });
+    // Every method awaits `db` and sees the failure; this only keeps it from going unhandled meanwhile.
+    this.db.catch(() => {});
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async add(entry: TranscriptionEntry): Promise<void> {
+    await request((await this.store('readwrite')).put(entry));
+  }
+
+  // Newest first along the timestamp index, within the time range, until `limit` entries match.
+  async query(filter: JournalFilter): Promise<TranscriptionEntry[]> {
+    const index = (await this.store('readonly')).index('timestamp');
+    const matches = matcher(filter);
+    const found: TranscriptionEntry[] = [];
+    await walk(index.openCursor(timeRange(filter.from, filter.to), 'prev'), (cursor) => {
+      const entry = cursor.value as TranscriptionEntry;
+      if (matches(entry)) found.push(entry);
+      return !filter.limit || found.length < filter.limit;
+    });
+    return found.reverse();
+  }
+
+  async prune(before: number, maxEntries: number): Promise<number> {
+    let removed = 0;
+    const expired = (await this.store('readwrite')).index('timestamp');
+    await walk(expired.openCursor(IDBKeyRange.upperBound(before, true)), (cursor) => {
+      cursor.delete();
+      removed++;
+      return true;
+    });
+    const store = await this.store('readwrite');
+    let excess = (await request(store.count())) - maxEntries;
+    if (excess > 0) {
+      await walk(store.index('timestamp').openCursor(), (cursor) => {
+        cursor.delete();
+        removed++;
+        return --excess > 0;
+      });
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    await request((await this.store('readwrite')).clear());
+  }
+}
+
+/**
+ * Persistent log of everything the assistant told the user, for caregivers
+ * and QA, kept within a retention cap. Falls back to memory where IndexedDB
+ * is unavailable (e.g. some private browsing modes) or stops accepting
+ * writes; `persistent` turns false and subscribers are told, so the UI can
+ * say the journal will not survive a reload.
+ */
+export class SessionJournal {
+  private listeners = new Set<() => void>();
+  private persistenceLost = false;
+  private writesSincePrune = 0;
+
+  constructor(private store: JournalStore, private retention: JournalRetention = DEFAULT_JOURNAL_RETENTION) {}
+
+  static open(retention: JournalRetention = DEFAULT_JOURNAL_RETENTION): SessionJournal {
+    try {
+      if (typeof indexedDB !== 'undefined') {
+        const journal = new SessionJournal(new IndexedDbJournalStore(), retention);
+        journal.prune();
+        return journal;
+      }
+    } catch {
+      // Fall through to memory.
+    }
+    const journal = new SessionJournal(new MemoryJournalStore(), retention);
+    journal.persistenceLost = true;
+    return journal;
+  }
+
+  get persistent(): boolean {
+    return !this.persistenceLost;
+  }
+
+  async record(entry: Omit<TranscriptionEntry, 'id' | 'timestamp'> & { timestamp?: number }): Promise<TranscriptionEntry> {
+    const timestamp = entry.timestamp ?? Date.now();
+    const full: TranscriptionEntry = { ...entry, id: createEntryId(timestamp), timestamp };
+    try {
+      await this.store.add(full);
+    } catch (err) {
+      this.fallBackToMemory('write', err);
+      await this.store.add(full);
+    }
+    if (++this.writesSincePrune >= PRUNE_EVERY) this.prune();
+    this.listeners.forEach(l => l());
+    return full;
+  }
+
+  async search(filter: JournalFilter = {}): Promise<TranscriptionEntry[]> {
+    try {
+      return await this.store.query(filter);
+    } catch (err) {
+      this.fallBackToMemory('read', err);
+      return this.store.query(filter);
+    }
+  }
+
+  /** Applies the retention cap; runs on open and every few writes. Resolves to how many entries went. */
+  async prune(now = Date.now()): Promise<number> {
+    this.writesSincePrune = 0;
+    try {
+      return await this.store.prune(now - this.retention.maxAgeMs, this.retention.maxEntries);
+    } catch (err) {
+      console.warn('Journal retention pass failed', err);
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+    this.listeners.forEach(l => l());
+  }
+
+  /** Called after every change; returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async exportJson(filter: JournalFilter = {}): Promise<string> {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), entries: await this.search(filter) }, null, 2);
+  }
+
+  async exportMarkdown(filter: JournalFilter = {}): Promise<string> {
+    return entriesToMarkdown(await this.search(filter));
+  }
+
+  // Storage that fails once (private mode, quota, a blocked upgrade) is not trusted again this session.
+  private fallBackToMemory(operation: 'read' | 'write', err: unknown) {
+    console.warn(`Journal ${operation} failed, switching to memory store`, err);
+    this.store = new MemoryJournalStore();
+    this.persistenceLost = true;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+
+// Plain-data view of a server message, so recorded JSON can be replayed as-is.
+export type LiveMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+// A failure that retrying cannot fix, e.g. an expired session or a rejected credential.
+export class TransportError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveMessage) => void;
+  onerror: (error: Error) => void;
+  onclose: (reason?: string) => void;
+}
+
+export interface LiveTransportConnection {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+  // False for text-only backends; the app then speaks the transcript itself. Absent means true.
+  readonly audioOutput?: boolean;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+}
+
+/**
+ * A model backend. Every backend speaks the Live API's message shapes, so
+ * LiveNavigatorSession and the rest of the app do not know which one is
+ * connected: GeminiLiveTransport below, OpenAICompatibleTransport for
+ * self-hosted models, and the scripted and replay transports for tests.
+ */
+export interface LiveTransport {
+  connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection>;
+}
+
+// `apiKey` may be a real key (server-side only) or an ephemeral token, which needs apiVersion 'v1alpha'.
+export class GeminiLiveTransport implements LiveTransport {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, apiVersion?: string) {
+    this.ai = new GoogleGenAI({ apiKey, httpOptions: apiVersion ? { apiVersion } : undefined });
+  }
+
+  connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection> {
+    return this.ai.live.connect({
+      model: options.model,
+      config: options.config,
+      callbacks: {
+        onopen: callbacks.onopen,
+        onmessage: callbacks.onmessage,
+        onerror: (e) => callbacks.onerror(new Error(e.message || 'Connection error')),
+        onclose: (e) => callbacks.onclose(e.reason),
+      },
+    });
+  }
+}
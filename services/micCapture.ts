@@ -0,0 +1,100 @@
+import { PcmChunkEncoder, encodePcm16, pcm16Rms, pcmMimeType } from '../utils/audio';
+import { ResourceManager } from './ResourceManager';
+
+const PROCESSOR_NAME = 'openclaw-mic-capture';
+
+// Runs on the audio thread: batches 128-frame render quanta and posts them out.
+// Resampling and encoding stay on the main thread in utils/audio.ts.
+const WORKLET_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.batch = new Float32Array(options.processorOptions.batchSize);
+    this.filled = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const n = Math.min(this.batch.length - this.filled, channel.length - offset);
+      this.batch.set(channel.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.batch.length) {
+        this.port.postMessage(this.batch, [this.batch.buffer]);
+        this.batch = new Float32Array(this.batch.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', MicCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorkletLoaded(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export interface MicCaptureOptions {
+  chunkMs?: number;
+  outputSampleRate?: number;
+  // Raw samples at the context rate, before resampling; used for local voice activity detection.
+  onSamples?: (samples: Float32Array) => void;
+}
+
+export interface MicChunk {
+  data: string;
+  mimeType: string;
+  bytes: number;
+  level: number;
+}
+
+/**
+ * Streams the microphone through an AudioWorklet and delivers base64 Int16
+ * chunks at the Live API input rate, whatever rate the context really runs at.
+ * All nodes are registered with `resources` and released with it.
+ */
+export async function startMicCapture(
+  resources: ResourceManager,
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: MicChunk) => void,
+  options: MicCaptureOptions = {},
+): Promise<void> {
+  await ensureWorkletLoaded(ctx);
+  if (resources.isDisposed) return;
+
+  const encoder = new PcmChunkEncoder({
+    inputSampleRate: ctx.sampleRate,
+    outputSampleRate: options.outputSampleRate,
+    chunkMs: options.chunkMs,
+  });
+  const mimeType = pcmMimeType(encoder.outputSampleRate);
+
+  const source = resources.addNode(ctx.createMediaStreamSource(stream));
+  const worklet = resources.addNode(new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { batchSize: 1024 },
+  }));
+  worklet.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    options.onSamples?.(e.data);
+    for (const chunk of encoder.push(e.data)) {
+      onChunk({ data: encodePcm16(chunk), mimeType, bytes: chunk.byteLength, level: pcm16Rms(chunk) });
+    }
+  };
+  source.connect(worklet);
+}
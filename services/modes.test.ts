@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FRAME_POLICY } from '../utils/frames';
+import {
+  INTERACTION_MODES,
+  MODE_DEFINITIONS,
+  isInteractionMode,
+  modeInstructions,
+  modeLabel,
+  modeSwitchMessage,
+  resolveFramePolicy,
+} from './modes';
+import { BUILT_IN_PROFILES, buildLiveConfig } from './profiles';
+
+const PROFILE = BUILT_IN_PROFILES[0];
+
+describe('mode prompts', () => {
+  it.each(INTERACTION_MODES)('puts only the %s instructions into the system prompt', (mode) => {
+    const prompt = buildLiveConfig(PROFILE, { mode }).systemInstruction as string;
+    expect(prompt).toContain(MODE_DEFINITIONS[mode].instructions);
+    for (const other of INTERACTION_MODES.filter(m => m !== mode)) {
+      expect(prompt).not.toContain(MODE_DEFINITIONS[other].instructions);
+    }
+  });
+
+  it('names the target in find mode only', () => {
+    expect(modeInstructions('find', '钥匙')).toBe(`${MODE_DEFINITIONS.find.instructions}\n当前目标：钥匙`);
+    expect(modeInstructions('find')).toBe(MODE_DEFINITIONS.find.instructions);
+    expect(modeInstructions('read', '钥匙')).toBe(MODE_DEFINITIONS.read.instructions);
+  });
+
+  it('announces a mid-session switch with the new instructions', () => {
+    const message = modeSwitchMessage('find', '钥匙');
+    expect(message).toContain('寻物模式');
+    expect(message).toContain('当前目标：钥匙');
+  });
+
+  it('labels modes in the profile language', () => {
+    expect(modeLabel('read', 'zh-CN')).toBe('读文字');
+    expect(modeLabel('read', 'yue-HK')).toBe('读文字');
+    expect(modeLabel('read', 'en-US')).toBe('Read Text');
+  });
+});
+
+describe('mode frame policies', () => {
+  const profilePolicy = { maxFps: 4, maxWidth: 640, maxHeight: 640 };
+
+  it('leaves the profile policy alone while walking', () => {
+    expect(resolveFramePolicy(profilePolicy, 'walk')).toEqual({ ...DEFAULT_FRAME_POLICY, ...profilePolicy });
+  });
+
+  it('reads text slowly, at high resolution and quality', () => {
+    expect(resolveFramePolicy(profilePolicy, 'read')).toMatchObject({ minFps: 0.5, maxFps: 1, maxWidth: 1600, maxHeight: 1600, jpegQuality: 0.85 });
+  });
+
+  it('keeps frames coming while finding an object', () => {
+    expect(resolveFramePolicy(profilePolicy, 'find')).toMatchObject({ minFps: 1, maxFps: 3, maxWidth: 640 });
+  });
+
+  it('describes a scene from fewer, sharper frames', () => {
+    expect(resolveFramePolicy(profilePolicy, 'describe')).toMatchObject({ maxFps: 1, jpegQuality: 0.7, maxWidth: 640 });
+  });
+
+  it('never ends up with a minimum above the maximum', () => {
+    for (const profile of BUILT_IN_PROFILES) {
+      for (const mode of INTERACTION_MODES) {
+        const policy = resolveFramePolicy(profile.framePolicy, mode);
+        expect(policy.minFps, `${profile.id} / ${mode}`).toBeLessThanOrEqual(policy.maxFps);
+      }
+    }
+  });
+});
+
+describe('isInteractionMode', () => {
+  it('accepts only known modes, as the set_mode tool may send anything', () => {
+    expect(INTERACTION_MODES.every(isInteractionMode)).toBe(true);
+    expect(isInteractionMode('run')).toBe(false);
+    expect(isInteractionMode(undefined)).toBe(false);
+  });
+});
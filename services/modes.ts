@@ -0,0 +1,95 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { FramePolicy, InteractionMode, ProfileLanguage } from '../types';
+import { DEFAULT_FRAME_POLICY } from '../utils/frames';
+
+export const SET_MODE_TOOL = 'set_mode';
+export const REPORT_TARGET_TOOL = 'report_target';
+
+export const INTERACTION_MODES: InteractionMode[] = ['walk', 'read', 'find', 'describe'];
+
+export interface ModeDefinition {
+  label: string;
+  labelEn: string;
+  // Overrides on top of the profile's frame policy.
+  framePolicy: Partial<FramePolicy>;
+  instructions: string;
+}
+
+export const MODE_DEFINITIONS: Record<InteractionMode, ModeDefinition> = {
+  walk: {
+    label: '行走',
+    labelEn: 'Walk',
+    framePolicy: {},
+    instructions: '「行走」模式：专注于路径安全与前进方向。使用 [紧急警告]、[环境概况] 和 [行动建议]，省略 [文字内容]，除非是路牌或交通标志。',
+  },
+  read: {
+    label: '读文字',
+    labelEn: 'Read Text',
+    framePolicy: { minFps: 0.5, maxFps: 1, maxWidth: 1600, maxHeight: 1600, jpegQuality: 0.85 },
+    instructions: '「读文字」模式：用户正在阅读近处的文字（如药品标签、菜单、信件）。只输出 [文字内容]，逐字准确朗读；如果文字不完整或模糊，告诉用户如何移动镜头。不要报告时钟方向的障碍物，除非有立即危险。',
+  },
+  find: {
+    label: '寻物',
+    labelEn: 'Find Object',
+    framePolicy: { minFps: 1, maxFps: 3 },
+    instructions: '「寻物」模式：帮助用户找到一个目标物体。如果还不知道目标，先询问用户要找什么。每次看到目标时调用 `report_target` 工具，并用 [行动建议] 引导用户转动镜头或移动；当目标位于画面正中央时明确说出“已对准”。',
+  },
+  describe: {
+    label: '场景描述',
+    labelEn: 'Describe Scene',
+    framePolicy: { maxFps: 1, jpegQuality: 0.7 },
+    instructions: '「场景描述」模式：给出完整的 [环境概况] 和 [详细信息]，包括布局、物体和可见文字。只有在有危险时才加入 [紧急警告]。',
+  },
+};
+
+export function resolveFramePolicy(profilePolicy: Partial<FramePolicy>, mode: InteractionMode): FramePolicy {
+  return { ...DEFAULT_FRAME_POLICY, ...profilePolicy, ...MODE_DEFINITIONS[mode].framePolicy };
+}
+
+export function modeLabel(mode: InteractionMode, language: ProfileLanguage): string {
+  const def = MODE_DEFINITIONS[mode];
+  return language === 'en-US' ? def.labelEn : def.label;
+}
+
+export function modeInstructions(mode: InteractionMode, target?: string | null): string {
+  const base = MODE_DEFINITIONS[mode].instructions;
+  return mode === 'find' && target ? `${base}\n当前目标：${target}` : base;
+}
+
+// Sent as a client turn when the mode changes mid-session; the system prompt cannot change.
+export function modeSwitchMessage(mode: InteractionMode, target?: string | null): string {
+  return `[模式切换 / MODE SWITCH] 从现在开始进入${MODE_DEFINITIONS[mode].label}模式。\n${modeInstructions(mode, target)}`;
+}
+
+export const MODE_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: SET_MODE_TOOL,
+    description: 'Switch the interaction mode when the user asks for it by voice, e.g. "read this label" or "help me find my keys".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mode: { type: Type.STRING, enum: INTERACTION_MODES, description: 'walk, read, find or describe.' },
+        target: { type: Type.STRING, description: 'Object to look for, only for find mode.' },
+      },
+      required: ['mode'],
+    },
+  },
+  {
+    name: REPORT_TARGET_TOOL,
+    description: 'In find mode, report where the target object is in the current frame.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        found: { type: Type.BOOLEAN, description: 'Whether the target is visible.' },
+        clock_direction: { type: Type.INTEGER, description: 'Clock direction of the target, 1-12.' },
+        distance_meters: { type: Type.NUMBER, description: 'Estimated distance in meters.' },
+        centered: { type: Type.BOOLEAN, description: 'True when the target is in the middle of the frame.' },
+      },
+      required: ['found', 'centered'],
+    },
+  },
+];
+
+export function isInteractionMode(value: unknown): value is InteractionMode {
+  return INTERACTION_MODES.includes(value as InteractionMode);
+}
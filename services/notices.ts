@@ -0,0 +1,69 @@
+import { AppStatus, ProfileLanguage } from '../types';
+
+export type NoticeKey =
+  | 'reconnecting'
+  | 'resumed'
+  | 'noHazards'
+  | 'assistRoom'
+  | 'assistRequest'
+  | 'statusIdle'
+  | 'statusConnecting'
+  | 'statusActive'
+  | 'statusReconnecting'
+  | 'statusOffline';
+
+// Phrases the app speaks itself, without the model.
+const NOTICES: Record<ProfileLanguage, Record<NoticeKey, string>> = {
+  'zh-CN': {
+    reconnecting: '网络中断，导航已暂停，正在重新连接',
+    resumed: '导航已恢复',
+    noHazards: '本次导航暂无危险记录',
+    assistRoom: '家人协助已开启，房间号',
+    assistRequest: '有家人请求加入，请在屏幕上允许或拒绝',
+    statusIdle: '导航已停止',
+    statusConnecting: '正在连接',
+    statusActive: '导航已启动',
+    statusReconnecting: '导航暂停，正在重连',
+    statusOffline: '无法连接，已离线，本机检测仍在运行',
+  },
+  'en-US': {
+    reconnecting: 'Connection lost. Guidance is paused while reconnecting.',
+    resumed: 'Guidance resumed.',
+    noHazards: 'No hazards reported in this session.',
+    assistRoom: 'Remote assist is on. Room code',
+    assistRequest: 'A caregiver is asking to join. Allow or deny on screen.',
+    statusIdle: 'Guidance stopped.',
+    statusConnecting: 'Connecting.',
+    statusActive: 'Guidance active.',
+    statusReconnecting: 'Guidance paused, reconnecting.',
+    statusOffline: 'Offline. On-device alerts are still running.',
+  },
+  'yue-HK': {
+    reconnecting: '網絡斷咗，導航暫停，重新連接緊',
+    resumed: '導航已經恢復',
+    noHazards: '今次導航未有危險記錄',
+    assistRoom: '家人協助已經開咗，房間號碼',
+    assistRequest: '有家人想加入，請喺畫面度允許或者拒絕',
+    statusIdle: '導航已經停止',
+    statusConnecting: '連接緊',
+    statusActive: '導航已經啟動',
+    statusReconnecting: '導航暫停，重新連接緊',
+    statusOffline: '連唔到網絡，已經離線，本機偵測仲運行緊',
+  },
+};
+
+export function notice(language: ProfileLanguage, key: NoticeKey): string {
+  return NOTICES[language][key];
+}
+
+const STATUS_NOTICES: Record<AppStatus, NoticeKey> = {
+  [AppStatus.IDLE]: 'statusIdle',
+  [AppStatus.CONNECTING]: 'statusConnecting',
+  [AppStatus.ACTIVE]: 'statusActive',
+  [AppStatus.RECONNECTING]: 'statusReconnecting',
+  [AppStatus.ERROR]: 'statusOffline',
+};
+
+export function statusNotice(language: ProfileLanguage, status: AppStatus): string {
+  return notice(language, STATUS_NOTICES[status]);
+}
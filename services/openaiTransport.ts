@@ -0,0 +1,421 @@
+import {
+  ContentListUnion,
+  FunctionDeclaration,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  Part,
+  Schema,
+} from '@google/genai';
+import {
+  LiveConnectOptions,
+  LiveMessage,
+  LiveTransport,
+  LiveTransportCallbacks,
+  LiveTransportConnection,
+  TransportError,
+} from './liveTransport';
+import { VoiceActivityDetector } from './voiceActivity';
+import { INPUT_SAMPLE_RATE, decodeBase64, encodeBase64, encodeWav, pcm16ToFloat } from '../utils/audio';
+
+// Proxied by the token server (server/tokenServer.ts), which pins the model and holds the key.
+export const VISION_ENDPOINT = '/api/vision';
+
+export interface OpenAITransportOptions {
+  endpoint: string;
+  headers: Record<string, string>;
+  scanIntervalMs: number; // how often the newest frame is shown to the model unprompted; 0 disables
+  historyTurns: number; // earlier turns resent as text with every request
+  minUtteranceMs: number;
+  maxUtteranceMs: number;
+}
+
+export const DEFAULT_OPENAI_TRANSPORT_OPTIONS: OpenAITransportOptions = {
+  endpoint: VISION_ENDPOINT,
+  headers: {},
+  scanIntervalMs: 5000,
+  historyTurns: 8,
+  minUtteranceMs: 300,
+  maxUtteranceMs: 30_000,
+};
+
+// The model answers a scan with this when nothing needs saying.
+export const SILENT_REPLY = '-';
+const SCAN_PROMPT = `（新的摄像头画面。如有危险或值得告诉用户的变化，请按要求简短播报；如果没有，只回复「${SILENT_REPLY}」。）`;
+const PRE_ROLL_CHUNKS = 5;
+
+// Chat Completions wire format, limited to the fields used here.
+type ChatPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | ChatPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatReply {
+  choices?: { message?: { content?: string | null; tool_calls?: ChatToolCall[] } }[];
+}
+
+// Gemini schemas use upper-case type names; JSON Schema wants lower case.
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+}
+
+export function toChatTools(config: LiveConnectConfig) {
+  const declarations = (config.tools ?? []).flatMap(tool =>
+    'functionDeclarations' in tool ? (tool.functionDeclarations as FunctionDeclaration[] | undefined) ?? [] : []);
+  return declarations
+    .filter(d => d.name)
+    .map(d => ({
+      type: 'function' as const,
+      function: {
+        name: d.name!,
+        description: d.description ?? '',
+        parameters: d.parameters ? toJsonSchema(d.parameters) : { type: 'object', properties: {} },
+      },
+    }));
+}
+
+function partsOf(content: ContentListUnion | undefined): Part[] {
+  if (content === undefined) return [];
+  if (typeof content === 'string') return [{ text: content }];
+  if (Array.isArray(content)) return content.flatMap(item => partsOf(item as ContentListUnion));
+  if ('parts' in content) return content.parts ?? [];
+  return [content as Part];
+}
+
+function toChatParts(parts: Part[]): ChatPart[] {
+  return parts.flatMap((part): ChatPart[] => {
+    if (part.text) return [{ type: 'text', text: part.text }];
+    const data = part.inlineData;
+    if (data?.data && data.mimeType?.startsWith('image/')) {
+      return [{ type: 'image_url', image_url: { url: `data:${data.mimeType};base64,${data.data}` } }];
+    }
+    return [];
+  });
+}
+
+// History keeps text only; resending old frames would multiply every request.
+function withoutImages(message: ChatMessage): ChatMessage {
+  if (message.role !== 'user' || typeof message.content === 'string') return message;
+  const text = message.content.flatMap(p => (p.type === 'text' ? [p.text] : [])).join('\n');
+  return { role: 'user', content: text };
+}
+
+const isSilent = (text: string) => /^[\s\-—–.。…]*$/.test(text);
+
+/**
+ * Turn-based stand-in for the Live API on a self-hosted OpenAI-compatible
+ * endpoint (Ollama, vLLM, LocalAI). Each question goes out with the newest
+ * frame; between questions the model is shown a fresh frame every few
+ * seconds so it can still warn unprompted. Speech is cut into utterances by
+ * the activity signals, or by a local VAD with an open mic, and transcribed
+ * by the endpoint's speech-to-text model. Replies are text only.
+ */
+export class OpenAICompatibleTransport implements LiveTransport {
+  private options: OpenAITransportOptions;
+  // Lives on the transport, so a reconnect continues the same conversation.
+  private history: ChatMessage[][] = [];
+
+  constructor(options: Partial<OpenAITransportOptions> = {}) {
+    this.options = { ...DEFAULT_OPENAI_TRANSPORT_OPTIONS, ...options };
+  }
+
+  async connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection> {
+    const connection = new TurnConnection(options.config, this.options, this.history, callbacks);
+    setTimeout(() => connection.open(), 0);
+    return connection;
+  }
+}
+
+class TurnConnection implements LiveTransportConnection {
+  readonly audioOutput = false;
+  private closed = false;
+  private frame: { data: string; note?: string; fresh: boolean } | null = null;
+  private context: ChatPart[] = []; // client content sent without turnComplete
+  private turn: ChatMessage[] = [];
+  private turnKind: 'scan' | 'question' | null = null;
+  private request: AbortController | null = null;
+  private queued: string | null = null;
+  private awaitingTools = new Set<string>();
+  private scanTimer: ReturnType<typeof setInterval> | null = null;
+  private manualActivity: boolean;
+  private vad: VoiceActivityDetector | null = null;
+  private utterance: Float32Array[] | null = null;
+  private utteranceSamples = 0;
+  private preRoll: Float32Array[] = [];
+  private sampleRate = INPUT_SAMPLE_RATE;
+  private transcribeAvailable = true;
+
+  constructor(
+    private config: LiveConnectConfig,
+    private options: OpenAITransportOptions,
+    private history: ChatMessage[][],
+    private callbacks: LiveTransportCallbacks,
+  ) {
+    this.manualActivity = config.realtimeInputConfig?.automaticActivityDetection?.disabled === true;
+  }
+
+  open(): void {
+    if (this.closed) return;
+    this.callbacks.onopen();
+    if (this.options.scanIntervalMs > 0) {
+      this.scanTimer = setInterval(() => this.scan(), this.options.scanIntervalMs);
+    }
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void {
+    if (this.closed) return;
+    const media = (params.media ?? params.audio) as { data?: string; mimeType?: string } | undefined;
+    if (media?.data && media.mimeType?.startsWith('image/')) {
+      this.frame = { data: media.data, fresh: true };
+    } else if (media?.data && media.mimeType?.startsWith('audio/pcm')) {
+      this.pushAudio(media.data, media.mimeType);
+    }
+    // Realtime text only ever follows a frame, as a note about it.
+    if (params.text && this.frame) this.frame.note = params.text;
+    if (params.activityStart) this.startUtterance();
+    if (params.activityEnd) this.endUtterance();
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters): void {
+    if (this.closed) return;
+    const parts = toChatParts(partsOf(params.turns));
+    if (params.turnComplete === false) {
+      this.context.push(...parts);
+      return;
+    }
+    const content = [...this.context, ...parts];
+    this.context = [];
+    this.ask(content);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters): void {
+    if (this.closed) return;
+    const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+    let answered = false;
+    for (const response of responses) {
+      // Answers to a turn that a question replaced are dropped.
+      if (!response?.id || !this.awaitingTools.delete(response.id)) continue;
+      this.turn.push({ role: 'tool', tool_call_id: response.id, content: JSON.stringify(response.response ?? {}) });
+      answered = true;
+    }
+    if (answered && this.awaitingTools.size === 0) this.complete();
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.scanTimer) clearInterval(this.scanTimer);
+    this.request?.abort();
+    this.vad?.removeAllListeners();
+    this.callbacks.onclose('client closed');
+  }
+
+  // A question always gets the newest frame; it replaces a scan in flight and waits behind another question.
+  private ask(content: ChatPart[]) {
+    if (this.turnKind === 'question') {
+      const text = content.flatMap(p => (p.type === 'text' ? [p.text] : [])).join('\n');
+      this.queued = this.queued ? `${this.queued}\n${text}` : text;
+      return;
+    }
+    this.request?.abort();
+    this.awaitingTools.clear();
+    this.begin('question', [...content, ...this.framePart()]);
+  }
+
+  private scan() {
+    if (this.turnKind || this.utterance || !this.frame?.fresh) return;
+    this.begin('scan', [{ type: 'text', text: SCAN_PROMPT }, ...this.framePart()]);
+  }
+
+  private framePart(): ChatPart[] {
+    if (!this.frame) return [];
+    this.frame.fresh = false;
+    const parts: ChatPart[] = [{ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${this.frame.data}` } }];
+    if (this.frame.note) parts.push({ type: 'text', text: this.frame.note });
+    return parts;
+  }
+
+  private begin(kind: 'scan' | 'question', content: ChatPart[]) {
+    this.turnKind = kind;
+    this.turn = [{ role: 'user', content }];
+    this.complete();
+  }
+
+  private async complete() {
+    const controller = new AbortController();
+    this.request = controller;
+    const system = this.systemInstruction();
+    const messages: ChatMessage[] = [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      ...this.history.flat(),
+      ...this.turn,
+    ];
+    let reply: ChatReply;
+    try {
+      reply = await this.post('chat', { messages, tools: toChatTools(this.config) }, controller.signal);
+    } catch (err: any) {
+      if (controller.signal.aborted || this.closed) return;
+      this.turnKind = null;
+      this.callbacks.onerror(err);
+      return;
+    }
+    if (controller.signal.aborted || this.closed) return;
+    this.request = null;
+
+    const message = reply.choices?.[0]?.message;
+    const calls = message?.tool_calls ?? [];
+    if (calls.length) {
+      this.turn.push({ role: 'assistant', content: message?.content ?? null, tool_calls: calls });
+      calls.forEach(call => this.awaitingTools.add(call.id));
+      this.emit({
+        toolCall: {
+          functionCalls: calls.map(call => ({ id: call.id, name: call.function.name, args: parseArguments(call.function.arguments) })),
+        },
+      });
+      return;
+    }
+
+    const text = (message?.content ?? '').trim();
+    const silent = isSilent(text);
+    if (!(this.turnKind === 'scan' && silent)) {
+      this.turn.push({ role: 'assistant', content: text });
+      this.history.push(this.turn.map(withoutImages));
+      this.history.splice(0, Math.max(0, this.history.length - this.options.historyTurns));
+      if (!silent) this.emit({ serverContent: { outputTranscription: { text } } });
+      this.emit({ serverContent: { turnComplete: true } });
+    }
+    this.turn = [];
+    this.turnKind = null;
+    const queued = this.queued;
+    this.queued = null;
+    if (queued) this.ask([{ type: 'text', text: queued }]);
+  }
+
+  private pushAudio(data: string, mimeType: string) {
+    this.sampleRate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || INPUT_SAMPLE_RATE;
+    const samples = pcm16ToFloat(decodeBase64(data));
+    if (!this.manualActivity) this.detector().push(samples);
+    if (!this.utterance) {
+      this.preRoll.push(samples);
+      if (this.preRoll.length > PRE_ROLL_CHUNKS) this.preRoll.shift();
+      return;
+    }
+    this.utterance.push(samples);
+    this.utteranceSamples += samples.length;
+    if ((this.utteranceSamples / this.sampleRate) * 1000 >= this.options.maxUtteranceMs) this.endUtterance();
+  }
+
+  private detector(): VoiceActivityDetector {
+    if (!this.vad) {
+      this.vad = new VoiceActivityDetector({ sampleRate: this.sampleRate });
+      this.vad.on('speechStart', () => this.startUtterance());
+      this.vad.on('speechEnd', () => this.endUtterance());
+    }
+    return this.vad;
+  }
+
+  private startUtterance() {
+    if (this.utterance || !this.transcribeAvailable) return;
+    // The VAD fires after the first syllable, so the pre-roll holds the start of the question.
+    this.utterance = this.manualActivity ? [] : this.preRoll;
+    this.utteranceSamples = this.utterance.reduce((n, s) => n + s.length, 0);
+    this.preRoll = [];
+    if (this.turnKind === 'scan') {
+      this.request?.abort();
+      this.turnKind = null;
+    }
+    this.emit({ serverContent: { interrupted: true } });
+  }
+
+  private async endUtterance() {
+    const chunks = this.utterance;
+    this.utterance = null;
+    if (!chunks || (this.utteranceSamples / this.sampleRate) * 1000 < this.options.minUtteranceMs) return;
+    const samples = new Float32Array(this.utteranceSamples);
+    let offset = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    let text: string;
+    try {
+      const reply = await this.post<{ text?: string }>('transcribe', {
+        audio: encodeBase64(encodeWav(samples, this.sampleRate)),
+        mimeType: 'audio/wav',
+      });
+      text = (reply.text ?? '').trim();
+    } catch (err: any) {
+      if (this.closed) return;
+      if (err instanceof TransportError && !err.retryable) {
+        // No speech-to-text behind the endpoint: typed questions still work.
+        this.transcribeAvailable = false;
+        console.warn('Speech-to-text unavailable, voice questions are off', err);
+        return;
+      }
+      this.callbacks.onerror(err);
+      return;
+    }
+    if (this.closed || !text) return;
+    this.emit({ serverContent: { inputTranscription: { text } } });
+    this.ask([{ type: 'text', text }]);
+  }
+
+  private async post<T = ChatReply>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.endpoint}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.options.headers },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (err: any) {
+      throw new TransportError(`Vision endpoint unreachable: ${err.message}`, true);
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      // Same split as the token server: overload and upstream trouble pass, a refused session does not.
+      throw new TransportError(data.message || `Vision endpoint returned ${response.status}`, response.status === 429 || response.status >= 500);
+    }
+    return response.json();
+  }
+
+  private systemInstruction(): string {
+    return partsOf(this.config.systemInstruction as ContentListUnion | undefined)
+      .map(p => p.text ?? '')
+      .join('\n')
+      .trim();
+  }
+
+  private emit(message: LiveMessage) {
+    if (!this.closed) this.callbacks.onmessage(message);
+  }
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const args = JSON.parse(raw);
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { SavedPlace } from '../types';
+import {
+  MAX_PLACE_FRAMES,
+  createPlace,
+  exportPlaces,
+  importPlaces,
+  loadPlaces,
+  parsePlace,
+  parseRouteProgress,
+  routeInstructions,
+  savePlaces,
+} from './places';
+
+const PLACES_KEY = 'openclaw.places.v1';
+
+function memoryStorage(initial: Record<string, string> = {}, quota = Infinity): Storage {
+  const items = new Map(Object.entries(initial));
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => {
+      if (value.length > quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+  };
+}
+
+const PHOTO = 'data:image/jpeg;base64,AAAA';
+
+const HOME: SavedPlace = {
+  ...createPlace('家', 1000),
+  id: 'pl-home',
+  notes: '三楼',
+  landmarks: ['红色大门'],
+  frames: [PHOTO],
+  route: [{ instruction: '出门左转', landmark: '绿色垃圾桶' }, { instruction: '过马路' }],
+};
+
+describe('loadPlaces and savePlaces', () => {
+  it('round-trips places through storage', () => {
+    const storage = memoryStorage();
+    savePlaces([HOME], storage);
+    expect(loadPlaces(storage)).toEqual([HOME]);
+  });
+
+  it('starts empty on missing, unreadable or unexpected storage', () => {
+    expect(loadPlaces(memoryStorage())).toEqual([]);
+    expect(loadPlaces(memoryStorage({ [PLACES_KEY]: '[{' }))).toEqual([]);
+    expect(loadPlaces(memoryStorage({ [PLACES_KEY]: '{"places":[]}' }))).toEqual([]);
+  });
+
+  it('drops stored places without an id or name and repairs the rest', () => {
+    const storage = memoryStorage({
+      [PLACES_KEY]: JSON.stringify([
+        null,
+        'pl-text',
+        { id: 'pl-unnamed', name: '  ' },
+        { name: 'no id' },
+        {
+          id: 'pl-old',
+          name: '公园',
+          notes: 3,
+          landmarks: ['长椅', 7],
+          frames: [PHOTO, 'http://example.com/photo.jpg', ...Array(MAX_PLACE_FRAMES).fill(PHOTO)],
+          route: ['walk', { instruction: '' }, { instruction: '直走', landmark: '' }],
+        },
+      ]),
+    });
+
+    const [park, ...rest] = loadPlaces(storage);
+    expect(rest).toEqual([]);
+    expect(park).toMatchObject({ id: 'pl-old', name: '公园', notes: '', landmarks: ['长椅'], route: [{ instruction: '直走' }] });
+    expect(park.frames).toHaveLength(MAX_PLACE_FRAMES);
+    expect(park.frames.every(f => f === PHOTO)).toBe(true);
+    expect(typeof park.createdAt).toBe('number');
+  });
+
+  it('keeps one place per id', () => {
+    const storage = memoryStorage({ [PLACES_KEY]: JSON.stringify([HOME, { ...HOME, name: '别处' }]) });
+    expect(loadPlaces(storage)).toEqual([HOME]);
+  });
+
+  it('explains a full storage in both languages', () => {
+    const storage = memoryStorage({}, 10);
+    expect(() => savePlaces([HOME], storage)).toThrow(/存储空间不足.*Not enough storage/);
+  });
+});
+
+describe('importPlaces', () => {
+  it('replaces places with the same id and keeps the others', () => {
+    const work = { ...HOME, id: 'pl-work', name: '公司' };
+    const renamed = { ...HOME, name: '新家' };
+    const { places, imported } = importPlaces(exportPlaces([renamed]), [HOME, work]);
+    expect(imported).toBe(1);
+    expect(places).toEqual([work, renamed]);
+  });
+
+  it('refuses anything but a places export of this version', () => {
+    expect(() => importPlaces(JSON.stringify({ version: 2, places: [] }), [])).toThrow('Not an OpenClaw places export');
+    expect(() => importPlaces(JSON.stringify([HOME]), [])).toThrow('Not an OpenClaw places export');
+    expect(() => importPlaces('not json', [])).toThrow();
+  });
+
+  it('imports only the usable places of an export', () => {
+    const json = JSON.stringify({ version: 1, places: [HOME, { id: 'broken' }] });
+    expect(importPlaces(json, [])).toEqual({ places: [HOME], imported: 1 });
+  });
+
+  it('rejects a place that is not an object', () => {
+    expect(parsePlace(undefined)).toBeNull();
+    expect(parsePlace(42)).toBeNull();
+  });
+});
+
+describe('route progress', () => {
+  it('accepts completed steps within the route only', () => {
+    expect(parseRouteProgress({ completed_step: 1, off_route: true }, HOME)).toEqual({ placeId: 'pl-home', stepIndex: 1, offRoute: true });
+    expect(parseRouteProgress({ completed_step: '2' }, HOME)).toEqual({ placeId: 'pl-home', stepIndex: 2, offRoute: false });
+    expect(parseRouteProgress({ completed_step: 3 }, HOME)).toBeNull();
+    expect(parseRouteProgress({ completed_step: -1 }, HOME)).toBeNull();
+    expect(parseRouteProgress({ completed_step: 0.5 }, HOME)).toBeNull();
+  });
+
+  it('tells the model the next step, or that the user has arrived', () => {
+    expect(routeInstructions(HOME)).toContain('下一步：第 1 步。');
+    expect(routeInstructions(HOME, { placeId: 'pl-home', stepIndex: 1, offRoute: false })).toContain('下一步：第 2 步。');
+    expect(routeInstructions(HOME, { placeId: 'pl-home', stepIndex: 2, offRoute: false })).toContain('用户已经到达目的地。');
+    // Progress on another route does not carry over.
+    expect(routeInstructions(HOME, { placeId: 'pl-work', stepIndex: 2, offRoute: false })).toContain('下一步：第 1 步。');
+  });
+});
@@ -0,0 +1,156 @@
+import { FunctionDeclaration, Part, Type } from '@google/genai';
+import { RouteProgress, RouteStep, SavedPlace } from '../types';
+
+export const ROUTE_PROGRESS_TOOL = 'report_route_progress';
+
+const PLACES_KEY = 'openclaw.places.v1';
+const EXPORT_VERSION = 1;
+
+export const MAX_PLACE_FRAMES = 4;
+
+let placeSeq = 0;
+
+export function createPlace(name: string, now = Date.now()): SavedPlace {
+  return {
+    id: `pl-${now.toString(36)}-${(++placeSeq).toString(36)}`,
+    name,
+    notes: '',
+    landmarks: [],
+    frames: [],
+    route: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function parseStep(value: unknown): RouteStep | null {
+  const step = value as Partial<RouteStep> | null;
+  if (!step || !isString(step.instruction) || !step.instruction.trim()) return null;
+  return isString(step.landmark) && step.landmark.trim()
+    ? { instruction: step.instruction, landmark: step.landmark }
+    : { instruction: step.instruction };
+}
+
+// Validates one stored or imported place; anything unusable is dropped rather than half-loaded.
+export function parsePlace(value: unknown): SavedPlace | null {
+  const place = value as Partial<SavedPlace> | null;
+  if (!place || !isString(place.id) || !isString(place.name) || !place.name.trim()) return null;
+  const now = Date.now();
+  return {
+    id: place.id,
+    name: place.name,
+    notes: isString(place.notes) ? place.notes : '',
+    landmarks: Array.isArray(place.landmarks) ? place.landmarks.filter(isString) : [],
+    frames: Array.isArray(place.frames)
+      ? place.frames.filter(f => isString(f) && f.startsWith('data:image/')).slice(0, MAX_PLACE_FRAMES)
+      : [],
+    route: Array.isArray(place.route) ? place.route.map(parseStep).filter((s): s is RouteStep => s !== null) : [],
+    createdAt: typeof place.createdAt === 'number' ? place.createdAt : now,
+    updatedAt: typeof place.updatedAt === 'number' ? place.updatedAt : now,
+  };
+}
+
+// A repeated id keeps its first copy; two places with one id cannot both be edited or activated.
+const parsePlaces = (values: unknown): SavedPlace[] =>
+  Array.isArray(values)
+    ? values.map(parsePlace).filter((p, i, all): p is SavedPlace => p !== null && all.findIndex(q => q?.id === p.id) === i)
+    : [];
+
+export function loadPlaces(storage: Storage = window.localStorage): SavedPlace[] {
+  try {
+    return parsePlaces(JSON.parse(storage.getItem(PLACES_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+}
+
+/** Throws when storage is full; reference frames are the bulk of the size. */
+export function savePlaces(places: SavedPlace[], storage: Storage = window.localStorage): void {
+  try {
+    storage.setItem(PLACES_KEY, JSON.stringify(places));
+  } catch {
+    throw new Error('存储空间不足，请删除一些参考照片。 Not enough storage left; remove some reference photos.');
+  }
+}
+
+export function exportPlaces(places: SavedPlace[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), places }, null, 2);
+}
+
+/**
+ * Merges an export (from this device or a caregiver's) into `existing`.
+ * Places with the same id are replaced by the imported copy.
+ */
+export function importPlaces(json: string, existing: SavedPlace[]): { places: SavedPlace[]; imported: number } {
+  const data = JSON.parse(json) as { version?: unknown; places?: unknown };
+  if (data?.version !== EXPORT_VERSION || !Array.isArray(data.places)) {
+    throw new Error('Not an OpenClaw places export');
+  }
+  const incoming = parsePlaces(data.places);
+  const ids = new Set(incoming.map(p => p.id));
+  return { places: [...existing.filter(p => !ids.has(p.id)), ...incoming], imported: incoming.length };
+}
+
+function describeStep(step: RouteStep, index: number): string {
+  return step.landmark ? `${index + 1}. ${step.instruction}（地标 / landmark: ${step.landmark}）` : `${index + 1}. ${step.instruction}`;
+}
+
+/**
+ * Route context appended to the system instruction. It is rebuilt from the
+ * current progress for every connect, so a resumed session picks up at the
+ * right step.
+ */
+export function routeInstructions(place: SavedPlace, progress?: RouteProgress | null): string {
+  const lines = [`【当前路线 / ACTIVE ROUTE】目的地：${place.name}`];
+  if (place.notes.trim()) lines.push(`说明：${place.notes.trim()}`);
+  const landmarks = place.landmarks.map(l => l.trim()).filter(Boolean);
+  if (landmarks.length) lines.push(`目的地地标：${landmarks.join('；')}`);
+  if (place.route.length) {
+    lines.push('路线步骤（按顺序）：', ...place.route.map(describeStep));
+    const next = progress?.placeId === place.id ? progress.stepIndex : 0;
+    lines.push(next < place.route.length ? `下一步：第 ${next + 1} 步。` : '用户已经到达目的地。');
+  }
+  lines.push(
+    `根据画面判断用户完成了哪一步：每当看到某一步的地标、或用户明显偏离路线时，调用 \`${ROUTE_PROGRESS_TOOL}\`。`,
+    '在 [行动建议] 中说出下一个地标；如果偏离路线，先提醒用户停下，再描述如何回到上一个确认过的地标。',
+  );
+  return lines.join('\n');
+}
+
+// Sent as a client turn when a route starts, with the reference photos so the model knows the place.
+export function routeActivationParts(place: SavedPlace, progress?: RouteProgress | null): Part[] {
+  const parts: Part[] = [{ text: `[路线开始 / ROUTE START]\n${routeInstructions(place, progress)}` }];
+  place.frames.forEach((frame, i) => {
+    const [, data] = frame.split(',', 2);
+    if (!data) return;
+    parts.push({ text: `${place.name} 参考照片 ${i + 1}` }, { inlineData: { mimeType: 'image/jpeg', data } });
+  });
+  return parts;
+}
+
+export const ROUTE_END_MESSAGE = '[路线结束 / ROUTE END] 用户已结束路线导航，不再需要报告路线进度。';
+
+export const PLACE_FUNCTION_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: ROUTE_PROGRESS_TOOL,
+    description: 'While a saved route is active, report which step the user has reached and whether they seem to be off the route.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        completed_step: { type: Type.INTEGER, description: 'Number (1-based) of the last route step whose landmark was confirmed; 0 if none yet.' },
+        off_route: { type: Type.BOOLEAN, description: 'True when the view no longer matches the route.' },
+        note: { type: Type.STRING, description: 'Optional short reason, e.g. which landmark was seen.' },
+      },
+      required: ['completed_step', 'off_route'],
+    },
+  },
+];
+
+// Validates model-supplied arguments against the route; returns null when the call is unusable.
+export function parseRouteProgress(args: Record<string, unknown>, place: SavedPlace): RouteProgress | null {
+  const completed = Number(args.completed_step);
+  if (!Number.isInteger(completed) || completed < 0 || completed > place.route.length) return null;
+  return { placeId: place.id, stepIndex: completed, offRoute: args.off_route === true };
+}
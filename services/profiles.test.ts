@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { NavigatorProfile } from '../types';
+import { BUILT_IN_PROFILES, DEFAULT_MODEL, DEFAULT_PROMPT_TEMPLATE, findProfile, loadProfiles, saveProfiles } from './profiles';
+
+const STORAGE_KEY = 'openclaw.profiles.v1';
+
+function memoryStorage(initial: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(initial));
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+}
+
+const stored = (value: unknown) => memoryStorage({ [STORAGE_KEY]: JSON.stringify(value) });
+
+const CUSTOM: NavigatorProfile = {
+  id: 'custom-1',
+  name: '我的配置',
+  language: 'yue-HK',
+  voiceName: 'Puck',
+  model: 'other-model',
+  verbosity: 'detailed',
+  framePolicy: { maxFps: 1 },
+  promptTemplate: '{{language_directive}}',
+  redaction: 'faces_plates',
+};
+
+describe('loadProfiles', () => {
+  it('starts from the built-in profiles', () => {
+    const state = loadProfiles(memoryStorage());
+    expect(state.profiles).toEqual(BUILT_IN_PROFILES);
+    expect(state.activeId).toBe(BUILT_IN_PROFILES[0].id);
+  });
+
+  it('round-trips custom profiles and the active choice, storing only the custom ones', () => {
+    const storage = memoryStorage();
+    saveProfiles({ activeId: CUSTOM.id, profiles: [...BUILT_IN_PROFILES, CUSTOM] }, storage);
+    expect(JSON.parse(storage.getItem(STORAGE_KEY)!)).toEqual({ activeId: CUSTOM.id, custom: [CUSTOM] });
+
+    const state = loadProfiles(storage);
+    expect(findProfile(state)).toEqual({ ...CUSTOM, builtIn: false });
+    expect(state.profiles).toHaveLength(BUILT_IN_PROFILES.length + 1);
+  });
+
+  it('survives unreadable or unexpected storage', () => {
+    expect(loadProfiles(memoryStorage({ [STORAGE_KEY]: '{not json' })).profiles).toEqual(BUILT_IN_PROFILES);
+    expect(loadProfiles(stored(42)).profiles).toEqual(BUILT_IN_PROFILES);
+    expect(loadProfiles(stored({ activeId: 'zh-hazards', custom: 'nope' }))).toEqual({ activeId: 'zh-hazards', profiles: BUILT_IN_PROFILES });
+  });
+
+  it('falls back to the first profile when the active one is gone', () => {
+    expect(loadProfiles(stored({ activeId: 'deleted', custom: [] })).activeId).toBe(BUILT_IN_PROFILES[0].id);
+  });
+
+  it('gives profiles saved before redaction existed the default policy', () => {
+    const { redaction: _, ...old } = CUSTOM;
+    const [profile] = loadProfiles(stored({ activeId: CUSTOM.id, custom: [old] })).profiles.slice(-1);
+    expect(profile.redaction).toBe('faces');
+  });
+
+  it('drops entries that are not profiles and repairs garbled fields', () => {
+    const state = loadProfiles(stored({
+      activeId: 'garbled',
+      custom: [
+        null,
+        'custom-2',
+        { name: 'no id' },
+        { id: 'zh-standard', name: 'shadows a built-in' },
+        { id: 'garbled', language: 'fr-FR', voiceName: 'Nobody', model: '', verbosity: 'chatty', framePolicy: [1], promptTemplate: 7, redaction: 'all' },
+        { id: 'garbled', name: 'duplicate' },
+      ],
+    }));
+
+    expect(state.profiles.map(p => p.id)).toEqual([...BUILT_IN_PROFILES.map(p => p.id), 'garbled']);
+    expect(state.profiles.find(p => p.id === 'zh-standard')).toEqual(BUILT_IN_PROFILES[0]);
+    expect(findProfile(state)).toEqual({
+      id: 'garbled',
+      name: 'garbled',
+      builtIn: false,
+      language: 'zh-CN',
+      voiceName: 'Kore',
+      model: DEFAULT_MODEL,
+      verbosity: 'concise',
+      framePolicy: {},
+      promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+      redaction: 'faces',
+    });
+  });
+});
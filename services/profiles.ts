@@ -0,0 +1,244 @@
+import { LiveConnectConfig, Modality } from '@google/genai';
+import { InputMode, InteractionMode, NavigatorProfile, RouteProgress, SavedPlace, ProfileLanguage, Verbosity } from '../types';
+import { HAZARD_FUNCTION_DECLARATIONS } from './hazards';
+import { MODE_FUNCTION_DECLARATIONS, modeInstructions } from './modes';
+import { DEFAULT_REDACTION, REDACTION_LABELS } from './redaction';
+import { DEFAULT_INPUT_MODE, realtimeInputConfig } from './inputModes';
+import { PLACE_FUNCTION_DECLARATIONS, routeInstructions } from './places';
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+export const VOICE_NAMES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const LANGUAGE_NAMES: Record<ProfileLanguage, string> = {
+  'zh-CN': '中文（普通话）',
+  'en-US': 'English',
+  'yue-HK': '粵語（廣東話）',
+};
+
+// BCP-47 tag for the browser's speechSynthesis, which rarely knows `yue`.
+export const SPEECH_LANG: Record<ProfileLanguage, string> = {
+  'zh-CN': 'zh-CN',
+  'en-US': 'en-US',
+  'yue-HK': 'zh-HK',
+};
+
+const LANGUAGE_DIRECTIVES: Record<ProfileLanguage, string> = {
+  'zh-CN': '请务必使用中文（普通话）进行回复。',
+  'en-US': 'Always reply in English, even though these instructions are written in Chinese.',
+  'yue-HK': '请务必使用粤语（广东话）口语进行回复。',
+};
+
+export const VERBOSITY_LABELS: Record<Verbosity, string> = {
+  hazards_only: 'Hazards only',
+  concise: 'Concise',
+  detailed: 'Detailed',
+};
+
+const VERBOSITY_INSTRUCTIONS: Record<Verbosity, string> = {
+  hazards_only: '只播报危险和必要的行动建议。没有危险时保持沉默，除非用户主动提问。',
+  concise: '每次回复不超过两句话，按重要性排序。',
+  detailed: '在安全信息优先的前提下，提供丰富的场景描述，包括周围物体、文字和空间布局。',
+};
+
+export const DEFAULT_PROMPT_TEMPLATE = `
+# Role: OpenClaw-Vision (The Digital Navigator)
+你是一款专门为视觉障碍人士设计的实时辅助 AI。你的目标是通过摄像头画面，成为用户的“眼睛”，提供精准、客观且富有同情心的环境描述与行动建议。
+
+## Core Principles (核心原则)
+1. 安全性第一：优先识别楼梯、车辆、障碍物、红绿灯等潜在危险。
+2. 客观描述：避免使用“漂亮”、“好”等主观词汇。优先描述物体的相对位置（如：1点钟方向，约2米处）。
+3. 高效简洁：盲人依赖听觉，信息必须干练，按重要性排序。
+4. 隐私保护：自动忽略或模糊处理画面中无关人员的面部特征。
+
+## Verbosity (详细程度)
+{{verbosity_instructions}}
+
+## Current Mode (当前模式)
+{{mode_instructions}}
+用户可以随时用语音切换模式（行走、读文字、寻物、场景描述）。用户提出切换时调用 \`set_mode\` 工具。
+
+## Processing Workflow (分析流程)
+每当你接收到一张图片或一段视频流时，请按以下步骤思考并按需通过语音反馈：
+1. **Safety Check**: 检查是否有立即威胁（红灯、台阶、来车、障碍物、落差）。如果有，必须先调用 \`report_hazard\` 工具（hazard_type、clock_direction、distance_meters、severity），然后立即用语音警告。不要在没有调用该工具的情况下发出紧急警告。
+2. **Scene Parsing**: 识别当前场景（如：厨房、人行道）。
+3. **Main Subject**: 识别画面中心或用户关注的主体。
+4. **Spatial Mapping**: 使用“时钟方向法”定位物体。
+5. **Output Generation**: 按照下方的输出模板，用{{language_name}}生成易于理解的语音。
+
+## Response Template (输出模板)
+你的回复必须遵循以下结构（如果某项不适用可省略，但整体风格保持一致）：
+- **[紧急警告]**: 仅在有危险时显示（例如：**前方有阶梯，请停下**）。
+- **[环境概况]**: 一句话描述（例如：你现在正站在十字路口，左侧是一家咖啡店）。
+- **[详细信息]**:
+  - 物体 A：位置（时钟方向），特征。
+  - 物体 B：位置（时钟方向），特征。
+- **[文字内容]**: (「读文字」和「场景描述」模式，或行走时的路牌) “路牌显示：南京东路”。
+- **[行动建议]**: (「行走」和「寻物」模式) 例如：你可以继续直行约5步，避开右侧的消防栓。
+
+当用户要求重复刚才的危险提示时，调用 \`get_hazard_history\` 工具并按时间从新到旧复述。
+
+{{language_directive}}
+`;
+
+export const BUILT_IN_PROFILES: NavigatorProfile[] = [
+  {
+    id: 'zh-standard',
+    name: '中文 · 标准',
+    builtIn: true,
+    language: 'zh-CN',
+    voiceName: 'Kore',
+    model: DEFAULT_MODEL,
+    verbosity: 'concise',
+    framePolicy: {},
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    redaction: DEFAULT_REDACTION,
+  },
+  {
+    id: 'zh-hazards',
+    name: '中文 · 仅危险',
+    builtIn: true,
+    language: 'zh-CN',
+    voiceName: 'Kore',
+    model: DEFAULT_MODEL,
+    verbosity: 'hazards_only',
+    framePolicy: { maxFps: 4, maxWidth: 640, maxHeight: 640 },
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    redaction: DEFAULT_REDACTION,
+  },
+  {
+    id: 'en-detailed',
+    name: 'English · Detailed',
+    builtIn: true,
+    language: 'en-US',
+    voiceName: 'Puck',
+    model: DEFAULT_MODEL,
+    verbosity: 'detailed',
+    framePolicy: { maxWidth: 1024, maxHeight: 1024 },
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    redaction: DEFAULT_REDACTION,
+  },
+  {
+    id: 'yue-standard',
+    name: '粵語 · 標準',
+    builtIn: true,
+    language: 'yue-HK',
+    voiceName: 'Kore',
+    model: DEFAULT_MODEL,
+    verbosity: 'concise',
+    framePolicy: {},
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    redaction: DEFAULT_REDACTION,
+  },
+];
+
+// Replaces {{slot}} placeholders. Unknown slots are left in place so typos stay visible.
+export function renderPrompt(template: string, slots: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => slots[key] ?? match);
+}
+
+export function profileSlots(
+  profile: NavigatorProfile,
+  mode: InteractionMode = 'walk',
+  target?: string | null,
+): Record<string, string> {
+  return {
+    language_name: LANGUAGE_NAMES[profile.language],
+    language_directive: LANGUAGE_DIRECTIVES[profile.language],
+    verbosity_instructions: VERBOSITY_INSTRUCTIONS[profile.verbosity],
+    mode_instructions: modeInstructions(mode, target),
+  };
+}
+
+// Everything besides the profile that shapes a connect: the current mode, input style and route.
+export interface LiveContext {
+  mode?: InteractionMode;
+  target?: string | null;
+  inputMode?: InputMode;
+  route?: SavedPlace | null;
+  routeProgress?: RouteProgress | null;
+}
+
+export function buildLiveConfig(profile: NavigatorProfile, context: LiveContext = {}): LiveConnectConfig {
+  const { mode = 'walk', target, inputMode = DEFAULT_INPUT_MODE, route, routeProgress } = context;
+  const prompt = renderPrompt(profile.promptTemplate, profileSlots(profile, mode, target));
+  return {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voiceName } },
+    },
+    systemInstruction: route ? `${prompt}\n\n${routeInstructions(route, routeProgress)}` : prompt,
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+    realtimeInputConfig: realtimeInputConfig(inputMode),
+    tools: [{
+      functionDeclarations: [...HAZARD_FUNCTION_DECLARATIONS, ...MODE_FUNCTION_DECLARATIONS, ...PLACE_FUNCTION_DECLARATIONS],
+    }],
+  };
+}
+
+const STORAGE_KEY = 'openclaw.profiles.v1';
+
+interface StoredProfiles {
+  activeId: string;
+  custom: NavigatorProfile[];
+}
+
+export interface ProfileState {
+  activeId: string;
+  profiles: NavigatorProfile[];
+}
+
+const oneOf = <T extends string>(labels: Record<T, string>, value: unknown, fallback: T): T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value) ? value as T : fallback;
+
+const text = (value: unknown, fallback: string) => (typeof value === 'string' && value.trim() ? value : fallback);
+
+// Fills in what a stored profile lacks (e.g. redaction, saved before it existed) or has garbled; null if it has no usable id.
+function migrateProfile(value: unknown): NavigatorProfile | null {
+  const p = value as Partial<Record<keyof NavigatorProfile, unknown>> | null;
+  if (!p || typeof p !== 'object' || typeof p.id !== 'string' || !p.id) return null;
+  const framePolicy = p.framePolicy && typeof p.framePolicy === 'object' && !Array.isArray(p.framePolicy) ? p.framePolicy : {};
+  return {
+    id: p.id,
+    name: text(p.name, p.id),
+    builtIn: false,
+    language: oneOf(LANGUAGE_NAMES, p.language, 'zh-CN'),
+    voiceName: VOICE_NAMES.includes(p.voiceName as string) ? p.voiceName as string : VOICE_NAMES[0],
+    model: text(p.model, DEFAULT_MODEL),
+    verbosity: oneOf(VERBOSITY_LABELS, p.verbosity, 'concise'),
+    framePolicy: framePolicy as NavigatorProfile['framePolicy'],
+    promptTemplate: text(p.promptTemplate, DEFAULT_PROMPT_TEMPLATE),
+    redaction: oneOf(REDACTION_LABELS, p.redaction, DEFAULT_REDACTION),
+  };
+}
+
+export function loadProfiles(storage: Storage = window.localStorage): ProfileState {
+  let stored: Partial<StoredProfiles> | null = null;
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    stored = raw ? JSON.parse(raw) : null;
+  } catch {
+    stored = null;
+  }
+  const profiles = [...BUILT_IN_PROFILES];
+  // A custom profile may not shadow a built-in one or an earlier custom one.
+  for (const entry of Array.isArray(stored?.custom) ? stored!.custom : []) {
+    const profile = migrateProfile(entry);
+    if (profile && !profiles.some(p => p.id === profile.id)) profiles.push(profile);
+  }
+  const activeId = profiles.some(p => p.id === stored?.activeId) ? stored!.activeId! : BUILT_IN_PROFILES[0].id;
+  return { activeId, profiles };
+}
+
+export function saveProfiles(state: ProfileState, storage: Storage = window.localStorage): void {
+  const stored: StoredProfiles = {
+    activeId: state.activeId,
+    custom: state.profiles.filter(p => !p.builtIn),
+  };
+  storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+export function findProfile(state: ProfileState): NavigatorProfile {
+  return state.profiles.find(p => p.id === state.activeId) ?? BUILT_IN_PROFILES[0];
+}
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RedactionPolicy } from '../types';
+import { DEFAULT_FRAME_POLICY, RgbaFrame } from '../utils/frames';
+import { Region, redactCanvas } from './redaction';
+import { canvasThumbnail, createCanvasFrameSource } from './canvasFrameSource';
+import {
+  StubCanvasElement,
+  createCanvasStub,
+  emptyStreetFrame,
+  faceFrame,
+  plateFrame,
+  streetSceneFrame,
+  stubVideo,
+} from '../fixtures/redactionFrames';
+
+const EYE = [40, 30, 30];
+const PLATE_TEXT = [20, 20, 25];
+
+// Pixels of one exact colour inside `region`; a pixelated region has lost its fine detail.
+function countColour(frame: RgbaFrame, region: Region, [r, g, b]: number[]): number {
+  let n = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const i = (y * frame.width + x) * 4;
+      if (frame.data[i] === r && frame.data[i + 1] === g && frame.data[i + 2] === b) n++;
+    }
+  }
+  return n;
+}
+
+// toEqual is far too slow on full frames.
+const samePixels = (a: RgbaFrame, b: RgbaFrame) =>
+  a.width === b.width && a.height === b.height && a.data.every((v, i) => v === b.data[i]);
+
+const contains = (region: Region, x: number, y: number, width: number, height: number) =>
+  region.x <= x && region.y <= y && region.x + region.width >= x + width && region.y + region.height >= y + height;
+
+function redact(frame: RgbaFrame, policy: RedactionPolicy) {
+  const canvas = createCanvasStub(frame);
+  const regions = redactCanvas(canvas, frame.width, frame.height, policy);
+  return { canvas, regions };
+}
+
+describe('redactCanvas', () => {
+  it('pixelates a face, eyes and outline included', () => {
+    const frame = faceFrame();
+    const { canvas, regions } = redact(frame, 'faces');
+
+    expect(regions).toHaveLength(1);
+    expect(regions[0].kind).toBe('face');
+    // The face ellipse spans 280..360 x 128..232.
+    expect(contains(regions[0], 280, 128, 80, 104)).toBe(true);
+    expect(countColour(frame, regions[0], EYE)).toBeGreaterThan(0);
+    expect(countColour(canvas.frame, regions[0], EYE)).toBe(0);
+    expect(canvas.puts).toBe(1);
+  });
+
+  it('pixelates plate text only when the policy covers plates', () => {
+    const frame = plateFrame();
+    expect(redact(frame, 'faces').regions).toEqual([]);
+
+    const { canvas, regions } = redact(frame, 'faces_plates');
+    const plate = regions.find(r => r.kind === 'plate');
+    expect(plate).toBeDefined();
+    // The plate spans 250..390 x 330..366.
+    expect(contains(plate!, 258, 337, 124, 22)).toBe(true);
+    expect(countColour(frame, plate!, PLATE_TEXT)).toBeGreaterThan(0);
+    expect(countColour(canvas.frame, plate!, PLATE_TEXT)).toBe(0);
+  });
+
+  it('finds both in a street scene', () => {
+    const { regions } = redact(streetSceneFrame(), 'faces_plates');
+    expect(regions.map(r => r.kind).sort()).toEqual(['face', 'plate']);
+  });
+
+  it('leaves the canvas alone when there is nothing to hide or redaction is off', () => {
+    expect(redact(emptyStreetFrame(), 'faces_plates').canvas.puts).toBe(0);
+    const off = redact(faceFrame(), 'off');
+    expect(off.regions).toEqual([]);
+    expect(off.canvas.puts).toBe(0);
+  });
+});
+
+describe('canvas frame source', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('redacts before the encoder, signature, pre-filter and journal thumbnail read the frame', async () => {
+    const frame = streetSceneFrame();
+    const expected = redact(frame, 'faces_plates').canvas.frame;
+    vi.stubGlobal('document', { createElement: () => new StubCanvasElement() });
+    const canvas = new StubCanvasElement();
+    const hidden: Region[][] = [];
+    const source = createCanvasFrameSource(
+      stubVideo(frame) as unknown as HTMLVideoElement,
+      canvas as unknown as HTMLCanvasElement,
+      { redaction: 'faces_plates', onRedact: regions => hidden.push(regions) },
+    );
+
+    const grabbed = source.grab(DEFAULT_FRAME_POLICY);
+    expect(grabbed?.signature).toHaveLength(16 * 12);
+    expect(grabbed?.analysis).toBeDefined();
+    await grabbed!.encode();
+    canvasThumbnail(canvas as unknown as HTMLCanvasElement);
+
+    expect(hidden).toHaveLength(1);
+    expect(hidden[0]).toHaveLength(2);
+    // Signature canvas, pre-filter canvas, JPEG encode, journal thumbnail.
+    expect(canvas.reads).toHaveLength(4);
+    for (const read of canvas.reads) {
+      expect(samePixels(read, expected)).toBe(true);
+      for (const region of hidden[0]) {
+        expect(countColour(read, region, region.kind === 'face' ? EYE : PLATE_TEXT)).toBe(0);
+      }
+    }
+  });
+});
@@ -0,0 +1,223 @@
+import { RedactionPolicy } from '../types';
+import { RgbaFrame, toLuma } from '../utils/frames';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  kind: 'face' | 'plate';
+}
+
+// Anything that finds regions to hide. The bundled one is heuristic; a WASM model can replace it.
+export interface RegionDetector {
+  detect(frame: RgbaFrame, policy: RedactionPolicy): Region[];
+}
+
+// The two calls the redaction stage makes, so a Node canvas stub can stand in for the browser.
+export type RedactionContext = Pick<CanvasRenderingContext2D, 'getImageData' | 'putImageData'>;
+
+export const REDACTION_LABELS: Record<RedactionPolicy, string> = {
+  off: '关闭 (Off)',
+  faces: '人脸 (Faces)',
+  faces_plates: '人脸与车牌 (Faces + plates)',
+};
+
+export const DEFAULT_REDACTION: RedactionPolicy = 'faces';
+
+const DETECT_WIDTH = 160;
+const FACE_MARGIN = 0.3; // grow boxes so hair, ears and the face outline are covered too
+const PLATE_MARGIN = 0.15;
+const PIXEL_BLOCKS = 8; // blocks across the smaller side of a region
+
+// Nearest-neighbour copy at detection resolution; keeps the detector cost independent of the frame size.
+export function downsample(frame: RgbaFrame, width = DETECT_WIDTH): RgbaFrame {
+  if (frame.width <= width) return frame;
+  const height = Math.max(1, Math.round((frame.height * width) / frame.width));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.floor((y * frame.height) / height);
+    for (let x = 0; x < width; x++) {
+      const sx = Math.floor((x * frame.width) / width);
+      const s = (sy * frame.width + sx) * 4;
+      const d = (y * width + x) * 4;
+      data[d] = frame.data[s];
+      data[d + 1] = frame.data[s + 1];
+      data[d + 2] = frame.data[s + 2];
+      data[d + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// Skin chroma range in YCbCr; covers light to dark skin tones and ignores brightness.
+const isSkin = (r: number, g: number, b: number) => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+interface Blob {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  area: number;
+}
+
+// 4-connected components of a 0/1 mask.
+function components(mask: Uint8Array, width: number, height: number): Blob[] {
+  const blobs: Blob[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== 1) continue;
+    mask[start] = 2;
+    stack.push(start);
+    const blob: Blob = { minX: width, maxX: 0, minY: height, maxY: 0, area: 0 };
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      blob.area++;
+      blob.minX = Math.min(blob.minX, x); blob.maxX = Math.max(blob.maxX, x);
+      blob.minY = Math.min(blob.minY, y); blob.maxY = Math.max(blob.maxY, y);
+      if (x > 0 && mask[i - 1] === 1) { mask[i - 1] = 2; stack.push(i - 1); }
+      if (x < width - 1 && mask[i + 1] === 1) { mask[i + 1] = 2; stack.push(i + 1); }
+      if (y > 0 && mask[i - width] === 1) { mask[i - width] = 2; stack.push(i - width); }
+      if (y < height - 1 && mask[i + width] === 1) { mask[i + width] = 2; stack.push(i + width); }
+    }
+    blobs.push(blob);
+  }
+  return blobs;
+}
+
+/** Skin-coloured, roughly face-shaped blobs. Errs on the side of hiding hands and arms too. */
+export function detectFaces(frame: RgbaFrame): Region[] {
+  const { width, height, data } = frame;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    if (isSkin(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])) mask[i] = 1;
+  }
+  const minArea = Math.max(12, width * height * 0.002);
+  return components(mask, width, height)
+    .filter(b => {
+      const w = b.maxX - b.minX + 1;
+      const h = b.maxY - b.minY + 1;
+      return b.area >= minArea && w / h >= 0.4 && w / h <= 1.5 && b.area / (w * h) >= 0.4;
+    })
+    .map(b => ({ x: b.minX, y: b.minY, width: b.maxX - b.minX + 1, height: b.maxY - b.minY + 1, kind: 'face' as const }));
+}
+
+/**
+ * Plate-like text: a wide band packed with strong vertical strokes. Stroke
+ * pixels are joined horizontally, then bands of plate proportions are kept.
+ */
+export function detectPlates(frame: RgbaFrame): Region[] {
+  const { width, height } = frame;
+  const luma = toLuma(frame);
+  const strokes = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      if (Math.abs(luma[y * width + x + 1] - luma[y * width + x]) > 0.3) strokes[y * width + x] = 1;
+    }
+  }
+  // Close gaps between characters.
+  const gap = Math.max(2, Math.round(width / 40));
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    let last = -Infinity;
+    for (let x = 0; x < width; x++) {
+      if (!strokes[y * width + x]) continue;
+      if (x - last <= gap) mask.fill(1, y * width + last, y * width + x + 1);
+      mask[y * width + x] = 1;
+      last = x;
+    }
+  }
+  return components(mask, width, height)
+    .filter(b => {
+      const w = b.maxX - b.minX + 1;
+      const h = b.maxY - b.minY + 1;
+      if (w / h < 2 || w / h > 7 || h < 3 || h > height * 0.25 || b.area / (w * h) < 0.5) return false;
+      let count = 0;
+      for (let y = b.minY; y <= b.maxY; y++) {
+        for (let x = b.minX; x <= b.maxX; x++) count += strokes[y * width + x];
+      }
+      // Text has many strokes per row; a single bright bar has two.
+      return count / h >= 6;
+    })
+    .map(b => ({ x: b.minX, y: b.minY, width: b.maxX - b.minX + 1, height: b.maxY - b.minY + 1, kind: 'plate' as const }));
+}
+
+export const heuristicDetector: RegionDetector = {
+  detect(frame, policy) {
+    if (policy === 'off') return [];
+    const faces = detectFaces(frame);
+    return policy === 'faces_plates' ? [...faces, ...detectPlates(frame)] : faces;
+  },
+};
+
+// Scales a region found at detection resolution back to the frame, with a safety margin.
+export function scaleRegion(region: Region, scale: number, frameWidth: number, frameHeight: number): Region {
+  const margin = region.kind === 'face' ? FACE_MARGIN : PLATE_MARGIN;
+  const mx = region.width * margin;
+  const my = region.height * margin;
+  const x = Math.max(0, Math.floor((region.x - mx) * scale));
+  const y = Math.max(0, Math.floor((region.y - my) * scale));
+  return {
+    kind: region.kind,
+    x,
+    y,
+    width: Math.min(frameWidth, Math.ceil((region.x + region.width + mx) * scale)) - x,
+    height: Math.min(frameHeight, Math.ceil((region.y + region.height + my) * scale)) - y,
+  };
+}
+
+/** Replaces a region with coarse flat blocks. Unlike a blur, nothing can be recovered from it. */
+export function pixelateRegion(frame: RgbaFrame, region: Region): void {
+  const block = Math.max(2, Math.ceil(Math.min(region.width, region.height) / PIXEL_BLOCKS));
+  const { width, data } = frame;
+  for (let by = region.y; by < region.y + region.height; by += block) {
+    for (let bx = region.x; bx < region.x + region.width; bx += block) {
+      const ex = Math.min(bx + block, region.x + region.width);
+      const ey = Math.min(by + block, region.y + region.height);
+      let r = 0, g = 0, b = 0, n = 0;
+      for (let y = by; y < ey; y++) {
+        for (let x = bx; x < ex; x++) {
+          const i = (y * width + x) * 4;
+          r += data[i]; g += data[i + 1]; b += data[i + 2]; n++;
+        }
+      }
+      if (!n) continue;
+      for (let y = by; y < ey; y++) {
+        for (let x = bx; x < ex; x++) {
+          const i = (y * width + x) * 4;
+          data[i] = r / n; data[i + 1] = g / n; data[i + 2] = b / n;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * The redaction stage: runs after the frame is drawn and before anything
+ * reads the canvas (JPEG encode, signature, thumbnails). Returns the regions
+ * it hid, in frame coordinates.
+ */
+export function redactCanvas(
+  ctx: RedactionContext,
+  width: number,
+  height: number,
+  policy: RedactionPolicy,
+  detector: RegionDetector = heuristicDetector,
+): Region[] {
+  if (policy === 'off') return [];
+  const image = ctx.getImageData(0, 0, width, height);
+  const small = downsample(image);
+  const scale = width / small.width;
+  const regions = detector.detect(small, policy).map(r => scaleRegion(r, scale, width, height));
+  if (regions.length === 0) return regions;
+  for (const region of regions) pixelateRegion(image, region);
+  ctx.putImageData(image, 0, 0);
+  return regions;
+}
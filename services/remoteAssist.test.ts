@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AssistServerMessage } from './assistProtocol';
+import { ASSIST_VIDEO_FPS, NavigatorAssist, assistVideoStream } from './remoteAssist';
+
+class FakeTrack {
+  constructor(readonly kind: string, readonly label: string) {}
+}
+
+class FakeStream {
+  constructor(private tracks: FakeTrack[]) {}
+  getVideoTracks() {
+    return this.tracks.filter(t => t.kind === 'video');
+  }
+}
+
+const asStream = (stream: FakeStream) => stream as unknown as MediaStream;
+
+// Just enough of a relay socket: opens on the next tick and lets the test play the relay's side.
+class FakeSocket {
+  static OPEN = 1;
+  static last: FakeSocket | null = null;
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.last = this;
+    queueMicrotask(() => {
+      this.readyState = FakeSocket.OPEN;
+      this.onopen?.();
+    });
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  receive(message: AssistServerMessage) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+class FakePeerConnection {
+  static all: FakePeerConnection[] = [];
+  transceivers: { trackOrKind: unknown; init: RTCRtpTransceiverInit }[] = [];
+  localDescription: { toJSON(): unknown } | null = null;
+  ontrack = null;
+  onicecandidate = null;
+
+  constructor() {
+    FakePeerConnection.all.push(this);
+  }
+
+  addTransceiver(trackOrKind: unknown, init: RTCRtpTransceiverInit) {
+    this.transceivers.push({ trackOrKind, init });
+  }
+
+  async createOffer() {
+    return { type: 'offer', sdp: 'v=0' };
+  }
+
+  async setLocalDescription(description: unknown) {
+    this.localDescription = { toJSON: () => description };
+  }
+
+  getTransceivers() {
+    return [];
+  }
+
+  close() {}
+}
+
+beforeEach(() => {
+  FakePeerConnection.all = [];
+  vi.stubGlobal('WebSocket', FakeSocket);
+  vi.stubGlobal('RTCPeerConnection', FakePeerConnection);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('assistVideoStream', () => {
+  const camera = new FakeStream([new FakeTrack('video', 'raw camera')]);
+  const redacted = new FakeStream([new FakeTrack('video', 'redacted canvas')]);
+  const canvas = { captureStream: vi.fn(() => asStream(redacted)) };
+
+  it('captures the redacted frame canvas whenever redaction is on', () => {
+    expect(assistVideoStream(asStream(camera), canvas, 'faces')).toBe(redacted);
+    expect(assistVideoStream(asStream(camera), canvas, 'faces_plates')).toBe(redacted);
+    expect(canvas.captureStream).toHaveBeenCalledWith(ASSIST_VIDEO_FPS);
+  });
+
+  it('sends the camera itself only with redaction off', () => {
+    canvas.captureStream.mockClear();
+    expect(assistVideoStream(asStream(camera), canvas, 'off')).toBe(camera);
+    expect(canvas.captureStream).not.toHaveBeenCalled();
+  });
+});
+
+describe('NavigatorAssist', () => {
+  it('publishes the redacted track to an admitted caregiver', async () => {
+    const camera = new FakeStream([new FakeTrack('video', 'raw camera')]);
+    const redactedTrack = new FakeTrack('video', 'redacted canvas');
+    const video = assistVideoStream(asStream(camera), { captureStream: () => asStream(new FakeStream([redactedTrack])) }, 'faces');
+
+    const assist = new NavigatorAssist('ws://relay.test/relay', '123456');
+    assist.setVideoStream(video);
+    await Promise.resolve();
+    const socket = FakeSocket.last!;
+    expect(socket.sent).toEqual([{ type: 'join', room: '123456', role: 'navigator' }]);
+
+    socket.receive({ type: 'joined', peerId: 'nav', peers: [] });
+    socket.receive({ type: 'peer', event: 'requested', peer: { peerId: 'cg', role: 'caregiver' } });
+    expect(FakePeerConnection.all).toHaveLength(0);
+    assist.answer('cg', true);
+    socket.receive({ type: 'peer', event: 'joined', peer: { peerId: 'cg', role: 'caregiver' } });
+
+    const [pc] = FakePeerConnection.all;
+    const sent = pc.transceivers.find(t => t.init.direction === 'sendonly');
+    expect(sent?.trackOrKind).toBe(redactedTrack);
+    expect(sent?.init.streams).toEqual([video]);
+    assist.dispose();
+  });
+});
@@ -0,0 +1,329 @@
+import { RedactionPolicy } from '../types';
+import { TypedEmitter } from '../utils/emitter';
+import {
+  AssistClientMessage,
+  AssistRole,
+  AssistServerMessage,
+  RTC_CONFIG,
+  SignalPayload,
+} from './assistProtocol';
+import { INSPECT_INTERVAL_MS } from './FrameScheduler';
+
+interface ChannelEvents {
+  message: AssistServerMessage;
+  closed: string;
+}
+
+/** One WebSocket to the relay, joined to a room in one role. */
+class AssistChannel extends TypedEmitter<ChannelEvents> {
+  private socket: WebSocket;
+  private closedByUs = false;
+  private lastError: string | null = null; // the relay explains before it hangs up
+
+  constructor(url: string, room: string, role: AssistRole) {
+    super();
+    this.socket = new WebSocket(url);
+    this.socket.onopen = () => this.send({ type: 'join', room, role });
+    this.socket.onmessage = (e) => {
+      let message: AssistServerMessage;
+      try {
+        message = JSON.parse(String(e.data)) as AssistServerMessage;
+      } catch {
+        return; // Ignore anything that is not JSON; the relay never sends it.
+      }
+      if (message.type === 'error') this.lastError = message.message;
+      this.emit('message', message);
+    };
+    this.socket.onclose = () => {
+      if (!this.closedByUs) this.emit('closed', this.lastError ?? 'Relay connection closed');
+    };
+    this.socket.onerror = () => {
+      if (!this.closedByUs) this.emit('closed', 'Could not reach the relay');
+    };
+  }
+
+  send(message: AssistClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  close(): void {
+    this.closedByUs = true;
+    this.socket.close();
+    this.removeAllListeners();
+  }
+}
+
+async function applySignal(pc: RTCPeerConnection, signal: SignalPayload): Promise<void> {
+  if ('description' in signal) {
+    await pc.setRemoteDescription(signal.description);
+  } else {
+    await pc.addIceCandidate(signal.candidate);
+  }
+}
+
+// The pre-filter redraws the frame canvas this often; capturing faster would only repeat frames.
+export const ASSIST_VIDEO_FPS = 1000 / INSPECT_INTERVAL_MS;
+
+/**
+ * What caregivers see. With redaction on, that is the frame canvas, which only
+ * ever holds redacted pixels, so they see what the model sees; only with
+ * redaction off do they get the smoother raw camera.
+ */
+export function assistVideoStream(
+  camera: MediaStream | null,
+  canvas: Pick<HTMLCanvasElement, 'captureStream'>,
+  redaction: RedactionPolicy,
+): MediaStream | null {
+  return redaction === 'off' ? camera : canvas.captureStream(ASSIST_VIDEO_FPS);
+}
+
+export interface NavigatorAssistEvents {
+  caregivers: number;
+  requests: string[]; // caregivers waiting to be let in, oldest first
+  talk: boolean; // whether any caregiver is holding talk
+  talkStream: MediaStream; // a caregiver's mic, to be routed into the output engine
+  error: string;
+}
+
+/**
+ * The user's side of remote assist. Opens the room, lets caregivers in one
+ * by one, publishes the camera to each over its own peer connection, relays
+ * transcript and hazard events, and receives talk-back audio.
+ */
+export class NavigatorAssist extends TypedEmitter<NavigatorAssistEvents> {
+  private channel: AssistChannel;
+  private peers = new Map<string, RTCPeerConnection>();
+  private pending: string[] = [];
+  private talking = new Set<string>();
+  private video: MediaStream | null = null;
+
+  constructor(url: string, readonly room: string) {
+    super();
+    this.channel = new AssistChannel(url, room, 'navigator');
+    this.channel.on('message', (message) => this.handle(message));
+    this.channel.on('closed', (reason) => this.emit('error', reason));
+  }
+
+  get caregiverCount(): number {
+    return this.peers.size;
+  }
+
+  /** Call again after a camera switch; live connections swap the track in place. */
+  setVideoStream(stream: MediaStream | null): void {
+    this.video = stream;
+    const track = stream?.getVideoTracks()[0] ?? null;
+    for (const pc of this.peers.values()) {
+      pc.getTransceivers()
+        .filter(t => t.receiver.track.kind === 'video')
+        .forEach(t => t.sender.replaceTrack(track));
+    }
+  }
+
+  publish(message: Extract<AssistClientMessage, { type: 'transcript' | 'hazard' | 'status' }>): void {
+    if (this.peers.size) this.channel.send(message);
+  }
+
+  /** Lets a waiting caregiver in, or turns them away. */
+  answer(peerId: string, accept: boolean): void {
+    if (!this.pending.includes(peerId)) return;
+    this.setPending(this.pending.filter(id => id !== peerId));
+    this.channel.send({ type: 'admit', peerId, accept });
+  }
+
+  dispose(): void {
+    this.channel.close();
+    this.peers.forEach(pc => pc.close());
+    this.peers.clear();
+    this.pending = [];
+    this.removeAllListeners();
+  }
+
+  private handle(message: AssistServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        message.peers.filter(p => p.role === 'caregiver').forEach(p => this.connect(p.peerId));
+        break;
+      case 'peer': {
+        const { peerId, role } = message.peer;
+        if (role !== 'caregiver') break;
+        if (message.event === 'requested') {
+          this.setPending([...this.pending, peerId]);
+        } else if (message.event === 'joined') {
+          this.connect(peerId);
+        } else {
+          if (this.pending.includes(peerId)) this.setPending(this.pending.filter(id => id !== peerId));
+          this.disconnect(peerId);
+        }
+        break;
+      }
+      case 'signal': {
+        const pc = this.peers.get(message.from);
+        if (pc) applySignal(pc, message.signal).catch(err => this.emit('error', err.message));
+        break;
+      }
+      case 'talk':
+        if (message.active) this.talking.add(message.from);
+        else this.talking.delete(message.from);
+        this.emit('talk', this.talking.size > 0);
+        break;
+      case 'error':
+        this.emit('error', message.message);
+        break;
+    }
+  }
+
+  // We always offer: video goes out, the caregiver's voice comes back on the same connection.
+  private async connect(peerId: string) {
+    const pc = new RTCPeerConnection(RTC_CONFIG);
+    this.peers.set(peerId, pc);
+    this.emit('caregivers', this.peers.size);
+    const track = this.video?.getVideoTracks()[0];
+    pc.addTransceiver(track ?? 'video', { direction: 'sendonly', streams: this.video ? [this.video] : [] });
+    pc.addTransceiver('audio', { direction: 'recvonly' });
+    pc.ontrack = (e) => {
+      if (e.track.kind === 'audio') this.emit('talkStream', e.streams[0] ?? new MediaStream([e.track]));
+    };
+    pc.onicecandidate = (e) => {
+      if (e.candidate) this.channel.send({ type: 'signal', to: peerId, signal: { candidate: e.candidate.toJSON() } });
+    };
+    try {
+      await pc.setLocalDescription(await pc.createOffer());
+      if (pc.localDescription) {
+        this.channel.send({ type: 'signal', to: peerId, signal: { description: pc.localDescription.toJSON() } });
+      }
+    } catch (err: any) {
+      this.emit('error', `Could not share the camera: ${err.message}`);
+      this.disconnect(peerId);
+    }
+  }
+
+  private setPending(pending: string[]) {
+    this.pending = pending;
+    this.emit('requests', pending);
+  }
+
+  private disconnect(peerId: string) {
+    this.peers.get(peerId)?.close();
+    if (this.peers.delete(peerId)) this.emit('caregivers', this.peers.size);
+    // A caregiver who drops mid-sentence must not leave narration ducked.
+    if (this.talking.delete(peerId)) this.emit('talk', this.talking.size > 0);
+  }
+}
+
+export interface CaregiverAssistEvents {
+  pending: boolean; // waiting for the navigator to let us in
+  connected: boolean; // whether a navigator is in the room
+  video: MediaStream | null;
+  message: Extract<AssistServerMessage, { type: 'transcript' | 'hazard' | 'status' }>;
+  error: string;
+}
+
+/**
+ * The caregiver dashboard's side: watches the navigator's camera and talks
+ * back. The microphone must be passed in before joining, because it is part
+ * of the answer to the navigator's offer; without one the view is watch-only.
+ */
+export class CaregiverAssist extends TypedEmitter<CaregiverAssistEvents> {
+  private channel: AssistChannel;
+  private pc: RTCPeerConnection | null = null;
+  private navigatorId: string | null = null;
+
+  constructor(url: string, readonly room: string, private mic: MediaStream | null) {
+    super();
+    // Muted until the caregiver presses talk.
+    mic?.getAudioTracks().forEach(t => { t.enabled = false; });
+    this.channel = new AssistChannel(url, room, 'caregiver');
+    this.channel.on('message', (message) => this.handle(message));
+    this.channel.on('closed', (reason) => {
+      this.emit('connected', false);
+      this.emit('error', reason);
+    });
+  }
+
+  get canTalk(): boolean {
+    return Boolean(this.mic && this.pc);
+  }
+
+  setTalking(active: boolean): void {
+    if (!this.canTalk || !this.navigatorId) return;
+    this.mic?.getAudioTracks().forEach(t => { t.enabled = active; });
+    this.channel.send({ type: 'talk', active });
+  }
+
+  dispose(): void {
+    if (this.navigatorId) this.setTalking(false);
+    this.channel.close();
+    this.closePeer();
+    this.mic?.getTracks().forEach(t => t.stop());
+    this.mic = null;
+    this.removeAllListeners();
+  }
+
+  private handle(message: AssistServerMessage) {
+    switch (message.type) {
+      case 'pending':
+        this.emit('pending', true);
+        break;
+      case 'joined':
+        this.emit('pending', false);
+        this.emit('connected', message.peers.some(p => p.role === 'navigator'));
+        break;
+      case 'peer':
+        if (message.peer.role !== 'navigator') break;
+        if (message.event === 'left' && message.peer.peerId === this.navigatorId) this.closePeer();
+        this.emit('connected', message.event === 'joined');
+        break;
+      case 'signal':
+        this.handleSignal(message.from, message.signal).catch(err => this.emit('error', err.message));
+        break;
+      case 'transcript':
+      case 'hazard':
+      case 'status':
+        this.emit('message', message);
+        break;
+      case 'error':
+        this.emit('error', message.message);
+        break;
+    }
+  }
+
+  private async handleSignal(from: string, signal: SignalPayload) {
+    if ('description' in signal && signal.description.type === 'offer') {
+      // A new offer means a fresh connection (the navigator restarted its session).
+      this.closePeer();
+      this.navigatorId = from;
+      const pc = new RTCPeerConnection(RTC_CONFIG);
+      this.pc = pc;
+      pc.ontrack = (e) => {
+        if (e.track.kind === 'video') this.emit('video', e.streams[0] ?? new MediaStream([e.track]));
+      };
+      pc.onicecandidate = (e) => {
+        if (e.candidate) this.channel.send({ type: 'signal', to: from, signal: { candidate: e.candidate.toJSON() } });
+      };
+      await pc.setRemoteDescription(signal.description);
+      this.attachMic();
+      await pc.setLocalDescription(await pc.createAnswer());
+      if (pc.localDescription) {
+        this.channel.send({ type: 'signal', to: from, signal: { description: pc.localDescription.toJSON() } });
+      }
+      return;
+    }
+    if (this.pc && from === this.navigatorId) await applySignal(this.pc, signal);
+  }
+
+  // The navigator offered a receive-only audio transceiver; our mic answers it.
+  private attachMic() {
+    const track = this.mic?.getAudioTracks()[0];
+    const transceiver = this.pc?.getTransceivers().find(t => t.receiver.track.kind === 'audio');
+    if (!track || !transceiver) return;
+    transceiver.direction = 'sendonly';
+    transceiver.sender.replaceTrack(track);
+  }
+
+  private closePeer() {
+    this.pc?.close();
+    this.pc = null;
+    this.navigatorId = null;
+    this.emit('video', null);
+  }
+}
@@ -0,0 +1,152 @@
+import { TypedEmitter } from '../utils/emitter';
+import { LiveConnectOptions, LiveMessage, LiveTransport, LiveTransportCallbacks, LiveTransportConnection } from './liveTransport';
+import { SentInput } from './scriptedTransport';
+import { BundleEvent, SessionBundle } from './sessionBundle';
+
+/**
+ * Transport whose server side is driven from outside: `deliver` pushes a
+ * message to the open connection, `drop` simulates the socket going away.
+ * Messages delivered while no connection is open wait for the next one.
+ */
+export class ReplayTransport implements LiveTransport {
+  readonly sent: SentInput[] = [];
+  private callbacks: LiveTransportCallbacks | null = null;
+  private open = false;
+  private backlog: LiveMessage[] = [];
+
+  async connect(_options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection> {
+    this.callbacks = callbacks;
+    this.open = false;
+    let closed = false;
+
+    setTimeout(() => {
+      if (closed || this.callbacks !== callbacks) return;
+      this.open = true;
+      callbacks.onopen();
+      const pending = this.backlog;
+      this.backlog = [];
+      pending.forEach(m => callbacks.onmessage(m));
+    }, 0);
+
+    return {
+      sendRealtimeInput: (params) => { if (!closed) this.sent.push({ kind: 'realtime', params }); },
+      sendClientContent: (params) => { if (!closed) this.sent.push({ kind: 'clientContent', params }); },
+      sendToolResponse: (params) => { if (!closed) this.sent.push({ kind: 'toolResponse', params }); },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        if (this.callbacks === callbacks) {
+          this.open = false;
+          this.callbacks = null;
+        }
+        callbacks.onclose('client closed');
+      },
+    };
+  }
+
+  deliver(message: LiveMessage): void {
+    if (this.open && this.callbacks) {
+      this.callbacks.onmessage(message);
+    } else {
+      this.backlog.push(message);
+    }
+  }
+
+  drop(reason = 'replayed disconnect'): void {
+    const callbacks = this.callbacks;
+    if (!callbacks || !this.open) return;
+    this.open = false;
+    this.callbacks = null;
+    callbacks.onclose(reason);
+  }
+}
+
+export interface ReplaySinks {
+  onFrame(data: string): void;
+  onAudio(data: string, mimeType: string): void;
+}
+
+export interface ReplayProgress {
+  index: number;
+  total: number;
+  event: BundleEvent;
+}
+
+export interface BundleReplayerEvents {
+  progress: ReplayProgress;
+  done: void;
+}
+
+/**
+ * Walks a recorded bundle on a single timeline: outbound frames and PCM go to
+ * `sinks` (which normally forward them to the session), inbound messages and
+ * disconnects go to the replay transport. Because both sides share one
+ * ordered loop, a replay produces the same interleaving on every run.
+ * `speed` scales the recorded gaps; Infinity replays as fast as possible.
+ */
+export class BundleReplayer extends TypedEmitter<BundleReplayerEvents> {
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(private bundle: SessionBundle, private transport: ReplayTransport, private speed = 1) {
+    super();
+  }
+
+  async run(sinks: ReplaySinks): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    const events = this.bundle.events;
+    // Start at the first outbound input so the connection is already open.
+    let previousT = events.find(e => e.kind !== 'message' && e.kind !== 'open')?.t ?? 0;
+
+    for (let index = 0; index < events.length && this.running; index++) {
+      const event = events[index];
+      const gap = Math.max(0, event.t - previousT);
+      previousT = Math.max(previousT, event.t);
+      await this.sleep(Number.isFinite(this.speed) ? gap / this.speed : 0);
+      if (!this.running) break;
+
+      switch (event.kind) {
+        case 'frame':
+          sinks.onFrame(event.data);
+          break;
+        case 'audio':
+          sinks.onAudio(event.data, event.mimeType);
+          break;
+        case 'message':
+          this.transport.deliver(event.message);
+          break;
+        case 'close':
+          this.transport.drop(event.reason);
+          break;
+        case 'open':
+          break;
+      }
+      this.emit('progress', { index, total: events.length, event });
+    }
+
+    if (this.running) {
+      this.running = false;
+      this.emit('done', undefined);
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.wake?.();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.wake = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
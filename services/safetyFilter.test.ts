@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { LocalFinding } from '../types';
+import { ANALYSIS_HEIGHT, ANALYSIS_WIDTH, toLuma } from '../utils/frames';
+import { SafetyPreFilter, describeFindings, detectDropOff, detectLooming, detectRedLight } from './safetyFilter';
+import {
+  clearPathFrame,
+  dropOffFrame,
+  loomingFrames,
+  paintFrame,
+  redCarFrame,
+  redLightFrame,
+  stairsFrame,
+} from '../fixtures/safetyFrames';
+
+const W = ANALYSIS_WIDTH;
+const H = ANALYSIS_HEIGHT;
+
+describe('safety detectors', () => {
+  it('find nothing on a clear path', () => {
+    const frame = clearPathFrame();
+    expect(detectDropOff(toLuma(frame), W, H)).toBeNull();
+    expect(detectRedLight(frame)).toBeNull();
+    expect(detectLooming(toLuma(frame), toLuma(clearPathFrame()), W, H)).toBeNull();
+  });
+
+  it('tell a single drop-off from stairs', () => {
+    expect(detectDropOff(toLuma(dropOffFrame()), W, H)).toMatchObject({ type: 'drop_off', clockDirection: 12 });
+    expect(detectDropOff(toLuma(stairsFrame()), W, H)).toMatchObject({ type: 'stairs', clockDirection: 12 });
+  });
+
+  it('find a lit signal left of centre but not a red car', () => {
+    const light = detectRedLight(redLightFrame());
+    expect(light?.type).toBe('red_light');
+    expect([10, 11]).toContain(light?.clockDirection);
+    expect(detectRedLight(redCarFrame())).toBeNull();
+  });
+
+  it('find a shape filling the centre but not a change across the whole view', () => {
+    const [before, after] = loomingFrames();
+    expect(detectLooming(toLuma(before), toLuma(after), W, H)).toMatchObject({ type: 'obstacle', severity: 'high' });
+
+    // Walking into a brighter street changes every pixel alike.
+    const brighter = paintFrame((x, y) => {
+      const v = 150 + y + ((x * 7 + y * 13) % 9);
+      return [v, v, v + 5];
+    });
+    expect(detectLooming(toLuma(before), toLuma(brighter), W, H)).toBeNull();
+  });
+});
+
+describe('SafetyPreFilter', () => {
+  const types = (findings: LocalFinding[]) => findings.map(f => f.type);
+
+  it('confirms static findings over consecutive frames and alerts once per cooldown', () => {
+    const filter = new SafetyPreFilter();
+    const alerts: string[] = [];
+    filter.on('alert', f => alerts.push(f.type));
+
+    expect(filter.inspect(stairsFrame(), 0)).toEqual([]);
+    expect(types(filter.inspect(stairsFrame(), 250))).toEqual(['stairs']);
+    expect(types(filter.inspect(stairsFrame(), 500))).toEqual(['stairs']);
+    expect(alerts).toEqual(['stairs']);
+
+    filter.inspect(stairsFrame(), 5250);
+    expect(alerts).toEqual(['stairs', 'stairs']);
+  });
+
+  it('drops a static streak when a frame breaks it', () => {
+    const filter = new SafetyPreFilter();
+    filter.inspect(redLightFrame(), 0);
+    filter.inspect(clearPathFrame(), 250);
+    expect(filter.inspect(redLightFrame(), 500)).toEqual([]);
+  });
+
+  it('reports looming at once', () => {
+    const filter = new SafetyPreFilter();
+    const [before, after] = loomingFrames();
+    filter.inspect(before, 0);
+    const findings = filter.inspect(after, 250);
+    expect(types(findings)).toEqual(['obstacle']);
+    expect(describeFindings(findings)).toMatch(/obstacle at \d+ o'clock/);
+  });
+
+  it('does not compare frames further apart than loomingMaxGapMs', () => {
+    const filter = new SafetyPreFilter();
+    const [before, after] = loomingFrames();
+    filter.inspect(before, 0);
+    expect(filter.inspect(after, 1500)).toEqual([]);
+  });
+});
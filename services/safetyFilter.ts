@@ -0,0 +1,281 @@
+import { LocalFinding } from '../types';
+import { TypedEmitter } from '../utils/emitter';
+import { RgbaFrame, toLuma } from '../utils/frames';
+
+export interface SafetyThresholds {
+  loomingCoverage: number; // share of the centre that must change at once
+  loomingContrast: number; // centre change must exceed periphery change by this factor
+  loomingMaxGapMs: number; // frames further apart than this are not compared
+  edgeStrength: number; // luma step that counts as an edge
+  edgeCoverage: number; // share of columns an edge row must span
+  redMinArea: number; // share of the frame, lower bound for a light
+  redMaxArea: number; // larger red areas are cars, clothes, signs
+  confirmFrames: number; // consecutive frames a static finding must persist
+  cooldownMs: number; // per hazard type, between local alerts
+}
+
+export const DEFAULT_SAFETY_THRESHOLDS: SafetyThresholds = {
+  loomingCoverage: 0.45,
+  loomingContrast: 2,
+  loomingMaxGapMs: 1000,
+  edgeStrength: 0.16,
+  edgeCoverage: 0.7,
+  redMinArea: 0.0006,
+  redMaxArea: 0.02,
+  confirmFrames: 2,
+  cooldownMs: 5000,
+};
+
+const EDGE_SPAN = 2; // rows between the two samples of a vertical step
+const STAIR_EDGES = 3;
+
+// Horizontal position in the frame to a clock direction, for a camera with roughly 60° of view.
+export const columnToClock = (x: number): number => {
+  if (x < 0.2) return 10;
+  if (x < 0.4) return 11;
+  if (x < 0.6) return 12;
+  if (x < 0.8) return 1;
+  return 2;
+};
+
+/**
+ * Something large filling the middle of the view between two close frames,
+ * while the edges stay comparatively still. A camera pan changes everything
+ * evenly and does not trigger it.
+ */
+export function detectLooming(
+  prev: Float32Array,
+  curr: Float32Array,
+  width: number,
+  height: number,
+  t: SafetyThresholds = DEFAULT_SAFETY_THRESHOLDS,
+): LocalFinding | null {
+  if (prev.length !== curr.length) return null;
+  let centreSum = 0, centreCount = 0, centreChanged = 0, centreX = 0;
+  let edgeSum = 0, edgeCount = 0;
+  for (let y = 0; y < height; y++) {
+    const inRows = y >= height * 0.2 && y < height * 0.9;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const d = Math.abs(curr[i] - prev[i]);
+      if (inRows && x >= width * 0.2 && x < width * 0.8) {
+        centreSum += d;
+        centreCount++;
+        if (d > 0.2) {
+          centreChanged++;
+          centreX += x;
+        }
+      } else {
+        edgeSum += d;
+        edgeCount++;
+      }
+    }
+  }
+  const coverage = centreChanged / centreCount;
+  const centreMean = centreSum / centreCount;
+  const edgeMean = edgeSum / Math.max(1, edgeCount);
+  if (coverage < t.loomingCoverage || centreMean < t.loomingContrast * edgeMean + 0.03) return null;
+  return {
+    type: 'obstacle',
+    confidence: Math.min(1, coverage),
+    clockDirection: columnToClock(centreX / centreChanged / width),
+    distanceMeters: 1,
+    severity: 'high',
+  };
+}
+
+/**
+ * Long horizontal brightness steps in the lower half of the view: a kerb,
+ * platform or step edge. Three or more separate steps read as stairs.
+ */
+export function detectDropOff(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  t: SafetyThresholds = DEFAULT_SAFETY_THRESHOLDS,
+): LocalFinding | null {
+  const edgeRows: { y: number; coverage: number }[] = [];
+  for (let y = Math.floor(height * 0.45); y < height - EDGE_SPAN; y++) {
+    let up = 0, down = 0;
+    for (let x = 0; x < width; x++) {
+      const step = luma[(y + EDGE_SPAN) * width + x] - luma[y * width + x];
+      if (step > t.edgeStrength) up++;
+      else if (step < -t.edgeStrength) down++;
+    }
+    const coverage = Math.max(up, down) / width;
+    if (coverage >= t.edgeCoverage * 0.85) edgeRows.push({ y, coverage });
+  }
+  if (edgeRows.length === 0) return null;
+
+  // Neighbouring rows belong to the same edge.
+  const edges: { y: number; coverage: number }[] = [];
+  for (const row of edgeRows) {
+    const last = edges[edges.length - 1];
+    if (last && row.y - last.y <= EDGE_SPAN + 1) {
+      if (row.coverage > last.coverage) last.coverage = row.coverage;
+      last.y = row.y;
+    } else {
+      edges.push({ ...row });
+    }
+  }
+  const strongest = edges.reduce((a, b) => (b.coverage > a.coverage ? b : a));
+  if (strongest.coverage < t.edgeCoverage) return null;
+
+  const nearest = edges[edges.length - 1];
+  // Lower in the frame is closer to the user's feet.
+  const depth = 1 - nearest.y / height;
+  return {
+    type: edges.length >= STAIR_EDGES ? 'stairs' : 'drop_off',
+    confidence: strongest.coverage,
+    clockDirection: 12,
+    distanceMeters: Math.round((1 + depth * 8) * 2) / 2,
+    severity: depth < 0.3 ? 'high' : 'medium',
+  };
+}
+
+const isSignalRed = (r: number, g: number, b: number) => r >= 150 && g < r * 0.55 && b < r * 0.55;
+
+/**
+ * A small, compact, bright red blob in the upper part of the view that
+ * stands out from a darker surround, i.e. a lit signal rather than a red car.
+ */
+export function detectRedLight(frame: RgbaFrame, t: SafetyThresholds = DEFAULT_SAFETY_THRESHOLDS): LocalFinding | null {
+  const { width, data } = frame;
+  const height = Math.floor(frame.height * 0.6);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    if (isSignalRed(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])) mask[i] = 1;
+  }
+
+  const total = frame.width * frame.height;
+  const minArea = Math.max(3, t.redMinArea * total);
+  const maxArea = t.redMaxArea * total;
+  const luma = toLuma(frame);
+  let best: LocalFinding | null = null;
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== 1) continue;
+    mask[start] = 2;
+    stack.push(start);
+    let area = 0, sumX = 0, lumaSum = 0;
+    let minX = width, maxX = 0, minY = height, maxY = 0;
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      area++;
+      sumX += x;
+      lumaSum += luma[i];
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      for (const n of [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width]) {
+        if (n >= 0 && n < mask.length && mask[n] === 1) {
+          mask[n] = 2;
+          stack.push(n);
+        }
+      }
+    }
+    if (area < minArea || area > maxArea) continue;
+
+    const boxW = maxX - minX + 1;
+    const boxH = maxY - minY + 1;
+    const aspect = boxW / boxH;
+    if (aspect < 0.5 || aspect > 2 || area / (boxW * boxH) < 0.5) continue;
+
+    // Ring two pixels outside the bounding box.
+    let ringSum = 0, ringCount = 0;
+    for (let y = Math.max(0, minY - 2); y <= Math.min(frame.height - 1, maxY + 2); y++) {
+      for (let x = Math.max(0, minX - 2); x <= Math.min(width - 1, maxX + 2); x++) {
+        if (x >= minX && x <= maxX && y >= minY && y <= maxY) continue;
+        ringSum += luma[y * width + x];
+        ringCount++;
+      }
+    }
+    const blobLuma = lumaSum / area;
+    const ringLuma = ringCount ? ringSum / ringCount : 0;
+    if (ringLuma > blobLuma * 0.8) continue;
+
+    const confidence = Math.min(1, 0.5 + (blobLuma - ringLuma) * 2);
+    if (!best || confidence > best.confidence) {
+      best = {
+        type: 'red_light',
+        confidence,
+        clockDirection: columnToClock(sumX / area / width),
+        distanceMeters: 10,
+        severity: 'medium',
+      };
+    }
+  }
+  return best;
+}
+
+export interface SafetyFilterEvents {
+  alert: LocalFinding;
+}
+
+/**
+ * Runs the local heuristics on every analysed frame. `inspect` returns the
+ * findings confirmed for this frame so they can ride along with it to the
+ * cloud; `alert` fires at most once per hazard type per cooldown so the user
+ * hears about it immediately, connected or not.
+ */
+export class SafetyPreFilter extends TypedEmitter<SafetyFilterEvents> {
+  private thresholds: SafetyThresholds;
+  private prev: { luma: Float32Array; at: number } | null = null;
+  private streaks = new Map<LocalFinding['type'], number>();
+  private lastAlertAt = new Map<LocalFinding['type'], number>();
+
+  constructor(thresholds: Partial<SafetyThresholds> = {}) {
+    super();
+    this.thresholds = { ...DEFAULT_SAFETY_THRESHOLDS, ...thresholds };
+  }
+
+  inspect(frame: RgbaFrame, now = Date.now()): LocalFinding[] {
+    const t = this.thresholds;
+    const luma = toLuma(frame);
+    const candidates: LocalFinding[] = [];
+
+    if (this.prev && now - this.prev.at <= t.loomingMaxGapMs) {
+      const looming = detectLooming(this.prev.luma, luma, frame.width, frame.height, t);
+      if (looming) candidates.push(looming);
+    }
+    this.prev = { luma, at: now };
+
+    const dropOff = detectDropOff(luma, frame.width, frame.height, t);
+    if (dropOff) candidates.push(dropOff);
+    const redLight = detectRedLight(frame, t);
+    if (redLight) candidates.push(redLight);
+
+    // Static patterns must hold for a few frames; looming is only ever seen once.
+    const seen = new Set(candidates.map(c => c.type));
+    for (const type of [...this.streaks.keys()]) {
+      if (!seen.has(type)) this.streaks.delete(type);
+    }
+    const confirmed = candidates.filter(c => {
+      const streak = (this.streaks.get(c.type) ?? 0) + 1;
+      this.streaks.set(c.type, streak);
+      return c.type === 'obstacle' || streak >= t.confirmFrames;
+    });
+
+    for (const finding of confirmed) {
+      const last = this.lastAlertAt.get(finding.type) ?? -Infinity;
+      if (now - last < t.cooldownMs) continue;
+      this.lastAlertAt.set(finding.type, now);
+      this.emit('alert', finding);
+    }
+    return confirmed;
+  }
+
+  reset(): void {
+    this.prev = null;
+    this.streaks.clear();
+  }
+}
+
+/** Note sent right after a frame so the model can confirm or dismiss what the device saw. */
+export function describeFindings(findings: LocalFinding[]): string {
+  const items = findings.map(f =>
+    `${f.type} at ${f.clockDirection} o'clock, ~${f.distanceMeters} m (confidence ${f.confidence.toFixed(2)})`);
+  return `[On-device pre-filter] Possible ${items.join('; ')}. Check this frame and call report_hazard only if it is real.`;
+}
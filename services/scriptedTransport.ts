@@ -0,0 +1,97 @@
+import {
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import {
+  LiveConnectOptions,
+  LiveMessage,
+  LiveTransport,
+  LiveTransportCallbacks,
+  LiveTransportConnection,
+} from './liveTransport';
+
+// One entry of a recorded session. `delayMs` is relative to the previous step.
+export type ScriptedStep =
+  | { delayMs?: number; message: LiveMessage }
+  | { delayMs?: number; error: string }
+  | { delayMs?: number; close: true };
+
+export type SentInput =
+  | { kind: 'realtime'; params: LiveSendRealtimeInputParameters }
+  | { kind: 'clientContent'; params: LiveSendClientContentParameters }
+  | { kind: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+/**
+ * Offline stand-in for the Gemini Live socket. Replays a recorded script of
+ * server messages and keeps everything the client sent for later inspection.
+ */
+export class ScriptedLiveTransport implements LiveTransport {
+  readonly sent: SentInput[] = [];
+  lastConnectOptions: LiveConnectOptions | null = null;
+  connectCount = 0;
+
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(private script: ScriptedStep[]) {}
+
+  async connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection> {
+    this.lastConnectOptions = options;
+    this.connectCount++;
+    let closed = false;
+
+    const connection: LiveTransportConnection = {
+      sendRealtimeInput: (params) => { if (!closed) this.sent.push({ kind: 'realtime', params }); },
+      sendClientContent: (params) => { if (!closed) this.sent.push({ kind: 'clientContent', params }); },
+      sendToolResponse: (params) => { if (!closed) this.sent.push({ kind: 'toolResponse', params }); },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        this.clearTimers();
+        callbacks.onclose('client closed');
+      },
+    };
+
+    this.schedule(0, () => {
+      callbacks.onopen();
+      this.replay(0, callbacks, () => closed);
+    });
+
+    return connection;
+  }
+
+  /** Number of replay steps still waiting on a timer. */
+  get pendingSteps(): number {
+    return this.timers.size;
+  }
+
+  private replay(index: number, callbacks: LiveTransportCallbacks, isClosed: () => boolean) {
+    const step = this.script[index];
+    if (!step) return;
+    this.schedule(step.delayMs ?? 0, () => {
+      if (isClosed()) return;
+      if ('message' in step) {
+        callbacks.onmessage(step.message);
+      } else if ('error' in step) {
+        callbacks.onerror(new Error(step.error));
+      } else {
+        callbacks.onclose('server closed');
+        return;
+      }
+      this.replay(index + 1, callbacks, isClosed);
+    });
+  }
+
+  private schedule(delayMs: number, fn: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private clearTimers() {
+    this.timers.forEach(t => clearTimeout(t));
+    this.timers.clear();
+  }
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppStatus, Hazard } from '../types';
+import { DEMO_SESSION_SCRIPT } from '../fixtures/demoSession';
+import { LiveNavigatorSession, ToolCallEvent, TurnCompleteEvent } from './LiveNavigatorSession';
+import { LiveTransport } from './liveTransport';
+import { BundleReplayer, ReplayTransport } from './replayTransport';
+import { ScriptedLiveTransport, ScriptedStep } from './scriptedTransport';
+import { BUNDLE_VERSION, RecordingTransport, SessionBundle, SessionRecorder, isSessionBundle } from './sessionBundle';
+
+const CONFIG = { systemInstruction: 'test' };
+
+// The demo crossing, then a mode switch that listeners (not the session) answer.
+const SCRIPT: ScriptedStep[] = [
+  ...DEMO_SESSION_SCRIPT,
+  { delayMs: 200, message: { toolCall: { functionCalls: [{ id: 'call-2', name: 'set_mode', args: { mode: 'read' } }] } } },
+];
+
+const summarize = ({ type, clockDirection, distanceMeters, severity }: Hazard) => ({ type, clockDirection, distanceMeters, severity });
+
+// Everything a listener of the session sees, in the order it saw it.
+function observe(transport: LiveTransport) {
+  const session = new LiveNavigatorSession(transport, { model: 'test-model', config: CONFIG });
+  const hazards: Hazard[] = [];
+  const turns: TurnCompleteEvent[] = [];
+  const transcript: string[] = [];
+  const toolCalls: ToolCallEvent[] = [];
+  session.on('hazard', h => hazards.push(h));
+  session.on('turnComplete', t => turns.push(t));
+  session.on('transcription', t => transcript.push(`${t.role}: ${t.text}`));
+  session.on('toolCall', c => {
+    toolCalls.push(c);
+    session.respondToTool(c.id, c.name, { mode: c.args.mode });
+  });
+  return { session, hazards, turns, transcript, toolCalls };
+}
+
+// Records the scripted session with one camera frame and one chunk of speech sent along the way.
+async function recordDemo(): Promise<{ bundle: SessionBundle; live: ReturnType<typeof observe>; sent: ScriptedLiveTransport['sent'] }> {
+  const scripted = new ScriptedLiveTransport(SCRIPT);
+  const recorder = new SessionRecorder();
+  const live = observe(new RecordingTransport(scripted, recorder));
+  await live.session.start();
+  await vi.advanceTimersByTimeAsync(500);
+  live.session.sendFrame('jpeg-1');
+  await vi.advanceTimersByTimeAsync(300);
+  live.session.sendAudio('pcm-1');
+  await vi.advanceTimersByTimeAsync(5000);
+  live.session.stop();
+  // Bundles reach the replayer as downloaded JSON files.
+  return { bundle: JSON.parse(JSON.stringify(recorder.toBundle())), live, sent: scripted.sent };
+}
+
+async function replay(bundle: SessionBundle) {
+  const transport = new ReplayTransport();
+  const replayer = new BundleReplayer(bundle, transport);
+  const replayed = observe(transport);
+  const done = vi.fn();
+  replayer.on('done', done);
+  await replayed.session.start();
+  await vi.advanceTimersByTimeAsync(0);
+  void replayer.run({
+    onFrame: (data) => replayed.session.sendFrame(data),
+    onAudio: (data, mimeType) => replayed.session.sendAudio(data, mimeType),
+  });
+  await vi.advanceTimersByTimeAsync(10_000);
+  return { transport, replayed, done };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('session bundles', () => {
+  it('replays a recorded session into the same transcript, tool calls and hazards', async () => {
+    const { bundle, live, sent } = await recordDemo();
+    expect(isSessionBundle(bundle)).toBe(true);
+    expect(bundle.model).toBe('test-model');
+    expect(live.hazards).toHaveLength(1);
+    expect(live.toolCalls).toHaveLength(1);
+    expect(live.transcript).not.toHaveLength(0);
+    expect(sent).toContainEqual({ kind: 'realtime', params: { media: { data: 'jpeg-1', mimeType: 'image/jpeg' } } });
+
+    const { transport, replayed, done } = await replay(bundle);
+    expect(done).toHaveBeenCalledOnce();
+    expect(replayed.transcript).toEqual(live.transcript);
+    expect(replayed.toolCalls).toEqual(live.toolCalls);
+    expect(replayed.turns).toEqual(live.turns);
+    expect(replayed.hazards.map(summarize)).toEqual(live.hazards.map(summarize));
+    // The replay sends what the recorded session sent, tool responses included.
+    expect(transport.sent).toEqual(sent);
+    replayed.session.stop();
+  });
+
+  it('plays a truncated bundle up to where it stops', async () => {
+    const { bundle } = await recordDemo();
+    const cut = bundle.events.findIndex(e => e.kind === 'message' && !!e.message.serverContent?.turnComplete);
+    const { replayed, done } = await replay({ ...bundle, events: bundle.events.slice(0, cut) });
+
+    expect(done).toHaveBeenCalledOnce();
+    expect(replayed.hazards).toHaveLength(1);
+    expect(replayed.turns).toEqual([]);
+    expect(replayed.toolCalls).toEqual([]);
+    expect(replayed.session.status).toBe(AppStatus.ACTIVE);
+    replayed.session.stop();
+  });
+
+  it('refuses bundles from another version or without events', async () => {
+    const { bundle } = await recordDemo();
+    expect(isSessionBundle({ ...bundle, version: BUNDLE_VERSION + 1 })).toBe(false);
+    expect(isSessionBundle({ version: BUNDLE_VERSION, createdAt: bundle.createdAt })).toBe(false);
+    expect(isSessionBundle(null)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { LiveConnectOptions, LiveMessage, LiveTransport, LiveTransportCallbacks, LiveTransportConnection } from './liveTransport';
+
+export const BUNDLE_VERSION = 1;
+
+export type BundleEvent =
+  | { t: number; kind: 'open' }
+  | { t: number; kind: 'close'; reason?: string }
+  | { t: number; kind: 'frame'; data: string }
+  | { t: number; kind: 'audio'; data: string; mimeType: string }
+  | { t: number; kind: 'message'; message: LiveMessage };
+
+/** Everything that crossed the Live connection during one session, in order. */
+export interface SessionBundle {
+  version: number;
+  createdAt: string;
+  model?: string;
+  events: BundleEvent[];
+}
+
+export function isSessionBundle(value: unknown): value is SessionBundle {
+  const bundle = value as SessionBundle;
+  return !!bundle && bundle.version === BUNDLE_VERSION && Array.isArray(bundle.events);
+}
+
+export class SessionRecorder {
+  private events: BundleEvent[] = [];
+  private startedAt: number;
+  private model?: string;
+
+  constructor(private now: () => number = Date.now) {
+    this.startedAt = now();
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  record(event: DistributiveOmit<BundleEvent, 't'>): void {
+    this.events.push({ ...event, t: this.now() - this.startedAt } as BundleEvent);
+  }
+
+  toBundle(): SessionBundle {
+    return {
+      version: BUNDLE_VERSION,
+      createdAt: new Date(this.startedAt).toISOString(),
+      model: this.model,
+      events: this.events.slice(),
+    };
+  }
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Wraps a real transport and copies outbound frames and PCM plus every
+ * inbound message into a recorder, without changing what is sent.
+ */
+export class RecordingTransport implements LiveTransport {
+  constructor(private inner: LiveTransport, private recorder: SessionRecorder) {}
+
+  async connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection> {
+    const recorder = this.recorder;
+    recorder.setModel(options.model);
+    // A close we asked for is the end of the recording, not a disconnect to replay.
+    let clientClosed = false;
+    const connection = await this.inner.connect(options, {
+      onopen: () => {
+        recorder.record({ kind: 'open' });
+        callbacks.onopen();
+      },
+      onmessage: (message) => {
+        recorder.record({ kind: 'message', message });
+        callbacks.onmessage(message);
+      },
+      onerror: callbacks.onerror,
+      onclose: (reason) => {
+        if (!clientClosed) recorder.record({ kind: 'close', reason });
+        callbacks.onclose(reason);
+      },
+    });
+
+    return {
+      sendRealtimeInput: (params) => {
+        const media = params.media as { data?: string; mimeType?: string } | undefined;
+        if (media?.data && media.mimeType === 'image/jpeg') {
+          recorder.record({ kind: 'frame', data: media.data });
+        } else if (media?.data && media.mimeType?.startsWith('audio/pcm')) {
+          recorder.record({ kind: 'audio', data: media.data, mimeType: media.mimeType });
+        }
+        connection.sendRealtimeInput(params);
+      },
+      sendClientContent: (params) => connection.sendClientContent(params),
+      sendToolResponse: (params) => connection.sendToolResponse(params),
+      audioOutput: connection.audioOutput,
+      close: () => {
+        clientClosed = true;
+        connection.close();
+      },
+    };
+  }
+}
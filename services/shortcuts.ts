@@ -0,0 +1,90 @@
+import { InteractionMode } from '../types';
+import { INTERACTION_MODES } from './modes';
+
+export type ShortcutAction =
+  | { type: 'toggleSession' }
+  | { type: 'setMode'; mode: InteractionMode }
+  | { type: 'cycleMode'; step: 1 | -1 }
+  | { type: 'repeatHazards' }
+  | { type: 'togglePause' }
+  | { type: 'talk'; pressed: boolean };
+
+// Shown in the UI and exposed through aria-keyshortcuts.
+export const SHORTCUT_KEYS = {
+  toggleSession: 'S',
+  cycleMode: 'M',
+  repeatHazards: 'R',
+  togglePause: 'P',
+  talk: 'T', // hold to talk in push-to-talk mode
+  modes: INTERACTION_MODES.map((_, i) => String(i + 1)),
+};
+
+type KeyInput = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+/**
+ * Maps a key press to an app action. Hardware media keys (headset buttons,
+ * Bluetooth remotes) arrive here as MediaPlayPause / MediaTrackNext keys.
+ */
+export function resolveShortcut(e: KeyInput, isTyping: boolean): ShortcutAction | null {
+  switch (e.key) {
+    case 'MediaPlayPause':
+    case 'MediaStop':
+      return { type: 'toggleSession' };
+    case 'MediaTrackNext':
+      return { type: 'cycleMode', step: 1 };
+    case 'MediaTrackPrevious':
+      return { type: 'cycleMode', step: -1 };
+  }
+  if (isTyping || e.ctrlKey || e.metaKey || e.altKey) return null;
+
+  const key = e.key.toUpperCase();
+  if (key === SHORTCUT_KEYS.toggleSession) return { type: 'toggleSession' };
+  if (key === SHORTCUT_KEYS.repeatHazards) return { type: 'repeatHazards' };
+  if (key === SHORTCUT_KEYS.togglePause) return { type: 'togglePause' };
+  if (key === SHORTCUT_KEYS.talk) return { type: 'talk', pressed: true };
+  if (key === SHORTCUT_KEYS.cycleMode) return { type: 'cycleMode', step: e.shiftKey ? -1 : 1 };
+  const modeIndex = SHORTCUT_KEYS.modes.indexOf(e.key);
+  if (modeIndex >= 0) return { type: 'setMode', mode: INTERACTION_MODES[modeIndex] };
+  return null;
+}
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function cycleMode(current: InteractionMode, step: 1 | -1): InteractionMode {
+  const i = INTERACTION_MODES.indexOf(current);
+  return INTERACTION_MODES[(i + step + INTERACTION_MODES.length) % INTERACTION_MODES.length];
+}
+
+/**
+ * Lock-screen and headset controls via the Media Session API. Browsers only
+ * route these while the page is playing audio, i.e. during a session.
+ */
+export function bindMediaSession(dispatch: (action: ShortcutAction) => void): () => void {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return () => {};
+  const handlers: [MediaSessionAction, ShortcutAction][] = [
+    ['play', { type: 'toggleSession' }],
+    ['pause', { type: 'toggleSession' }],
+    ['stop', { type: 'toggleSession' }],
+    ['nexttrack', { type: 'cycleMode', step: 1 }],
+    ['previoustrack', { type: 'cycleMode', step: -1 }],
+  ];
+  for (const [action, shortcut] of handlers) {
+    try {
+      navigator.mediaSession.setActionHandler(action, () => dispatch(shortcut));
+    } catch {
+      // Unsupported action in this browser.
+    }
+  }
+  return () => {
+    for (const [action] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, null);
+      } catch {
+        // Unsupported action in this browser.
+      }
+    }
+  };
+}
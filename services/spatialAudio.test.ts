@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialCueTracker, clockToAzimuth, clockToPan, distanceGain, parseClockPositions } from './spatialAudio';
+
+describe('clock directions', () => {
+  it('turns clockwise from straight ahead', () => {
+    expect(clockToAzimuth(12)).toBe(0);
+    expect(clockToAzimuth(3)).toBeCloseTo(Math.PI / 2);
+    expect(clockToAzimuth(6)).toBeCloseTo(Math.PI);
+    expect(clockToAzimuth(9)).toBeCloseTo(3 * Math.PI / 2);
+  });
+
+  it('pans 3 hard right, 9 hard left, 12 and 6 centred', () => {
+    expect(clockToPan(3)).toBeCloseTo(1);
+    expect(clockToPan(9)).toBeCloseTo(-1);
+    expect(clockToPan(12)).toBe(0);
+    expect(clockToPan(6)).toBe(0);
+    expect(clockToPan(1)).toBeCloseTo(0.5);
+    expect(clockToPan(11)).toBeCloseTo(-0.5);
+  });
+
+  it('gets quieter with distance, never louder than at 1 m', () => {
+    expect(distanceGain(0.5)).toBe(1);
+    expect(distanceGain(1)).toBe(1);
+    expect(distanceGain(3)).toBeCloseTo(0.5);
+  });
+});
+
+describe('parseClockPositions', () => {
+  it('reads Chinese and English positions with their distances', () => {
+    expect(parseClockPositions('3点钟方向，约2米处有台阶；十一点钟方向有人。').map(({ clockDirection, distanceMeters }) => ({ clockDirection, distanceMeters })))
+      .toEqual([{ clockDirection: 3, distanceMeters: 2 }, { clockDirection: 11, distanceMeters: undefined }]);
+    expect(parseClockPositions("A bench at 2 o'clock, about 5 meters.")[0]).toMatchObject({ clockDirection: 2, distanceMeters: 5 });
+  });
+
+  it('ignores numbers off the dial', () => {
+    expect(parseClockPositions('13点钟方向')).toEqual([]);
+  });
+});
+
+describe('SpatialCueTracker', () => {
+  it('hands out each position once as the transcript streams in', () => {
+    const tracker = new SpatialCueTracker();
+    expect(tracker.update('1点钟方向，约2米')).toEqual([{ clockDirection: 1, distanceMeters: 2 }]);
+    expect(tracker.update('1点钟方向，约2米处有一个消防栓。')).toEqual([]);
+  });
+
+  it('holds back a position until its distance can no longer arrive, or the turn ends', () => {
+    const tracker = new SpatialCueTracker();
+    expect(tracker.update('前方3点钟方向')).toEqual([]);
+    expect(tracker.update('前方3点钟方向，约')).toEqual([]);
+    expect(tracker.flush('前方3点钟方向，约4米')).toEqual([{ clockDirection: 3, distanceMeters: 4 }]);
+
+    const late = new SpatialCueTracker();
+    late.update('9点钟方向');
+    expect(late.update(`9点钟方向${'。'.repeat(30)}`)).toEqual([{ clockDirection: 9, distanceMeters: undefined }]);
+  });
+
+  it('cues the next turn after a flush', () => {
+    const tracker = new SpatialCueTracker();
+    tracker.update('1点钟方向，约2米');
+    tracker.flush('1点钟方向，约2米');
+    expect(tracker.update('2点钟方向，约3米')).toEqual([{ clockDirection: 2, distanceMeters: 3 }]);
+  });
+
+  it('starts over after a reconnect instead of muting the new transcript', () => {
+    const tracker = new SpatialCueTracker();
+    tracker.update('1点钟方向，约2米');
+    tracker.reset();
+    expect(tracker.update('4点钟方向，约1米')).toEqual([{ clockDirection: 4, distanceMeters: 1 }]);
+  });
+
+  it('notices a transcript that starts over even without a reset', () => {
+    const tracker = new SpatialCueTracker();
+    tracker.update('1点钟方向，约2米有');
+    expect(tracker.update('4点钟方向，约1米')).toEqual([{ clockDirection: 4, distanceMeters: 1 }]);
+  });
+});
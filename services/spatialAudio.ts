@@ -0,0 +1,194 @@
+export type OutputDevice = 'headphones' | 'speakers';
+
+export interface SpatialPosition {
+  clockDirection: number; // 1-12, 12 straight ahead
+  distanceMeters?: number;
+}
+
+export interface SpatialSettings {
+  enabled: boolean;
+  output: OutputDevice; // HRTF needs headphones; speakers get plain stereo panning
+  swapChannels: boolean; // for earbuds worn the wrong way round
+}
+
+export const DEFAULT_SPATIAL_SETTINGS: SpatialSettings = {
+  enabled: true,
+  output: 'headphones',
+  swapChannels: false,
+};
+
+const SPATIAL_SETTINGS_KEY = 'openclaw.spatial.v1';
+
+// Short double tick played from wherever the model just placed something.
+export const POSITION_CUE_TONES = [1175, 1175];
+
+const DEFAULT_DISTANCE_M = 2;
+const MIN_DISTANCE_M = 0.5;
+const MAX_DISTANCE_M = 30;
+const ROLLOFF = 0.5;
+
+type SpatialContext = Pick<BaseAudioContext, 'createPanner' | 'createStereoPanner' | 'createGain'>;
+
+// Clockwise angle from straight ahead, in radians.
+export const clockToAzimuth = (clock: number): number => ((clock % 12) / 12) * 2 * Math.PI;
+
+// Maps a clock direction to a stereo position: 12 and 6 are centred, 3 is hard right, 9 hard left.
+export const clockToPan = (clock: number): number => {
+  const pan = Math.sin(clockToAzimuth(clock));
+  return Math.abs(pan) < 1e-9 ? 0 : pan;
+};
+
+// Same curve as a PannerNode with distanceModel 'inverse', refDistance 1 and ROLLOFF.
+export const distanceGain = (meters: number): number => 1 / (1 + ROLLOFF * (Math.max(meters, 1) - 1));
+
+const clampDistance = (meters: number | undefined) =>
+  Math.min(MAX_DISTANCE_M, Math.max(MIN_DISTANCE_M, meters ?? DEFAULT_DISTANCE_M));
+
+/**
+ * Returns the node a cue source should connect to so it is heard from
+ * `position`. Web Audio's listener sits at the origin facing -z, so 12
+ * o'clock is -z and 3 o'clock is +x.
+ */
+export function spatialize(
+  ctx: SpatialContext,
+  position: SpatialPosition,
+  settings: SpatialSettings,
+  destination: AudioNode,
+): AudioNode {
+  if (!settings.enabled) return destination;
+  const azimuth = clockToAzimuth(position.clockDirection) * (settings.swapChannels ? -1 : 1);
+  const distance = clampDistance(position.distanceMeters);
+
+  if (settings.output === 'speakers') {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = Math.sin(azimuth);
+    const gain = ctx.createGain();
+    gain.gain.value = distanceGain(distance);
+    panner.connect(gain);
+    gain.connect(destination);
+    return panner;
+  }
+
+  const panner = ctx.createPanner();
+  panner.panningModel = 'HRTF';
+  panner.distanceModel = 'inverse';
+  panner.refDistance = 1;
+  panner.rolloffFactor = ROLLOFF;
+  panner.maxDistance = MAX_DISTANCE_M;
+  const x = Math.sin(azimuth) * distance;
+  const z = -Math.cos(azimuth) * distance;
+  if (panner.positionX) {
+    panner.positionX.value = x;
+    panner.positionY.value = 0;
+    panner.positionZ.value = z;
+  } else {
+    panner.setPosition(x, 0, z);
+  }
+  panner.connect(destination);
+  return panner;
+}
+
+export function loadSpatialSettings(): SpatialSettings {
+  try {
+    return { ...DEFAULT_SPATIAL_SETTINGS, ...JSON.parse(localStorage.getItem(SPATIAL_SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SPATIAL_SETTINGS;
+  }
+}
+
+export function saveSpatialSettings(settings: SpatialSettings): void {
+  localStorage.setItem(SPATIAL_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  一: 1, 二: 2, 两: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+// Arabic numerals and simple Chinese numerals up to 99 (三, 十二, 二十, 两).
+export function parseNumber(text: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text === '半') return 0.5;
+  const tens = text.indexOf('十');
+  if (tens < 0) return text.length === 1 && text in CHINESE_DIGITS ? CHINESE_DIGITS[text] : null;
+  const high = tens === 0 ? 1 : CHINESE_DIGITS[text.slice(0, tens)];
+  const lowText = text.slice(tens + 1);
+  const low = lowText ? CHINESE_DIGITS[lowText] : 0;
+  return high === undefined || low === undefined ? null : high * 10 + low;
+}
+
+export interface ParsedPosition extends SpatialPosition {
+  index: number; // offset of the match in the source text
+  end: number;
+}
+
+const NUM = '(\\d{1,2}|十[一二]?|[一二两兩三四五六七八九十])';
+const CLOCK_PATTERNS = [
+  new RegExp(`${NUM}\\s*(?:点钟|點鐘|点方向|點方向)`, 'g'),
+  /\b(1[0-2]|[1-9])\s*o['’]?\s*clock\b/gi,
+];
+const DISTANCE_PATTERN =
+  /^[\s,，、]*(?:方向)?[\s,，、]*(?:约|約|大约|大約|大概|about|around|roughly|approximately)?\s*(\d+(?:\.\d+)?|[一二两兩三四五六七八九十半]+)\s*(?:米|公尺|m\b|meters?\b|metres?\b)/i;
+const DISTANCE_LOOKAHEAD = 24;
+
+/** Finds clock-method positions ("3点钟方向，约2米", "at 3 o'clock, about 2 meters") in model speech. */
+export function parseClockPositions(text: string): ParsedPosition[] {
+  const found: ParsedPosition[] = [];
+  for (const pattern of CLOCK_PATTERNS) {
+    pattern.lastIndex = 0;
+    for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+      const clock = parseNumber(m[1]);
+      if (clock === null || clock < 1 || clock > 12) continue;
+      let end = m.index + m[0].length;
+      let distanceMeters: number | undefined;
+      const d = DISTANCE_PATTERN.exec(text.slice(end, end + DISTANCE_LOOKAHEAD));
+      if (d) {
+        const meters = parseNumber(d[1]);
+        if (meters !== null) {
+          distanceMeters = meters;
+          end += d[0].length;
+        }
+      }
+      found.push({ clockDirection: clock, distanceMeters, index: m.index, end });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Follows a streaming transcript and hands out each position once. A
+ * position whose distance may still be arriving is held back until the text
+ * has moved past it. Positions are keyed by offset, so a transcript that
+ * starts over (a reconnect drops the half-spoken turn) starts a fresh set.
+ */
+export class SpatialCueTracker {
+  private cued = new Set<number>();
+  private text = '';
+
+  update(text: string): SpatialPosition[] {
+    if (!text.startsWith(this.text)) this.cued.clear();
+    this.text = text;
+    const ready: SpatialPosition[] = [];
+    for (const p of parseClockPositions(text)) {
+      if (this.cued.has(p.index)) continue;
+      if (p.distanceMeters === undefined && text.length - p.end < DISTANCE_LOOKAHEAD) continue;
+      this.cued.add(p.index);
+      ready.push({ clockDirection: p.clockDirection, distanceMeters: p.distanceMeters });
+    }
+    return ready;
+  }
+
+  /** Flushes positions still held back, e.g. at the end of a turn. */
+  flush(text: string): SpatialPosition[] {
+    const ready = parseClockPositions(text)
+      .filter(p => !this.cued.has(p.index))
+      .map(p => ({ clockDirection: p.clockDirection, distanceMeters: p.distanceMeters }));
+    this.reset();
+    return ready;
+  }
+
+  /** Forgets the current turn without cueing what is left of it, e.g. on reconnect. */
+  reset(): void {
+    this.cued.clear();
+    this.text = '';
+  }
+}
@@ -0,0 +1,107 @@
+import { LiveCredentials } from '../types';
+import {
+  GeminiLiveTransport,
+  LiveConnectOptions,
+  LiveTransport,
+  LiveTransportCallbacks,
+  LiveTransportConnection,
+  TransportError,
+} from './liveTransport';
+import { ScriptedLiveTransport } from './scriptedTransport';
+import { OpenAICompatibleTransport } from './openaiTransport';
+import { DEMO_SESSION_SCRIPT } from '../fixtures/demoSession';
+
+export const LIVE_TOKEN_ENDPOINT = '/api/live-token';
+const SESSION_HEADER = 'x-openclaw-session';
+
+// The token is locked to the model and config it is requested for, so they
+// travel with every request, reconnects included.
+export const fetchLiveCredentials = async (
+  endpoint: string,
+  options: LiveConnectOptions,
+  sessionId?: string,
+): Promise<LiveCredentials> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, model: options.model, config: options.config }),
+    });
+  } catch (err: any) {
+    throw new TransportError(`Token server unreachable: ${err.message}`, true);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const message = body.message || `Token server returned ${response.status}`;
+    // Rate limits and upstream hiccups pass; an expired or refused session does not.
+    throw new TransportError(message, response.status === 429 || response.status >= 500);
+  }
+  return response.json();
+};
+
+/**
+ * Connects with short-lived credentials from the token server instead of a
+ * bundled API key. Every connect, including reconnects, fetches a fresh
+ * single-use token for the same server-side session, and the connection is
+ * ended locally once the session's time limit passes. Which backend answers
+ * is the token server's configuration (`OPENCLAW_UPSTREAM`), not the client's.
+ */
+export class TokenLiveTransport implements LiveTransport {
+  private sessionId: string | undefined;
+  private stub: ScriptedLiveTransport | null = null;
+  private vision: OpenAICompatibleTransport | null = null;
+
+  constructor(private endpoint = LIVE_TOKEN_ENDPOINT) {}
+
+  async connect(options: LiveConnectOptions, callbacks: LiveTransportCallbacks): Promise<LiveTransportConnection> {
+    const credentials = await fetchLiveCredentials(this.endpoint, options, this.sessionId);
+    this.sessionId = credentials.sessionId;
+
+    let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+    const clearExpiry = () => {
+      if (expiryTimer) clearTimeout(expiryTimer);
+      expiryTimer = null;
+    };
+    const guarded: LiveTransportCallbacks = {
+      ...callbacks,
+      onclose: (reason) => {
+        clearExpiry();
+        callbacks.onclose(reason);
+      },
+    };
+
+    const connection = await this.upstream(credentials).connect(options, guarded);
+    expiryTimer = setTimeout(() => {
+      expiryTimer = null;
+      connection.close();
+      callbacks.onerror(new TransportError('Session time limit reached', false));
+    }, Math.max(0, credentials.expiresAt - Date.now()));
+
+    return {
+      sendRealtimeInput: (params) => connection.sendRealtimeInput(params),
+      sendClientContent: (params) => connection.sendClientContent(params),
+      sendToolResponse: (params) => connection.sendToolResponse(params),
+      audioOutput: connection.audioOutput,
+      close: () => {
+        clearExpiry();
+        connection.close();
+      },
+    };
+  }
+
+  private upstream(credentials: LiveCredentials): LiveTransport {
+    if (credentials.upstream === 'stub') {
+      this.stub ??= new ScriptedLiveTransport(DEMO_SESSION_SCRIPT);
+      return this.stub;
+    }
+    if (credentials.upstream === 'openai') {
+      // The token server proxies the self-hosted endpoint for this session grant.
+      this.vision ??= new OpenAICompatibleTransport({
+        headers: { [SESSION_HEADER]: credentials.sessionId },
+      });
+      return this.vision;
+    }
+    return new GeminiLiveTransport(credentials.token, 'v1alpha');
+  }
+}
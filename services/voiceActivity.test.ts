@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { VadOptions, VoiceActivityDetector } from './voiceActivity';
+import {
+  SAMPLE_RATE,
+  concat,
+  distantChatter,
+  knocks,
+  questionInTraffic,
+  silence,
+  speech,
+  streetNoise,
+} from '../fixtures/speechAudio';
+
+type VadEvent = { type: 'start' | 'end'; atMs: number; durationMs?: number };
+
+// Feeds audio in 256-sample blocks, the size of a small ScriptProcessor buffer, and times each event.
+function run(audio: Float32Array, options: Partial<VadOptions> = {}) {
+  const vad = new VoiceActivityDetector({ sampleRate: SAMPLE_RATE, ...options });
+  const events: VadEvent[] = [];
+  let pushed = 0;
+  const atMs = () => Math.round((pushed / SAMPLE_RATE) * 1000);
+  vad.on('speechStart', () => events.push({ type: 'start', atMs: atMs() }));
+  vad.on('speechEnd', ({ durationMs }) => events.push({ type: 'end', atMs: atMs(), durationMs }));
+  for (let offset = 0; offset < audio.length; offset += 256) {
+    const block = audio.subarray(offset, offset + 256);
+    pushed += block.length;
+    vad.push(block);
+  }
+  return { vad, events };
+}
+
+describe('VoiceActivityDetector', () => {
+  it('opens one turn for a question asked in traffic and closes it after the hangover', () => {
+    const { events } = run(questionInTraffic());
+
+    expect(events.map(e => e.type)).toEqual(['start', 'end']);
+    const [start, end] = events;
+    // Speech runs from 3000 to 4500 ms, the last syllable fading out a little early. The turn
+    // opens after minSpeechMs and closes hangoverMs after the speech stops.
+    expect(start.atMs).toBeGreaterThanOrEqual(3000 + 120);
+    expect(start.atMs).toBeLessThan(3300);
+    expect(end.atMs).toBeGreaterThanOrEqual(4400 + 700);
+    expect(end.atMs).toBeLessThan(5400);
+    expect(end.durationMs).toBeGreaterThan(1300);
+    expect(end.durationMs).toBeLessThan(1700);
+  });
+
+  it('ignores distant chatter barely above the traffic', () => {
+    expect(run(distantChatter()).events).toEqual([]);
+  });
+
+  it('ignores knocks shorter than minSpeechMs', () => {
+    expect(run(knocks()).events).toEqual([]);
+  });
+
+  it('ignores faint sound under minLevel in a quiet room', () => {
+    const { events } = run(concat(silence(1000), speech(1500, 0.005), silence(1000)));
+    expect(events).toEqual([]);
+  });
+
+  it('follows steady background noise with its floor', () => {
+    const { vad } = run(streetNoise(4000, 0.05));
+    expect(vad.isSpeaking).toBe(false);
+    expect(vad.noiseFloor).toBeGreaterThan(0.02);
+  });
+
+  it('keeps one turn across syllable gaps and pauses shorter than the hangover', () => {
+    const audio = concat(streetNoise(2000), speech(1000), streetNoise(500, 0.02, 2), speech(1000), streetNoise(1500, 0.02, 3));
+    expect(run(audio).events.map(e => e.type)).toEqual(['start', 'end']);
+  });
+
+  it('splits turns at a pause longer than the hangover', () => {
+    const audio = concat(streetNoise(2000), speech(1000), streetNoise(500, 0.02, 2), speech(1000), streetNoise(1500, 0.02, 3));
+    const { events } = run(audio, { hangoverMs: 300 });
+    expect(events.map(e => e.type)).toEqual(['start', 'end', 'start', 'end']);
+  });
+
+  it('raises the bar with startDb', () => {
+    expect(run(questionInTraffic(), { startDb: 30 }).events).toEqual([]);
+  });
+
+  it('ends a turn in progress on reset', () => {
+    const { vad, events } = run(concat(streetNoise(2000), speech(800)));
+    expect(vad.isSpeaking).toBe(true);
+    vad.reset();
+    expect(vad.isSpeaking).toBe(false);
+    expect(events.map(e => e.type)).toEqual(['start', 'end']);
+  });
+});
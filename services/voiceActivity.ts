@@ -0,0 +1,125 @@
+import { TypedEmitter } from '../utils/emitter';
+
+export interface VadOptions {
+  sampleRate: number;
+  frameMs: number; // analysis window
+  startDb: number; // level above the noise floor that counts as speech
+  stopDb: number; // lower threshold while speaking, so a soft syllable does not end the turn
+  minLevel: number; // RMS below which nothing is speech, however quiet the room
+  minSpeechMs: number; // sustained speech needed to open a turn; drops clicks and bumps
+  hangoverMs: number; // silence needed to close a turn
+  floorAdaptMs: number; // how fast the noise floor rises to steady background noise
+}
+
+export const DEFAULT_VAD_OPTIONS: Omit<VadOptions, 'sampleRate'> = {
+  frameMs: 20,
+  startDb: 12,
+  stopDb: 6,
+  minLevel: 0.01,
+  minSpeechMs: 120,
+  hangoverMs: 700,
+  floorAdaptMs: 2000,
+};
+
+export interface VoiceActivityEvents {
+  speechStart: void;
+  speechEnd: { durationMs: number };
+}
+
+const dbToRatio = (db: number) => 10 ** (db / 20);
+
+/**
+ * Energy-based voice activity detector over raw mic samples. The noise floor
+ * follows steady background (traffic, wind) so only sound clearly above it
+ * opens a turn. Deliberately simple: it does not tell a nearby voice from a
+ * nearby shout, it only keeps distant chatter from reaching the model.
+ */
+export class VoiceActivityDetector extends TypedEmitter<VoiceActivityEvents> {
+  private readonly options: VadOptions;
+  private readonly frameSize: number;
+  private frame: Float32Array;
+  private filled = 0;
+  private floor: number;
+  private speaking = false;
+  private aboveMs = 0;
+  private belowMs = 0;
+  private speechMs = 0;
+
+  constructor(options: Partial<VadOptions> & { sampleRate: number }) {
+    super();
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.frameSize = Math.max(1, Math.round((this.options.sampleRate * this.options.frameMs) / 1000));
+    this.frame = new Float32Array(this.frameSize);
+    this.floor = this.options.minLevel;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  get noiseFloor(): number {
+    return this.floor;
+  }
+
+  push(samples: Float32Array): void {
+    let offset = 0;
+    while (offset < samples.length) {
+      const n = Math.min(this.frameSize - this.filled, samples.length - offset);
+      this.frame.set(samples.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.frameSize) {
+        this.filled = 0;
+        this.analyse(rms(this.frame));
+      }
+    }
+  }
+
+  /** Ends a turn in progress without waiting for the hangover, e.g. when the session stops. */
+  reset(): void {
+    if (this.speaking) this.emit('speechEnd', { durationMs: this.speechMs });
+    this.speaking = false;
+    this.filled = 0;
+    this.aboveMs = 0;
+    this.belowMs = 0;
+    this.speechMs = 0;
+  }
+
+  private analyse(level: number) {
+    const { frameMs, startDb, stopDb, minLevel, minSpeechMs, hangoverMs, floorAdaptMs } = this.options;
+    const threshold = Math.max(minLevel, this.floor * dbToRatio(this.speaking ? stopDb : startDb));
+
+    if (!this.speaking) {
+      // The floor drops at once to a quieter reading and rises slowly, so speech barely moves it.
+      this.floor = level < this.floor
+        ? Math.max(level, minLevel * 0.1)
+        : this.floor + (level - this.floor) * (frameMs / floorAdaptMs);
+    }
+
+    if (level >= threshold) {
+      this.aboveMs += frameMs;
+      this.belowMs = 0;
+    } else {
+      this.belowMs += frameMs;
+      this.aboveMs = 0;
+    }
+
+    if (this.speaking) {
+      this.speechMs += frameMs;
+      if (this.belowMs >= hangoverMs) {
+        this.speaking = false;
+        this.emit('speechEnd', { durationMs: this.speechMs - this.belowMs });
+      }
+    } else if (this.aboveMs >= minSpeechMs) {
+      this.speaking = true;
+      this.speechMs = this.aboveMs;
+      this.emit('speechStart', undefined);
+    }
+  }
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
@@ -3,10 +3,114 @@ export enum AppStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   ACTIVE = 'ACTIVE',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
+export type HazardType = 'stairs' | 'vehicle' | 'red_light' | 'obstacle' | 'drop_off';
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+export interface Hazard {
+  id: string;
+  type: HazardType;
+  clockDirection: number; // 1-12, 12 is straight ahead
+  distanceMeters: number;
+  severity: HazardSeverity;
+  description?: string;
+  timestamp: number;
+  source?: 'model' | 'local'; // 'local' = raised by the on-device pre-filter
+}
+
+// A hazard candidate from the on-device pre-filter (services/safetyFilter.ts).
+export interface LocalFinding {
+  type: Extract<HazardType, 'obstacle' | 'drop_off' | 'stairs' | 'red_light'>;
+  confidence: number; // 0..1
+  clockDirection: number;
+  distanceMeters: number; // rough, from the position in the frame
+  severity: HazardSeverity;
+}
+
+export interface FramePolicy {
+  minFps: number;
+  maxFps: number;
+  maxWidth: number;
+  maxHeight: number;
+  jpegQuality: number;
+  duplicateThreshold: number; // grid difference below which a frame is skipped
+  motionThreshold: number; // grid difference above which the rate ramps up
+  keepAliveMs: number; // send at least one frame this often, even if nothing changed
+}
+
+export type Verbosity = 'hazards_only' | 'concise' | 'detailed';
+
+export type ProfileLanguage = 'zh-CN' | 'en-US' | 'yue-HK';
+
+// What the client hides in frames before they are uploaded (services/redaction.ts).
+export type RedactionPolicy = 'off' | 'faces' | 'faces_plates';
+
+export interface NavigatorProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  language: ProfileLanguage;
+  voiceName: string;
+  model: string;
+  verbosity: Verbosity;
+  framePolicy: Partial<FramePolicy>;
+  promptTemplate: string; // {{slot}} placeholders, see services/profiles.ts
+  redaction: RedactionPolicy;
+}
+
+export type InteractionMode = 'walk' | 'read' | 'find' | 'describe';
+
+// How the user talks to the model (services/inputModes.ts). Typed questions work in every mode.
+export type InputMode = 'open_mic' | 'push_to_talk' | 'hands_free' | 'text';
+
+// One leg of a saved route, walked in order (services/places.ts).
+export interface RouteStep {
+  instruction: string; // e.g. "Turn left out of the gate"
+  landmark?: string; // what confirms the step, e.g. "green bin by the lamp post"
+}
+
+// A named location the user walks to regularly, with what it looks like and how to get there.
+export interface SavedPlace {
+  id: string;
+  name: string;
+  notes: string;
+  landmarks: string[];
+  frames: string[]; // small JPEG data URLs captured from the (redacted) camera canvas
+  route: RouteStep[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RouteProgress {
+  placeId: string;
+  stepIndex: number; // next step to complete; equals route.length on arrival
+  offRoute: boolean;
+}
+
+export type TranscriptionKind = 'speech' | 'hazard' | 'mode';
+
 export interface TranscriptionEntry {
-  role: 'user' | 'assistant';
+  id: string;
+  timestamp: number;
+  kind: TranscriptionKind;
+  role: 'user' | 'assistant' | 'system';
   text: string;
+  sessionId: string;
+  mode?: InteractionMode;
+  hazard?: Hazard;
+  thumbnail?: string; // small JPEG data URL of the frame that triggered the entry
+}
+
+export type LiveUpstream = 'gemini' | 'stub' | 'openai';
+
+// Issued by the token server (server/tokenServer.ts) for one navigation session.
+export interface LiveCredentials {
+  token: string;
+  sessionId: string;
+  expiresAt: number; // hard session time limit, epoch ms
+  upstream: LiveUpstream;
 }
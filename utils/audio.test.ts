@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { PcmChunkEncoder, StreamingResampler, floatTo16BitPcm, pcm16ToFloat } from './audio';
+
+function sine(frequency: number, sampleRate: number, seconds: number): Float32Array {
+  const out = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < out.length; i++) out[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  return out;
+}
+
+// Feeds the signal in uneven blocks, like an audio callback under load.
+function resampleInChunks(resampler: StreamingResampler, input: Float32Array, sizes: number[]): Float32Array {
+  const parts: number[] = [];
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = sizes[i % sizes.length];
+    parts.push(...resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return Float32Array.from(parts);
+}
+
+function zeroCrossings(samples: Float32Array): number {
+  let n = 0;
+  for (let i = 1; i < samples.length; i++) if (samples[i - 1] < 0 !== samples[i] < 0) n++;
+  return n;
+}
+
+describe('StreamingResampler', () => {
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [22050, 16000],
+    [16000, 24000],
+    [8000, 16000],
+  ])('turns one second at %i Hz into one second at %i Hz', (inputRate, outputRate) => {
+    const resampler = new StreamingResampler(inputRate, outputRate);
+    const out = resampleInChunks(resampler, sine(440, inputRate, 1), [4096]);
+    // The last input sample stays pending for the next block, and with it the
+    // output samples that interpolate towards that block.
+    expect(Math.abs(out.length - outputRate)).toBeLessThanOrEqual(Math.ceil(outputRate / inputRate));
+  });
+
+  it('does not drift over a long stream of odd-sized blocks', () => {
+    const resampler = new StreamingResampler(44100, 16000);
+    const out = resampleInChunks(resampler, sine(440, 44100, 60), [4096, 1024, 333, 2048, 17]);
+    expect(Math.abs(out.length - 60 * 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps the pitch of a tone', () => {
+    const out = new StreamingResampler(48000, 16000).process(sine(440, 48000, 1));
+    // A 440 Hz tone crosses zero 880 times a second.
+    expect(Math.abs(zeroCrossings(out) - 880)).toBeLessThanOrEqual(2);
+  });
+
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [16000, 24000],
+  ])('gives the same samples at %i -> %i Hz whatever the block boundaries', (inputRate, outputRate) => {
+    const input = sine(997, inputRate, 0.5);
+    const whole = new StreamingResampler(inputRate, outputRate).process(input);
+    const chunked = resampleInChunks(new StreamingResampler(inputRate, outputRate), input, [128, 1, 4096, 77, 512]);
+    expect(chunked.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) expect(chunked[i]).toBeCloseTo(whole[i], 6);
+  });
+
+  it('passes samples through untouched when the rates match', () => {
+    const input = sine(440, 16000, 0.1);
+    const out = new StreamingResampler(16000, 16000).process(input);
+    expect(out).toEqual(input);
+    expect(out).not.toBe(input);
+  });
+
+  it('starts from scratch after reset', () => {
+    const resampler = new StreamingResampler(44100, 16000);
+    resampler.process(sine(440, 44100, 0.013));
+    resampler.reset();
+    const input = sine(440, 44100, 0.1);
+    expect(resampler.process(input)).toEqual(new StreamingResampler(44100, 16000).process(input));
+  });
+
+  it('rejects rates that are not positive', () => {
+    expect(() => new StreamingResampler(0, 16000)).toThrow(/Invalid sample rates/);
+    expect(() => new StreamingResampler(48000, -1)).toThrow(/Invalid sample rates/);
+  });
+});
+
+describe('floatTo16BitPcm', () => {
+  it('maps full scale to the Int16 limits', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([0, 1, -1, 0.5, -0.5])))).toEqual([0, 32767, -32768, 16383, -16384]);
+  });
+
+  it('clamps out-of-range samples instead of wrapping around', () => {
+    const out = floatTo16BitPcm(Float32Array.from([1.5, -1.5, 100, -100, Infinity, -Infinity]));
+    expect(Array.from(out)).toEqual([32767, -32768, 32767, -32768, 32767, -32768]);
+  });
+
+  it('round-trips through pcm16ToFloat within one step', () => {
+    const input = sine(440, 16000, 0.05);
+    const int16 = floatTo16BitPcm(input);
+    const back = pcm16ToFloat(new Uint8Array(int16.buffer));
+    for (let i = 0; i < input.length; i++) expect(Math.abs(back[i] - input[i])).toBeLessThan(1 / 16384);
+  });
+});
+
+describe('PcmChunkEncoder', () => {
+  it('emits fixed 100 ms chunks at 16 kHz from 48 kHz blocks', () => {
+    const encoder = new PcmChunkEncoder({ inputSampleRate: 48000 });
+    const input = sine(440, 48000, 1);
+    const chunks: Int16Array[] = [];
+    for (let offset = 0; offset < input.length; offset += 4096) {
+      chunks.push(...encoder.push(input.subarray(offset, offset + 4096)));
+    }
+    const rest = encoder.flush();
+
+    expect(chunks).toHaveLength(10);
+    chunks.forEach(chunk => expect(chunk.length).toBe(1600));
+    expect(rest).toBeNull();
+  });
+});
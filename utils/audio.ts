@@ -37,11 +37,207 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): string {
+export const INPUT_SAMPLE_RATE = 16000;
+
+export function pcmMimeType(sampleRate: number): string {
+  return `audio/pcm;rate=${sampleRate}`;
+}
+
+// Clamps to [-1, 1] so a full-scale sample cannot wrap around Int16.
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+}
+
+export function encodePcm16(int16: Int16Array): string {
+  return encodeBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength));
+}
+
+export function createPcmBlob(data: Float32Array): string {
+  return encodePcm16(floatTo16BitPcm(data));
+}
+
+// Inverse of floatTo16BitPcm for little-endian PCM16 bytes, e.g. a decoded mic chunk.
+export function pcm16ToFloat(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out = new Float32Array(bytes.byteLength >> 1);
+  for (let i = 0; i < out.length; i++) out[i] = view.getInt16(i * 2, true) / 32768;
+  return out;
+}
+
+// Mono 16-bit WAV, the format speech-to-text endpoints accept everywhere.
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const pcm = floatTo16BitPcm(samples);
+  const bytes = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  for (let i = 0; i < pcm.length; i++) view.setInt16(44 + i * 2, pcm[i], true);
+  return bytes;
+}
+
+/**
+ * Streaming sample-rate converter. Downsampling averages every input sample
+ * that falls into an output period (a box low-pass that keeps speech free of
+ * aliasing); upsampling interpolates linearly. State carries across calls, so
+ * chunk boundaries do not produce clicks or drift.
+ */
+export class StreamingResampler {
+  private pending = new Float32Array(0);
+  // Read position into `pending` in units of 1/outputRate input samples. Kept
+  // integral so block boundaries cannot shift where an output period starts.
+  private phase = 0;
+
+  constructor(readonly inputRate: number, readonly outputRate: number) {
+    if (inputRate <= 0 || outputRate <= 0) {
+      throw new Error(`Invalid sample rates ${inputRate} -> ${outputRate}`);
+    }
+  }
+
+  process(input: Float32Array): Float32Array {
+    const { inputRate: step, outputRate: unit } = this;
+    if (step === unit) return input.slice();
+
+    const buf = new Float32Array(this.pending.length + input.length);
+    buf.set(this.pending);
+    buf.set(input, this.pending.length);
+
+    const out: number[] = [];
+    let phase = this.phase;
+    if (step > unit) {
+      while (Math.floor((phase + step) / unit) <= buf.length) {
+        const start = Math.floor(phase / unit);
+        const end = Math.max(start + 1, Math.floor((phase + step) / unit));
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += buf[i];
+        out.push(sum / (end - start));
+        phase += step;
+      }
+    } else {
+      while (Math.floor(phase / unit) + 1 < buf.length) {
+        const i = Math.floor(phase / unit);
+        const frac = (phase - i * unit) / unit;
+        out.push(buf[i] + (buf[i + 1] - buf[i]) * frac);
+        phase += step;
+      }
+    }
+
+    const consumed = Math.min(Math.floor(phase / unit), buf.length);
+    this.pending = buf.slice(consumed);
+    this.phase = phase - consumed * unit;
+    return Float32Array.from(out);
+  }
+
+  reset(): void {
+    this.pending = new Float32Array(0);
+    this.phase = 0;
+  }
+}
+
+export interface PcmChunkEncoderOptions {
+  inputSampleRate: number;
+  outputSampleRate?: number;
+  chunkMs?: number;
+}
+
+/**
+ * Turns microphone blocks at the device rate into fixed-size Int16 chunks at
+ * the Live API input rate.
+ */
+export class PcmChunkEncoder {
+  readonly outputSampleRate: number;
+  readonly chunkSize: number;
+  private resampler: StreamingResampler;
+  private buffer: Int16Array;
+  private filled = 0;
+
+  constructor({ inputSampleRate, outputSampleRate = INPUT_SAMPLE_RATE, chunkMs = 100 }: PcmChunkEncoderOptions) {
+    this.outputSampleRate = outputSampleRate;
+    this.chunkSize = Math.max(1, Math.round((outputSampleRate * chunkMs) / 1000));
+    this.resampler = new StreamingResampler(inputSampleRate, outputSampleRate);
+    this.buffer = new Int16Array(this.chunkSize);
+  }
+
+  push(samples: Float32Array): Int16Array[] {
+    const pcm = floatTo16BitPcm(this.resampler.process(samples));
+    const chunks: Int16Array[] = [];
+    let offset = 0;
+    while (offset < pcm.length) {
+      const n = Math.min(this.chunkSize - this.filled, pcm.length - offset);
+      this.buffer.set(pcm.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.chunkSize) {
+        chunks.push(this.buffer);
+        this.buffer = new Int16Array(this.chunkSize);
+        this.filled = 0;
+      }
+    }
+    return chunks;
+  }
+
+  /** Returns whatever is buffered as a short final chunk. */
+  flush(): Int16Array | null {
+    if (this.filled === 0) return null;
+    const rest = this.buffer.slice(0, this.filled);
+    this.filled = 0;
+    this.resampler.reset();
+    return rest;
+  }
+}
+
+// Short sine blip with a soft envelope, used for local earcons.
+export function playTone(
+  ctx: Pick<BaseAudioContext, 'createOscillator' | 'createGain' | 'destination'>,
+  frequency: number,
+  startAt: number,
+  duration: number,
+  volume = 0.2,
+  destination: AudioNode = ctx.destination,
+): OscillatorNode {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.frequency.value = frequency;
+  gain.gain.setValueAtTime(0, startAt);
+  gain.gain.linearRampToValueAtTime(volume, startAt + 0.01);
+  gain.gain.linearRampToValueAtTime(0, startAt + duration);
+  osc.connect(gain);
+  gain.connect(destination);
+  osc.start(startAt);
+  osc.stop(startAt + duration);
+  return osc;
+}
+
+export function playEarcon(ctx: BaseAudioContext, frequencies: number[], noteDuration = 0.12): void {
+  frequencies.forEach((f, i) => playTone(ctx, f, ctx.currentTime + i * noteDuration, noteDuration));
+}
+
+// Root-mean-square level of Int16 PCM, normalised to 0..1.
+export function pcm16Rms(int16: Int16Array): number {
+  if (int16.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < int16.length; i++) {
+    const s = int16[i] / 32768;
+    sum += s * s;
   }
-  return encodeBase64(new Uint8Array(int16.buffer));
+  return Math.sqrt(sum / int16.length);
 }
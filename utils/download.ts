@@ -0,0 +1,13 @@
+// Saves in-memory data as a file through a temporary object URL.
+export function downloadFile(filename: string, contents: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadJson(filename: string, data: unknown): void {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+}
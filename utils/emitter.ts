@@ -0,0 +1,24 @@
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    set.add(listener);
+    this.listeners[event] = set;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+}
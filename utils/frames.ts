@@ -0,0 +1,91 @@
+import { FramePolicy } from '../types';
+
+export const DEFAULT_FRAME_POLICY: FramePolicy = {
+  minFps: 0.5,
+  maxFps: 4,
+  maxWidth: 768,
+  maxHeight: 768,
+  jpegQuality: 0.5,
+  duplicateThreshold: 0.02,
+  motionThreshold: 0.08,
+  keepAliveMs: 4000,
+};
+
+export const SIGNATURE_COLS = 16;
+export const SIGNATURE_ROWS = 12;
+
+// Resolution of the frames the on-device safety pre-filter looks at.
+export const ANALYSIS_WIDTH = 80;
+export const ANALYSIS_HEIGHT = 60;
+
+// RGBA pixels; ImageData satisfies this, and so do fixture frames built in Node.
+export interface RgbaFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Per-pixel luminance, 0..1.
+export function toLuma(frame: RgbaFrame): Float32Array {
+  const luma = new Float32Array(frame.width * frame.height);
+  const { data } = frame;
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return luma;
+}
+
+// Largest size with the same aspect ratio that fits the bounds; never upscales.
+export function fitWithin(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Block-averaged luminance of an RGBA buffer, normalised to 0..1. Cheap enough
+ * to run on every tick and stable against sensor noise.
+ */
+export function lumaGrid(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  cols = SIGNATURE_COLS,
+  rows = SIGNATURE_ROWS,
+): Float32Array {
+  const sums = new Float32Array(cols * rows);
+  const counts = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x++) {
+      const col = Math.min(cols - 1, Math.floor((x * cols) / width));
+      const i = (y * width + x) * 4;
+      sums[row * cols + col] += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+      counts[row * cols + col]++;
+    }
+  }
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] = counts[i] ? sums[i] / counts[i] / 255 : 0;
+  }
+  return sums;
+}
+
+// Mean absolute difference between two grids, 0 (identical) to 1.
+export function gridDifference(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+}
+
+/** Ramps up quickly on motion and decays slowly back towards the floor. */
+export function adaptFrameRate(currentFps: number, difference: number, policy: FramePolicy): number {
+  if (difference >= policy.motionThreshold) {
+    return Math.min(policy.maxFps, currentFps * 2);
+  }
+  return Math.max(policy.minFps, currentFps * 0.8);
+}
+
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
@@ -0,0 +1,5 @@
+// Best-effort vibration; iOS Safari and desktop browsers simply ignore it.
+export function vibrate(pattern: number | number[]): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return false;
+  return navigator.vibrate(pattern);
+}
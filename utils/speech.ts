@@ -0,0 +1,19 @@
+export interface SpeakOptions {
+  rate?: number;
+  volume?: number;
+}
+
+// Local spoken notices for moments when the model cannot talk (e.g. offline).
+export function speak(text: string, lang = 'zh-CN', options: SpeakOptions = {}): void {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  if (options.rate !== undefined) utterance.rate = options.rate;
+  if (options.volume !== undefined) utterance.volume = options.volume;
+  window.speechSynthesis.speak(utterance);
+}
+
+export function cancelSpeech(): void {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,11 +9,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // xfwd: both servers key their limits on the browser's address, not the proxy's.
+          '/api': { target: `http://127.0.0.1:${env.OPENCLAW_TOKEN_PORT || 8787}`, xfwd: true },
+          '/relay': { target: `ws://127.0.0.1:${env.OPENCLAW_RELAY_PORT || 8788}`, ws: true, xfwd: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      test: {
+        // Node by default; DOM suites opt in with a `@vitest-environment jsdom` comment.
+        environment: 'node',
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'dist/**'],
       },
       resolve: {
         alias: {